@@ -1,5 +1,5 @@
 /**
- * Script to register Discord slash commands
+ * Script to register Discord slash and message context-menu commands
  * Run with: bun run scripts/register-slash-command.ts
  */
 
@@ -13,28 +13,72 @@ if (!BOT_TOKEN || !APPLICATION_ID) {
   process.exit(1);
 }
 
-const command = {
-  name: "summarise",
-  description: "Summarise recent messages in this channel",
-  type: 1, // CHAT_INPUT
-  options: [
-    {
-      name: "minutes",
-      description: "Number of minutes to look back (default: 60)",
-      type: 4, // INTEGER
-      required: false,
-      min_value: 1,
-      max_value: 1440, // 24 hours
-    },
-  ],
-};
+const commands = [
+  {
+    name: "summarise",
+    description: "Summarise recent messages in this channel",
+    type: 1, // CHAT_INPUT
+    options: [
+      {
+        name: "minutes",
+        description: "Number of minutes to look back (default: 60)",
+        type: 4, // INTEGER
+        required: false,
+        min_value: 1,
+        max_value: 1440, // 24 hours
+      },
+      {
+        name: "threads",
+        description: "Also summarise threads started in the window (forum posts are always included)",
+        type: 5, // BOOLEAN
+        required: false,
+      },
+    ],
+  },
+  {
+    name: "digest",
+    description: "Summarise several channels of this server in one digest",
+    type: 1, // CHAT_INPUT
+    // Manage Server by default; admins can open it up under Server Settings → Integrations.
+    // Digests only ever cover channels the member can view either way.
+    default_member_permissions: "32",
+    options: [
+      {
+        name: "channels",
+        description: "Channels to include, e.g. #general #dev",
+        type: 3, // STRING
+        required: false,
+      },
+      {
+        name: "category",
+        description: "Include every text and forum channel in this category",
+        type: 7, // CHANNEL
+        channel_types: [4], // GUILD_CATEGORY
+        required: false,
+      },
+      {
+        name: "minutes",
+        description: "Number of minutes to look back (default: 60)",
+        type: 4, // INTEGER
+        required: false,
+        min_value: 1,
+        max_value: 1440, // 24 hours
+      },
+    ],
+  },
+  {
+    // Right-click a message → Apps → Summarise from here; a modal asks for the last message
+    name: "Summarise from here",
+    type: 3, // MESSAGE
+  },
+];
 
-async function registerCommand() {
+async function registerCommand(command: (typeof commands)[number]) {
   const url = GUILD_ID
     ? `${DISCORD_API_BASE}/applications/${APPLICATION_ID}/guilds/${GUILD_ID}/commands`
     : `${DISCORD_API_BASE}/applications/${APPLICATION_ID}/commands`;
 
-  console.log(`Registering command at: ${url}`);
+  console.log(`Registering "${command.name}" at: ${url}`);
 
   const response = await fetch(url, {
     method: "POST",
@@ -52,11 +96,17 @@ async function registerCommand() {
   }
 
   const result = await response.json();
-  console.log("✅ Command registered successfully!");
+  console.log(`✅ "${command.name}" registered successfully!`);
   console.log(JSON.stringify(result, null, 2));
 }
 
-registerCommand().catch((error) => {
+async function registerCommands() {
+  for (const command of commands) {
+    await registerCommand(command);
+  }
+}
+
+registerCommands().catch((error) => {
   console.error("Error:", error);
   process.exit(1);
 });
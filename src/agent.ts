@@ -5,7 +5,30 @@ import {
   AgentKitConfig,
 } from "@lucid-dreams/agent-kit";
 import { flow } from "@ax-llm/ax";
-import { getTelegramMessagesWithin, TelegramStoredMessage } from "./telegramStore";
+import { resolveDiscordMentions } from "./discordMentions";
+import { discordFetch } from "./discordRest";
+import {
+  getTelegramMessagesWithin,
+  getTelegramTopicNames,
+  isMeaningfulTelegramMessage,
+  selectTelegramMessages,
+  TelegramStoredMessage,
+} from "./telegramStore";
+import {
+  discordAccount,
+  formatUsdcAmount,
+  telegramAccount,
+  TOPUP_AMOUNT_BASE_UNITS,
+  walletAccount,
+} from "./credits";
+import {
+  estimateTokens,
+  getHeldQuote,
+  getPricingConfig,
+  PriceQuote,
+  priceSummary,
+  quoteSummary,
+} from "./pricing";
 
 type DiscordAuthor = {
   id: string;
@@ -38,6 +61,10 @@ type DiscordMessage = {
   author?: DiscordAuthor;
   attachments?: DiscordAttachment[];
   reactions?: DiscordReaction[];
+  mentions?: DiscordAuthor[];
+  mention_roles?: string[];
+  thread_id?: string; // set on messages fetched from a thread or forum post
+  thread_name?: string;
 };
 
 type ConversationEntry = {
@@ -49,11 +76,39 @@ type DiscordChannelInfo = {
   id: string;
   name?: string;
   guild_id?: string;
+  type?: number;
+  parent_id?: string | null; // category for channels, parent channel for threads
+  position?: number;
+  permission_overwrites?: DiscordPermissionOverwrite[];
+};
+
+type DiscordPermissionOverwrite = {
+  id: string;
+  type: number; // 0 role, 1 member
+  allow: string;
+  deny: string;
+};
+
+type DiscordRoleInfo = {
+  id: string;
+  permissions?: string;
+};
+
+type DiscordThread = {
+  id: string;
+  name?: string;
+  parent_id?: string | null;
+  last_message_id?: string | null;
+  thread_metadata?: {
+    archived?: boolean;
+    archive_timestamp?: string;
+  };
 };
 
 type DiscordGuildInfo = {
   id: string;
   name?: string;
+  owner_id?: string;
 };
 
 type DiscordMessageLinkParts = {
@@ -85,12 +140,27 @@ type SummarizerMessage = {
   reactions: SummarizerReaction[];
   reply_to_id?: string;
   thread_id?: string;
+  thread_name?: string;
   event_type?: string;
 };
 
 const DISCORD_API_DEFAULT_BASE = "https://discord.com/api/v10";
 const DISCORD_EPOCH = 1420070400000n;
 const MAX_FETCH_PAGES = 10; // safeguards agent costs by limiting to 1,000 messages.
+const DISCORD_MAX_SUMMARY_CHARS = 1000;
+const MAX_THREADS = 25; // caps the extra fetches a thread-inclusive summary can trigger
+const THREAD_FETCH_CONCURRENCY = 3;
+const DISCORD_DIGEST_MAX_CHANNELS = 25;
+// Shared across all sections of a server digest; delivery splits it over several messages
+const DISCORD_DIGEST_MAX_CHARS = 3000;
+const DISCORD_DIGEST_MIN_SECTION_CHARS = 250;
+// Channels fetched (and then summarised) side by side for a digest, to stay inside Discord's
+// per-route rate limits and not burst the LLM API
+const DISCORD_DIGEST_CONCURRENCY = 3;
+const DISCORD_DIGEST_CHANNEL_TYPES = new Set([0, 5, 15, 16]); // text, announcement, forum, media
+const DISCORD_FORUM_CHANNEL_TYPES = new Set([15, 16]); // GUILD_FORUM, GUILD_MEDIA
+const DISCORD_ADMINISTRATOR = 1n << 3n;
+const DISCORD_VIEW_CHANNEL = 1n << 10n;
 
 // USDC on Base: 0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913 (6 decimals)
 const USDC_ON_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
@@ -193,6 +263,8 @@ Short, natural sentences: "joked about…", "shared update on…", "debated…".
 
 Merge duplicates; ignore stickers, emoji-only posts, joins/leaves, and bot logs.
 
+Messages sharing a thread_id come from one Discord thread or forum post (titled by thread_name); treat each as its own discussion.
+
 Summarise by topic, not individual message.
 
 Scoring logic
@@ -453,6 +525,12 @@ addEntrypoint({
           "Discord message link marking the last message to include (inclusive)."
         )
         .optional(),
+      includeThreads: z
+        .boolean()
+        .describe(
+          "Also summarise threads started in the window, grouped by thread. Forum channels always include their posts."
+        )
+        .optional(),
     })
     .superRefine((value, ctx) => {
       const hasLookback = typeof value.lookbackMinutes === "number";
@@ -493,7 +571,8 @@ addEntrypoint({
         });
       }
     }),
-  price: process.env.ENTRYPOINT_PRICE || "0.05", // Default to 0.05 USDC (or set via ENTRYPOINT_PRICE env var)
+  // Base price only; the payment interception quotes the actual amount for each request (see pricing.ts)
+  price: formatUsdcAmount(getPricingConfig().base),
   // Note: x402 will handle token selection based on payment headers
   // For USDC, users will pay with USDC when using x402 wallet
   output: z.object({
@@ -609,15 +688,20 @@ addEntrypoint({
     ];
     const channelLabel = channelLabelParts.join(" · ");
 
-    const messages = await fetchMessagesBetween({
+    const fetched = await fetchConversationMessages({
       token,
       baseUrl,
       channelId,
+      channel: channelMeta,
+      guildId,
       start,
       end,
       initialAfterSnowflake,
       endMessageId,
+      includeThreads: ctx.input.includeThreads,
     });
+    // Raw <@id> / <#id> tokens would otherwise reach the summary verbatim
+    const messages = await resolveDiscordMentions(fetched, { token, baseUrl, guildId });
 
     if (!messages.length) {
       return {
@@ -775,7 +859,7 @@ addEntrypoint({
 addEntrypoint({
   key: "summarise telegram chat",
   description:
-    "Summarise a Telegram chat by providing the chat ID and lookback window.",
+    "Summarise a Telegram chat by providing the chat ID and either a lookback window or a message range.",
   input: z
     .object({
       chatId: z
@@ -793,6 +877,31 @@ addEntrypoint({
           "Number of minutes prior to now to include in the summary window."
         )
         .optional(),
+      threadId: z
+        .coerce.number()
+        .int({ message: "Topic IDs are whole numbers." })
+        .describe("Forum topic (message_thread_id) to summarise. Omit for the whole chat.")
+        .optional(),
+      perTopic: z
+        .boolean()
+        .describe("Summarise each forum topic separately under its own heading.")
+        .optional(),
+      fromMessageId: z
+        .coerce.number()
+        .int({ message: "Message IDs are whole numbers." })
+        .min(1, { message: "Message IDs are positive." })
+        .describe("First message to include. Replaces the lookback window with a message range.")
+        .optional(),
+      toMessageId: z
+        .coerce.number()
+        .int({ message: "Message IDs are whole numbers." })
+        .min(1, { message: "Message IDs are positive." })
+        .describe("Last message to include. Defaults to the latest message.")
+        .optional(),
+      replyTree: z
+        .boolean()
+        .describe("Only include fromMessageId and the replies under it.")
+        .optional(),
     })
     .superRefine((value, ctx) => {
       if (!value.chatId.trim()) {
@@ -802,105 +911,317 @@ addEntrypoint({
           path: ["chatId"],
         });
       }
+      if (value.fromMessageId === undefined) {
+        if (value.toMessageId !== undefined || value.replyTree) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "toMessageId and replyTree need a fromMessageId.",
+            path: ["fromMessageId"],
+          });
+        }
+        return;
+      }
+      if (value.toMessageId !== undefined && value.toMessageId < value.fromMessageId) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "toMessageId must not come before fromMessageId.",
+          path: ["toMessageId"],
+        });
+      }
+      if (value.perTopic) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Per-topic digests cover a lookback window, not a message range.",
+          path: ["perTopic"],
+        });
+      }
     }),
-  price: process.env.ENTRYPOINT_PRICE || "0.05",
+  price: formatUsdcAmount(getPricingConfig().base),
   output: z.object({
     summary: z.string(),
     actionables: z.array(z.string()),
   }),
   async handler(ctx) {
-    const chatIdRaw = ctx.input.chatId.trim();
-    const chatNumeric = Number(chatIdRaw);
-    if (!Number.isFinite(chatNumeric)) {
-      throw new Error("Invalid Telegram chat ID provided.");
-    }
+    return executeSummariseTelegramChat(ctx.input);
+  },
+});
 
-    const lookbackMinutes =
-      typeof ctx.input.lookbackMinutes === "number"
-        ? ctx.input.lookbackMinutes
-        : 60;
+addEntrypoint({
+  key: "digest server",
+  description:
+    "Summarise several channels of a Discord server in one digest, one section per channel.",
+  input: z
+    .object({
+      serverId: z
+        .string()
+        .regex(/^\d+$/, { message: "Provide the Discord server (guild) ID." })
+        .describe("Discord server (guild) ID whose channels are digested."),
+      channelIds: z
+        .array(z.string().regex(/^\d+$/, { message: "Discord channel IDs are numeric." }))
+        .min(1, { message: "List at least one channel." })
+        .max(DISCORD_DIGEST_MAX_CHANNELS, {
+          message: `A digest covers at most ${DISCORD_DIGEST_MAX_CHANNELS} channels.`,
+        })
+        .describe("Channels to include, in the order their sections should appear.")
+        .optional(),
+      categoryId: z
+        .string()
+        .regex(/^\d+$/, { message: "Discord category IDs are numeric." })
+        .describe("Category whose text and forum channels are included.")
+        .optional(),
+      lookbackMinutes: z
+        .coerce.number()
+        .int({ message: "Lookback minutes must be a whole number." })
+        .min(1, { message: "Lookback window must be at least 1 minute." })
+        .max(1440 * 14, {
+          message: "Lookback window is capped at 14 days (20,160 minutes).",
+        })
+        .describe("Number of minutes prior to now to include. Defaults to 60.")
+        .optional(),
+    })
+    .superRefine((value, ctx) => {
+      if (Boolean(value.channelIds) === Boolean(value.categoryId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Provide either a channel allow-list or a category, not both.",
+          path: ["channelIds"],
+        });
+      }
+    }),
+  price: formatUsdcAmount(getPricingConfig().base),
+  output: z.object({
+    summary: z.string(),
+    actionables: z.array(z.string()),
+  }),
+  async handler(ctx) {
+    const { model, ...output } = await executeDiscordDigest(ctx.input);
+    return { output, model };
+  },
+});
 
-    const messages = getTelegramMessagesWithin(chatNumeric, lookbackMinutes);
-    const meaningfulMessages = messages.filter((msg) => {
-      const trimmed = msg.text?.trim();
-      return trimmed && !trimmed.startsWith("/");
-    });
-    console.log(`[telegram-entrypoint] Total messages in window: ${messages.length}`);
-    console.log(`[telegram-entrypoint] Meaningful messages (non-command): ${meaningfulMessages.length}`);
-    const messageLinks = extractLinksFromTelegramMessages(meaningfulMessages);
-    
-    // Always let the LLM handle summaries - it has prompt guidance for quiet windows
-    // with greetings and witty closers (see Example B in the prompt)
-    const summarizerMessages = buildTelegramSummarizerMessages(meaningfulMessages);
-    const windowLabel = `last ${lookbackMinutes} minutes`;
-    const maxChars = 1000;
-    
-    // Log reaction counts for debugging
-    const messagesWithReactions = summarizerMessages.filter(msg => 
-      msg.reactions && msg.reactions.length > 0 && msg.reactions[0].count >= 5
-    );
-    if (messagesWithReactions.length > 0) {
-      console.log(`[telegram-entrypoint] Messages with ≥5 reactions:`, 
-        messagesWithReactions.map(m => ({ text: m.text.substring(0, 50), reactions: m.reactions }))
+addEntrypoint({
+  key: "top up credits",
+  description:
+    "Prepay summary credits for a Discord user, Telegram user or wallet so later summaries skip the payment link.",
+  input: z
+    .object({
+      discordUserId: z
+        .string()
+        .regex(/^\d+$/, { message: "Discord user IDs are numeric." })
+        .describe("Discord user ID to credit.")
+        .optional(),
+      telegramUserId: z
+        .string()
+        .regex(/^\d+$/, { message: "Telegram user IDs are numeric." })
+        .describe("Telegram user ID to credit.")
+        .optional(),
+      walletAddress: z
+        .string()
+        .regex(/^0x[0-9a-fA-F]{40}$/, { message: "Provide a valid EVM wallet address." })
+        .describe("Wallet address to credit. Defaults to the paying wallet.")
+        .optional(),
+    })
+    .superRefine((value, ctx) => {
+      const targets = [value.discordUserId, value.telegramUserId, value.walletAddress].filter(
+        Boolean
       );
+      if (targets.length > 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Credit one account per top-up: a Discord user, Telegram user or wallet.",
+        });
+      }
+    }),
+  // The payment layer charges and credits TOPUP_AMOUNT, so the manifest advertises the same
+  price: formatUsdcAmount(TOPUP_AMOUNT_BASE_UNITS),
+  output: z.object({
+    account: z.string().nullable(),
+    amount: z.string(),
+  }),
+  async handler(ctx) {
+    // The balance itself is credited by the payment layer once settlement succeeds;
+    // a null account means "credit whichever wallet paid".
+    const account = ctx.input.discordUserId
+      ? discordAccount(ctx.input.discordUserId)
+      : ctx.input.telegramUserId
+      ? telegramAccount(ctx.input.telegramUserId)
+      : ctx.input.walletAddress
+      ? walletAccount(ctx.input.walletAddress)
+      : null;
+
+    return {
+      output: {
+        account,
+        amount: TOPUP_AMOUNT_BASE_UNITS.toString(),
+      },
+      model: "top-up",
+    };
+  },
+});
+
+export { app };
+
+const TELEGRAM_MAX_SUMMARY_CHARS = 1000;
+// Shared across all sections of a per-topic digest so it still fits one Telegram message
+const TELEGRAM_DIGEST_MAX_CHARS = 3500;
+const TELEGRAM_DIGEST_MIN_SECTION_CHARS = 300;
+// Topic summaries run side by side, a few at a time, so a busy forum doesn't burst the LLM API
+const TELEGRAM_DIGEST_CONCURRENCY = 3;
+
+// Shared by the paid entrypoint and the prepaid-credit path in the Telegram bot
+export async function executeSummariseTelegramChat(input: {
+  chatId: string;
+  lookbackMinutes?: number;
+  threadId?: number;
+  perTopic?: boolean;
+  fromMessageId?: number;
+  toMessageId?: number;
+  replyTree?: boolean;
+}) {
+  const chatIdRaw = input.chatId.trim();
+  const chatNumeric = Number(chatIdRaw);
+  if (!Number.isFinite(chatNumeric)) {
+    throw new Error("Invalid Telegram chat ID provided.");
+  }
+
+  const lookbackMinutes =
+    typeof input.lookbackMinutes === "number"
+      ? input.lookbackMinutes
+      : 60;
+
+  if (input.perTopic && input.fromMessageId === undefined) {
+    return summariseTelegramTopics(chatNumeric, lookbackMinutes, `last ${lookbackMinutes} minutes`);
+  }
+
+  const windowLabel =
+    input.fromMessageId === undefined
+      ? `last ${lookbackMinutes} minutes`
+      : input.replyTree
+      ? `replies to message ${input.fromMessageId}`
+      : `messages ${input.fromMessageId} → ${input.toMessageId ?? "latest"}`;
+  const messages = selectTelegramMessages(chatNumeric, {
+    lookbackMinutes,
+    threadId: input.threadId,
+    fromMessageId: input.fromMessageId,
+    toMessageId: input.toMessageId,
+    replyTree: input.replyTree,
+  });
+  console.log(`[telegram-entrypoint] Total messages in window: ${messages.length}`);
+  return summariseTelegramMessages(messages, windowLabel, TELEGRAM_MAX_SUMMARY_CHARS);
+}
+
+// One section per forum topic; messages outside any topic are grouped under "General"
+async function summariseTelegramTopics(
+  chatId: number,
+  lookbackMinutes: number,
+  windowLabel: string
+) {
+  const messages = getTelegramMessagesWithin(chatId, lookbackMinutes).filter(
+    isMeaningfulTelegramMessage
+  );
+  const topics = new Map<number | undefined, TelegramStoredMessage[]>();
+  for (const message of messages) {
+    const topicMessages = topics.get(message.threadId) ?? [];
+    topicMessages.push(message);
+    topics.set(message.threadId, topicMessages);
+  }
+  console.log(`[telegram-entrypoint] Per-topic digest: ${topics.size} topics, ${messages.length} messages`);
+
+  if (topics.size === 0) {
+    return summariseTelegramMessages([], windowLabel, TELEGRAM_MAX_SUMMARY_CHARS);
+  }
+
+  const topicNames = getTelegramTopicNames(chatId);
+  const maxChars = Math.max(
+    TELEGRAM_DIGEST_MIN_SECTION_CHARS,
+    Math.floor(TELEGRAM_DIGEST_MAX_CHARS / topics.size)
+  );
+  const sections = await mapWithConcurrency(
+    [...topics.entries()],
+    TELEGRAM_DIGEST_CONCURRENCY,
+    async ([threadId, topicMessages]) => {
+      const result = await summariseTelegramMessages(topicMessages, windowLabel, maxChars);
+      const name =
+        threadId === undefined ? "General" : topicNames.get(threadId) ?? `Topic ${threadId}`;
+      return { name, result };
     }
-    
-    const payload = buildSummarizerPayload(
-      "telegram",
-      windowLabel,
-      maxChars,
-      summarizerMessages
+  );
+
+  // Report the weakest section's model so the settlement policy sees degraded output
+  const models = sections.map((section) => section.result.model);
+  const model =
+    models.find((candidate) => candidate === "telegram-error") ??
+    models.find((candidate) => candidate !== "structured-summary") ??
+    "structured-summary";
+  return {
+    output: {
+      summary: sections
+        .map((section) => `📌 ${section.name}\n${section.result.output.summary}`)
+        .join("\n\n"),
+      actionables: sections.flatMap((section) => section.result.output.actionables),
+    },
+    model,
+  };
+}
+
+async function summariseTelegramMessages(
+  messages: TelegramStoredMessage[],
+  windowLabel: string,
+  maxChars: number
+) {
+  const meaningfulMessages = messages.filter(isMeaningfulTelegramMessage);
+  console.log(`[telegram-entrypoint] Meaningful messages (non-command): ${meaningfulMessages.length}`);
+  const messageLinks = extractLinksFromTelegramMessages(meaningfulMessages);
+  
+  // Always let the LLM handle summaries - it has prompt guidance for quiet windows
+  // with greetings and witty closers (see Example B in the prompt)
+  const summarizerMessages = buildTelegramSummarizerMessages(meaningfulMessages);
+  
+  // Log reaction counts for debugging
+  const messagesWithReactions = summarizerMessages.filter(msg => 
+    msg.reactions.reduce((sum, reaction) => sum + reaction.count, 0) >= 5
+  );
+  if (messagesWithReactions.length > 0) {
+    console.log(`[telegram-entrypoint] Messages with ≥5 reactions:`, 
+      messagesWithReactions.map(m => ({ text: m.text.substring(0, 50), reactions: m.reactions }))
     );
+  }
+  
+  const payload = buildSummarizerPayload(
+    "telegram",
+    windowLabel,
+    maxChars,
+    summarizerMessages
+  );
 
-    const llm = axClient.ax;
-    if (!llm) {
-      return {
-        output: {
-          summary: appendLinksSection(
-            buildSocialFallbackSummaryFromTelegram(meaningfulMessages),
-            messageLinks
-          ),
-          actionables: [],
-        },
-        model: "telegram-fallback",
-      };
-    }
+  const llm = axClient.ax;
+  if (!llm) {
+    return {
+      output: {
+        summary: appendLinksSection(
+          buildSocialFallbackSummaryFromTelegram(meaningfulMessages),
+          messageLinks
+        ),
+        actionables: [],
+      },
+      model: "telegram-fallback",
+    };
+  }
 
-    try {
-      const result = await structuredSummaryFlow.forward(llm, {
-        platform: "telegram",
-        window: windowLabel,
-        maxChars,
-        payload,
-      });
+  try {
+    const result = await structuredSummaryFlow.forward(llm, {
+      platform: "telegram",
+      window: windowLabel,
+      maxChars,
+      payload,
+    });
 
-      const summary = (result.summary ?? "").trim();
-      let finalSummary = summary;
-      if (/quiet hour/i.test(finalSummary)) {
-        finalSummary = buildSocialFallbackSummaryFromTelegram(meaningfulMessages);
-      }
-      if (!finalSummary) {
-        return {
-          output: {
-            summary: appendLinksSection(
-              buildSocialFallbackSummaryFromTelegram(meaningfulMessages),
-              messageLinks
-            ),
-            actionables: [],
-          },
-          model: "telegram-social-fallback",
-        };
-      }
-      finalSummary = appendLinksSection(finalSummary, messageLinks);
-      return {
-        output: {
-          summary: finalSummary,
-          actionables: [],
-        },
-        model: "structured-summary",
-      };
-    } catch (error: any) {
-      console.error("[telegram-summary-agent] LLM flow error:", error);
+    const summary = (result.summary ?? "").trim();
+    let finalSummary = summary;
+    if (/quiet hour/i.test(finalSummary)) {
+      finalSummary = buildSocialFallbackSummaryFromTelegram(meaningfulMessages);
+    }
+    if (!finalSummary) {
       return {
         output: {
           summary: appendLinksSection(
@@ -909,13 +1230,31 @@ addEntrypoint({
           ),
           actionables: [],
         },
-        model: "telegram-error",
+        model: "telegram-social-fallback",
       };
     }
-  },
-});
-
-export { app };
+    finalSummary = appendLinksSection(finalSummary, messageLinks);
+    return {
+      output: {
+        summary: finalSummary,
+        actionables: [],
+      },
+      model: "structured-summary",
+    };
+  } catch (error: any) {
+    console.error("[telegram-summary-agent] LLM flow error:", error);
+    return {
+      output: {
+        summary: appendLinksSection(
+          buildSocialFallbackSummaryFromTelegram(meaningfulMessages),
+          messageLinks
+        ),
+        actionables: [],
+      },
+      model: "telegram-error",
+    };
+  }
+}
 
 // Export handler logic for use in Discord interactions
 export async function executeSummariseChat(input: {
@@ -924,6 +1263,7 @@ export async function executeSummariseChat(input: {
   lookbackMinutes?: number;
   startMessageUrl?: string;
   endMessageUrl?: string;
+  includeThreads?: boolean;
 }) {
   // This is a simplified version that can be called from Discord interactions
   // It reuses the same logic as the entrypoint handler
@@ -1041,27 +1381,49 @@ export async function executeSummariseChat(input: {
   ];
   const channelLabel = channelLabelParts.join(" · ");
 
-  const messages = await fetchMessagesBetween({
+  const fetched = await fetchConversationMessages({
     token,
     baseUrl,
     channelId,
+    channel: channelMeta,
+    guildId,
     start,
     end,
     initialAfterSnowflake,
     endMessageId,
+    includeThreads: input.includeThreads,
   });
+  const messages = await resolveDiscordMentions(fetched, { token, baseUrl, guildId });
 
   if (!messages.length) {
     return {
       summary: `No Discord messages found in ${channelLabel} for ${rangeLabel}.`,
       actionables: [],
+      model: "discord-empty",
     };
   }
 
+  return summariseDiscordMessages(messages, guildMeta, {
+    lookbackMinutes,
+    rangeLabel,
+    maxChars: DISCORD_MAX_SUMMARY_CHARS,
+  });
+}
+
+// Summarises already-fetched Discord messages; shared by single-channel summaries and each
+// channel section of a server digest
+async function summariseDiscordMessages(
+  messages: DiscordMessage[],
+  guildMeta: DiscordGuildInfo | null,
+  {
+    lookbackMinutes,
+    rangeLabel,
+    maxChars,
+  }: { lookbackMinutes?: number; rangeLabel: string; maxChars: number }
+) {
   const conversation = formatConversation(messages);
   const conversationEntries = extractConversationEntries(conversation);
   const messageLinks = extractLinksFromDiscordMessages(messages);
-  const timeWindow = `${start.toISOString()} → ${end.toISOString()} (${rangeLabel})`;
   const windowLabel = rangeLabel.startsWith("the ")
     ? rangeLabel.replace(/^the\s+/i, "")
     : rangeLabel;
@@ -1075,6 +1437,7 @@ export async function executeSummariseChat(input: {
           messageLinks
         ),
         actionables: [],
+        model: "axllm-fallback",
       };
     }
     const fallbackSummary = conversation
@@ -1094,11 +1457,11 @@ export async function executeSummariseChat(input: {
         messageLinks
       ),
       actionables: [],
+      model: "axllm-fallback",
     };
   }
 
   const summarizerMessages = buildDiscordSummarizerMessages(messages, guildMeta);
-  const maxChars = 1000;
   const payload = buildSummarizerPayload(
     "discord",
     windowLabel,
@@ -1127,6 +1490,7 @@ export async function executeSummariseChat(input: {
             messageLinks
           ),
           actionables: [],
+          model: "discord-social-fallback",
         };
       }
       return {
@@ -1135,6 +1499,7 @@ export async function executeSummariseChat(input: {
           messageLinks
         ),
         actionables: [],
+        model: "discord-social-fallback",
       };
     }
 
@@ -1143,6 +1508,7 @@ export async function executeSummariseChat(input: {
     return {
       summary: finalSummary,
       actionables: [],
+      model: "structured-summary",
     };
   } catch (error: any) {
     console.error("[discord-summary-agent] LLM flow error:", error);
@@ -1153,6 +1519,7 @@ export async function executeSummariseChat(input: {
           messageLinks
         ),
         actionables: [],
+        model: "axllm-fallback",
       };
     }
     const fallbackSummary = conversation
@@ -1173,10 +1540,391 @@ export async function executeSummariseChat(input: {
         messageLinks
       ),
       actionables: [],
+      model: "axllm-fallback",
     };
   }
 }
 
+export type DiscordDigestInput = {
+  serverId: string;
+  channelIds?: string[];
+  categoryId?: string;
+  lookbackMinutes?: number;
+};
+
+export type DiscordDigestViewer = {
+  userId: string;
+  roleIds: string[];
+};
+
+type DiscordDigestChannel = {
+  channelId: string;
+  label: string;
+  messages: DiscordMessage[];
+};
+
+// A digest's channels: the allow-list, or the text and forum channels of a category in sidebar order
+async function resolveDigestChannelIds(
+  input: DiscordDigestInput,
+  { token, baseUrl }: { token: string; baseUrl: string }
+): Promise<string[]> {
+  let channelIds = input.channelIds ?? [];
+  if (input.categoryId) {
+    const guildChannels = await fetchGuildChannels({
+      token,
+      baseUrl,
+      guildId: input.serverId.trim(),
+    });
+    channelIds = guildChannels
+      .filter(
+        (channel) =>
+          channel.parent_id === input.categoryId &&
+          DISCORD_DIGEST_CHANNEL_TYPES.has(channel.type ?? -1)
+      )
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map((channel) => channel.id);
+  }
+  return [...new Set(channelIds)].slice(0, DISCORD_DIGEST_MAX_CHANNELS);
+}
+
+// Whether a member can see a channel, following Discord's order: guild role permissions, then the
+// channel's @everyone, role and member overwrites
+function canViewDiscordChannel(
+  channel: DiscordChannelInfo,
+  { guildId, basePermissions, viewer }: {
+    guildId: string;
+    basePermissions: bigint;
+    viewer: DiscordDigestViewer;
+  }
+): boolean {
+  if (basePermissions & DISCORD_ADMINISTRATOR) {
+    return true;
+  }
+  const overwrites = channel.permission_overwrites ?? [];
+  const apply = (permissions: bigint, allow: bigint, deny: bigint) => (permissions & ~deny) | allow;
+
+  let permissions = basePermissions;
+  const everyone = overwrites.find((overwrite) => overwrite.id === guildId);
+  if (everyone) {
+    permissions = apply(permissions, BigInt(everyone.allow), BigInt(everyone.deny));
+  }
+  let roleAllow = 0n;
+  let roleDeny = 0n;
+  for (const overwrite of overwrites) {
+    if (overwrite.type === 0 && viewer.roleIds.includes(overwrite.id)) {
+      roleAllow |= BigInt(overwrite.allow);
+      roleDeny |= BigInt(overwrite.deny);
+    }
+  }
+  permissions = apply(permissions, roleAllow, roleDeny);
+  const member = overwrites.find(
+    (overwrite) => overwrite.type === 1 && overwrite.id === viewer.userId
+  );
+  if (member) {
+    permissions = apply(permissions, BigInt(member.allow), BigInt(member.deny));
+  }
+  return (permissions & DISCORD_VIEW_CHANNEL) !== 0n;
+}
+
+// Narrows a digest to the channels the requesting member can view, so /digest can't recap a
+// channel they couldn't read themselves. Returns the explicit channel list to digest instead of
+// the request's list or category; IDs outside the server's channel list (threads included) are
+// dropped.
+export async function filterDigestChannelsForViewer(
+  input: DiscordDigestInput,
+  viewer: DiscordDigestViewer
+): Promise<string[]> {
+  const token = process.env.DISCORD_BOT_TOKEN;
+  if (!token) {
+    throw new Error(
+      "Missing DISCORD_BOT_TOKEN. Provide a Discord bot token in the environment."
+    );
+  }
+  const baseUrl =
+    process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
+
+  const guildId = input.serverId.trim();
+  const [guild, guildChannels, roles, channelIds] = await Promise.all([
+    fetchGuildInfo({ token, baseUrl, guildId }),
+    fetchGuildChannels({ token, baseUrl, guildId }),
+    fetchGuildRoles({ token, baseUrl, guildId }),
+    resolveDigestChannelIds(input, { token, baseUrl }),
+  ]);
+  const channelsById = new Map(guildChannels.map((channel) => [channel.id, channel]));
+  if (guild?.owner_id === viewer.userId) {
+    return channelIds.filter((channelId) => channelsById.has(channelId));
+  }
+
+  // @everyone shares the guild's ID
+  const basePermissions = roles
+    .filter((role) => role.id === guildId || viewer.roleIds.includes(role.id))
+    .reduce((permissions, role) => permissions | BigInt(role.permissions ?? "0"), 0n);
+  return channelIds.filter((channelId) => {
+    const channel = channelsById.get(channelId);
+    return Boolean(channel && canViewDiscordChannel(channel, { guildId, basePermissions, viewer }));
+  });
+}
+
+// Fetches the window of each digest channel, DISCORD_DIGEST_CONCURRENCY channels at a time.
+// Channels outside the server are skipped so a stray ID can't pull in another guild.
+async function fetchDigestChannels(
+  input: DiscordDigestInput,
+  { token, baseUrl, start, end }: { token: string; baseUrl: string; start: Date; end: Date }
+): Promise<DiscordDigestChannel[]> {
+  const guildId = input.serverId.trim();
+  const fetched = await mapWithConcurrency(
+    await resolveDigestChannelIds(input, { token, baseUrl }),
+    DISCORD_DIGEST_CONCURRENCY,
+    async (channelId): Promise<DiscordDigestChannel | null> => {
+      const channel = await fetchChannelInfo({ token, baseUrl, channelId });
+      if (!channel || channel.guild_id !== guildId) {
+        console.warn(
+          `[discord-summary-agent] Skipping digest channel ${channelId}: not in server ${guildId}`
+        );
+        return null;
+      }
+      const fetched = await fetchConversationMessages({
+        token,
+        baseUrl,
+        channelId,
+        channel,
+        guildId,
+        start,
+        end,
+        initialAfterSnowflake: snowflakeFromDate(start, -1n),
+      });
+      const messages = await resolveDiscordMentions(fetched, { token, baseUrl, guildId });
+      return {
+        channelId,
+        label: channel.name ? `#${channel.name}` : `channel ${channelId}`,
+        messages,
+      };
+    }
+  );
+  return fetched.filter((entry): entry is DiscordDigestChannel => entry !== null);
+}
+
+// One section per channel, headed by its label; channels with nothing to report are listed
+// together at the end
+export async function executeDiscordDigest(input: DiscordDigestInput) {
+  const token = process.env.DISCORD_BOT_TOKEN;
+  if (!token) {
+    throw new Error(
+      "Missing DISCORD_BOT_TOKEN. Provide a Discord bot token in the environment."
+    );
+  }
+  const baseUrl =
+    process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
+
+  const guildId = input.serverId.trim();
+  const lookbackMinutes = input.lookbackMinutes ?? 60;
+  const end = new Date();
+  const start = new Date(end.getTime() - lookbackMinutes * 60 * 1000);
+  const rangeLabel = `the last ${lookbackMinutes} minutes`;
+
+  const guildMeta = await fetchGuildInfo({ token, baseUrl, guildId });
+  const serverLabel = guildMeta?.name ?? `server ${guildId}`;
+  const channels = await fetchDigestChannels(input, { token, baseUrl, start, end });
+  const active = channels.filter((channel) => channel.messages.length > 0);
+  console.log(
+    `[discord-summary-agent] Server digest: ${active.length}/${channels.length} channels with messages`
+  );
+
+  if (!active.length) {
+    return {
+      summary: `No Discord messages found in ${serverLabel} for ${rangeLabel}.`,
+      actionables: [],
+      model: "discord-empty",
+    };
+  }
+
+  const maxChars = Math.max(
+    DISCORD_DIGEST_MIN_SECTION_CHARS,
+    Math.floor(DISCORD_DIGEST_MAX_CHARS / active.length)
+  );
+  const sections = await mapWithConcurrency(
+    active,
+    DISCORD_DIGEST_CONCURRENCY,
+    async (channel) => ({
+      label: channel.label,
+      result: await summariseDiscordMessages(channel.messages, guildMeta, {
+        lookbackMinutes,
+        rangeLabel,
+        maxChars,
+      }),
+    })
+  );
+  const quiet = channels
+    .filter((channel) => channel.messages.length === 0)
+    .map((channel) => channel.label);
+
+  // Report the weakest section's model so the settlement policy sees degraded output
+  const models = sections.map((section) => section.result.model);
+  const model =
+    models.find((candidate) => candidate === "axllm-fallback") ??
+    models.find((candidate) => candidate !== "structured-summary") ??
+    "structured-summary";
+  return {
+    summary: [
+      ...sections.map((section) => `📌 **${section.label}**\n${section.result.summary}`),
+      ...(quiet.length ? [`🔇 Quiet: ${quiet.join(", ")}`] : []),
+    ].join("\n\n"),
+    actionables: sections.flatMap((section) => section.result.actionables),
+    model,
+  };
+}
+
+// Prices a Discord summary request. The window is only fetched when volume-based rates are
+// configured, and never for a probe: unauthenticated callers get the quote already held for the
+// request (from the slash command that made its payment link) or one from the window length alone.
+export async function quoteDiscordSummary(
+  input: {
+    channelId?: string;
+    lookbackMinutes?: number;
+    startMessageUrl?: string;
+    endMessageUrl?: string;
+    includeThreads?: boolean;
+  },
+  { probe = false }: { probe?: boolean } = {}
+): Promise<PriceQuote> {
+  const lookbackMinutes =
+    typeof input.lookbackMinutes === "number" ? input.lookbackMinutes : null;
+  const key = `${
+    lookbackMinutes !== null
+      ? `discord:${(input.channelId ?? "").trim()}:${lookbackMinutes}`
+      : `discord:${input.startMessageUrl ?? ""}:${input.endMessageUrl ?? ""}`
+  }${input.includeThreads ? ":threads" : ""}`;
+
+  if (probe) {
+    return getHeldQuote(key) ?? priceSummary({ lookbackMinutes });
+  }
+
+  return quoteSummary(key, lookbackMinutes, async () => {
+    const token = process.env.DISCORD_BOT_TOKEN;
+    if (!token) {
+      throw new Error(
+        "Missing DISCORD_BOT_TOKEN. Provide a Discord bot token in the environment."
+      );
+    }
+    const baseUrl =
+      process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
+
+    // Forum channels and thread-inclusive requests need the channel type to pick threads
+    const measure = async (window: {
+      channelId: string;
+      start: Date;
+      end: Date;
+      initialAfterSnowflake: string;
+      endMessageId?: string;
+    }) => {
+      const channel = await fetchChannelInfo({ token, baseUrl, channelId: window.channelId });
+      return fetchConversationMessages({
+        token,
+        baseUrl,
+        ...window,
+        channel,
+        guildId: channel?.guild_id ?? null,
+        includeThreads: input.includeThreads,
+      });
+    };
+
+    let messages: DiscordMessage[];
+    if (lookbackMinutes !== null) {
+      const now = new Date();
+      const start = new Date(now.getTime() - lookbackMinutes * 60 * 1000);
+      messages = await measure({
+        channelId: (input.channelId ?? "").trim(),
+        start,
+        end: now,
+        initialAfterSnowflake: snowflakeFromDate(start, -1n),
+      });
+    } else {
+      const startLink = input.startMessageUrl
+        ? parseDiscordMessageUrl(input.startMessageUrl)
+        : null;
+      const endLink = input.endMessageUrl
+        ? parseDiscordMessageUrl(input.endMessageUrl)
+        : null;
+      if (!startLink || !endLink) {
+        return { messageCount: 0, tokenEstimate: 0 };
+      }
+      messages = await measure({
+        channelId: startLink.channelId,
+        start: discordSnowflakeToDate(startLink.messageId),
+        end: new Date(discordSnowflakeToDate(endLink.messageId).getTime() + 1000),
+        initialAfterSnowflake: decrementSnowflake(startLink.messageId),
+        endMessageId: endLink.messageId,
+      });
+    }
+
+    return {
+      messageCount: messages.length,
+      tokenEstimate: estimateTokens(messages.map((message) => message.content ?? "")),
+    };
+  });
+}
+
+// Prices a server digest from the combined volume of its channels. A probe (see
+// quoteDiscordSummary) that finds no held quote counts a channel list's entries as its sections
+// and a category as one.
+export async function quoteDiscordDigest(
+  input: DiscordDigestInput,
+  { probe = false }: { probe?: boolean } = {}
+): Promise<PriceQuote> {
+  const lookbackMinutes = input.lookbackMinutes ?? 60;
+  const scope = input.categoryId
+    ? `category:${input.categoryId}`
+    : [...(input.channelIds ?? [])].sort().join(",");
+  const key = `discord-digest:${input.serverId.trim()}:${scope}:${lookbackMinutes}`;
+
+  if (probe) {
+    const listed = input.categoryId ? 1 : new Set(input.channelIds ?? []).size;
+    return (
+      getHeldQuote(key) ??
+      priceSummary({ lookbackMinutes, sections: Math.min(listed, DISCORD_DIGEST_MAX_CHANNELS) })
+    );
+  }
+
+  const getRestOptions = () => {
+    const token = process.env.DISCORD_BOT_TOKEN;
+    if (!token) {
+      throw new Error(
+        "Missing DISCORD_BOT_TOKEN. Provide a Discord bot token in the environment."
+      );
+    }
+    const baseUrl =
+      process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
+    return { token, baseUrl };
+  };
+
+  // Every channel the digest will cover is priced as a section, quiet or not: like
+  // fetchDigestChannels, channels outside the server don't count. /digest has already narrowed
+  // the list to what the member can view.
+  return quoteSummary(
+    key,
+    lookbackMinutes,
+    async () => {
+      const end = new Date();
+      const start = new Date(end.getTime() - lookbackMinutes * 60 * 1000);
+      const channels = await fetchDigestChannels(input, { ...getRestOptions(), start, end });
+      const messages = channels.flatMap((channel) => channel.messages);
+      return {
+        messageCount: messages.length,
+        tokenEstimate: estimateTokens(messages.map((message) => message.content ?? "")),
+      };
+    },
+    async () => {
+      const restOptions = getRestOptions();
+      const channels = await mapWithConcurrency(
+        await resolveDigestChannelIds(input, restOptions),
+        DISCORD_DIGEST_CONCURRENCY,
+        (channelId) => fetchChannelInfo({ ...restOptions, channelId })
+      );
+      return channels.filter((channel) => channel?.guild_id === input.serverId.trim()).length;
+    }
+  );
+}
+
 function formatConversation(messages: DiscordMessage[]): string {
   const sorted = [...messages].sort(
     (a, b) =>
@@ -2174,6 +2922,7 @@ async function fetchMessagesBetween({
   end,
   initialAfterSnowflake,
   endMessageId,
+  budget = { remaining: MAX_FETCH_PAGES * 100 },
 }: {
   token: string;
   baseUrl: string;
@@ -2182,19 +2931,21 @@ async function fetchMessagesBetween({
   end: Date;
   initialAfterSnowflake: string;
   endMessageId?: string;
+  // Messages left to collect; shared when a channel and its threads are fetched together
+  budget?: { remaining: number };
 }): Promise<DiscordMessage[]> {
   const messages: DiscordMessage[] = [];
   let after = initialAfterSnowflake;
   let page = 0;
   let shouldStop = false;
 
-  while (!shouldStop && page < MAX_FETCH_PAGES) {
+  while (!shouldStop && page < MAX_FETCH_PAGES && budget.remaining > 0) {
     page += 1;
     const url = new URL(`${baseUrl}/channels/${channelId}/messages`);
     url.searchParams.set("limit", "100");
     url.searchParams.set("after", after);
 
-    const response = await fetch(url, {
+    const response = await discordFetch(url, {
       headers: buildDiscordHeaders(token),
     });
 
@@ -2260,8 +3011,15 @@ async function fetchMessagesBetween({
         break;
       }
 
+      // Threads fetched side by side draw on the budget between each other's pages
+      if (budget.remaining <= 0) {
+        shouldStop = true;
+        break;
+      }
+
       if (timestamp >= start && timestamp <= end) {
         messages.push(message);
+        budget.remaining -= 1;
       }
 
       after = message.id;
@@ -2280,6 +3038,138 @@ async function fetchMessagesBetween({
   return messages;
 }
 
+// Lists the threads off `channel` that belong in a summary of [start, end]. Active threads come
+// from the guild-wide listing; archived public ones are paged newest-archived first until they
+// were archived before the window opened. Threads off a text channel count when they started in
+// the window; forum posts count when they saw activity in it, since a forum has no messages of
+// its own.
+async function fetchChannelThreads({
+  token,
+  baseUrl,
+  channel,
+  guildId,
+  start,
+  end,
+}: {
+  token: string;
+  baseUrl: string;
+  channel: DiscordChannelInfo;
+  guildId: string | null;
+  start: Date;
+  end: Date;
+}): Promise<DiscordThread[]> {
+  const isForum = DISCORD_FORUM_CHANNEL_TYPES.has(channel.type ?? -1);
+  const inWindow = (thread: DiscordThread) => {
+    const startedAt = discordSnowflakeToDate(thread.id);
+    if (startedAt > end) {
+      return false;
+    }
+    return isForum
+      ? discordSnowflakeToDate(thread.last_message_id ?? thread.id) >= start
+      : startedAt >= start;
+  };
+  const threads = new Map<string, DiscordThread>();
+
+  if (guildId) {
+    const response = await discordFetch(`${baseUrl}/guilds/${guildId}/threads/active`, {
+      headers: buildDiscordHeaders(token),
+    });
+    if (response.ok) {
+      const body = (await response.json()) as { threads?: DiscordThread[] };
+      for (const thread of body.threads ?? []) {
+        if (thread.parent_id === channel.id && inWindow(thread)) {
+          threads.set(thread.id, thread);
+        }
+      }
+    } else {
+      console.warn(
+        `[discord-summary-agent] Failed to list active threads for ${guildId} (status ${response.status})`
+      );
+    }
+  }
+
+  let before: string | undefined;
+  for (let page = 0; page < MAX_FETCH_PAGES; page++) {
+    const url = new URL(`${baseUrl}/channels/${channel.id}/threads/archived/public`);
+    url.searchParams.set("limit", "100");
+    if (before) {
+      url.searchParams.set("before", before);
+    }
+
+    const response = await discordFetch(url, { headers: buildDiscordHeaders(token) });
+    if (!response.ok) {
+      console.warn(
+        `[discord-summary-agent] Failed to list archived threads for ${channel.id} (status ${response.status})`
+      );
+      break;
+    }
+
+    const body = (await response.json()) as { threads?: DiscordThread[]; has_more?: boolean };
+    const batch = body.threads ?? [];
+    for (const thread of batch) {
+      if (inWindow(thread)) {
+        threads.set(thread.id, thread);
+      }
+    }
+
+    const oldestArchived = batch.at(-1)?.thread_metadata?.archive_timestamp;
+    if (!body.has_more || !oldestArchived || new Date(oldestArchived) < start) {
+      break;
+    }
+    before = oldestArchived;
+  }
+
+  // Most recent threads win when there are more than MAX_THREADS
+  return [...threads.values()]
+    .sort((a, b) => compareSnowflakes(a.id, b.id))
+    .slice(-MAX_THREADS);
+}
+
+// Fetches the channel's messages for the window plus, with includeThreads (always for forum
+// channels), the messages of its threads. Thread messages are tagged with thread_id/thread_name
+// and follow the channel's own messages one thread at a time.
+async function fetchConversationMessages({
+  channel,
+  guildId,
+  includeThreads,
+  ...window
+}: {
+  token: string;
+  baseUrl: string;
+  channelId: string;
+  channel: DiscordChannelInfo | null;
+  guildId: string | null;
+  start: Date;
+  end: Date;
+  initialAfterSnowflake: string;
+  endMessageId?: string;
+  includeThreads?: boolean;
+}): Promise<DiscordMessage[]> {
+  // The channel and its threads share one MAX_FETCH_PAGES worth of messages
+  const budget = { remaining: MAX_FETCH_PAGES * 100 };
+  const isForum = DISCORD_FORUM_CHANNEL_TYPES.has(channel?.type ?? -1);
+  const messages = isForum ? [] : await fetchMessagesBetween({ ...window, budget });
+  if (!channel || (!includeThreads && !isForum) || budget.remaining <= 0) {
+    return messages;
+  }
+
+  const threads = await fetchChannelThreads({ ...window, channel, guildId });
+  const threadMessages = await mapWithConcurrency(threads, THREAD_FETCH_CONCURRENCY, (thread) =>
+    fetchMessagesBetween({ ...window, channelId: thread.id, budget })
+  );
+  threads.forEach((thread, index) => {
+    for (const message of threadMessages[index]) {
+      messages.push({ ...message, thread_id: thread.id, thread_name: thread.name });
+    }
+  });
+
+  console.log(
+    `[discord-summary-agent] Included ${threads.length} thread(s) from channel ${channel.id}` +
+      (budget.remaining <= 0 ? " (message limit reached)" : "")
+  );
+  return messages;
+}
+
 async function fetchChannelInfo({
   token,
   baseUrl,
@@ -2290,7 +3180,7 @@ async function fetchChannelInfo({
   channelId: string;
 }): Promise<DiscordChannelInfo | null> {
   try {
-    const response = await fetch(`${baseUrl}/channels/${channelId}`, {
+    const response = await discordFetch(`${baseUrl}/channels/${channelId}`, {
       headers: buildDiscordHeaders(token),
     });
 
@@ -2308,6 +3198,74 @@ async function fetchChannelInfo({
   }
 }
 
+async function fetchGuildChannels({
+  token,
+  baseUrl,
+  guildId,
+}: {
+  token: string;
+  baseUrl: string;
+  guildId: string;
+}): Promise<DiscordChannelInfo[]> {
+  const response = await discordFetch(`${baseUrl}/guilds/${guildId}/channels`, {
+    headers: buildDiscordHeaders(token),
+  });
+
+  if (!response.ok) {
+    const errorBody = await safeJson(response);
+    throw new Error(
+      `Failed to list Discord channels for server ${guildId} (status ${response.status}): ${
+        typeof errorBody === "string" ? errorBody : JSON.stringify(errorBody)
+      }`
+    );
+  }
+
+  return (await response.json()) as DiscordChannelInfo[];
+}
+
+async function fetchGuildRoles({
+  token,
+  baseUrl,
+  guildId,
+}: {
+  token: string;
+  baseUrl: string;
+  guildId: string;
+}): Promise<DiscordRoleInfo[]> {
+  const response = await discordFetch(`${baseUrl}/guilds/${guildId}/roles`, {
+    headers: buildDiscordHeaders(token),
+  });
+
+  if (!response.ok) {
+    const errorBody = await safeJson(response);
+    throw new Error(
+      `Failed to list Discord roles for server ${guildId} (status ${response.status}): ${
+        typeof errorBody === "string" ? errorBody : JSON.stringify(errorBody)
+      }`
+    );
+  }
+
+  return (await response.json()) as DiscordRoleInfo[];
+}
+
+// Runs `task` over `items` with at most `limit` in flight, keeping results in input order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
 async function fetchGuildInfo({
   token,
   baseUrl,
@@ -2318,7 +3276,7 @@ async function fetchGuildInfo({
   guildId: string;
 }): Promise<DiscordGuildInfo | null> {
   try {
-    const response = await fetch(`${baseUrl}/guilds/${guildId}`, {
+    const response = await discordFetch(`${baseUrl}/guilds/${guildId}`, {
       headers: buildDiscordHeaders(token),
     });
 
@@ -2336,7 +3294,7 @@ async function fetchGuildInfo({
   }
 }
 
-function parseDiscordMessageUrl(url: string): DiscordMessageLinkParts | null {
+export function parseDiscordMessageUrl(url: string): DiscordMessageLinkParts | null {
   try {
     const parsed = new URL(url);
     const segments = parsed.pathname.split("/").filter(Boolean);
@@ -2362,6 +3320,10 @@ function parseDiscordMessageUrl(url: string): DiscordMessageLinkParts | null {
   }
 }
 
+export function formatDiscordMessageUrl(parts: DiscordMessageLinkParts): string {
+  return `https://discord.com/channels/${parts.guildId ?? "@me"}/${parts.channelId}/${parts.messageId}`;
+}
+
 function discordSnowflakeToDate(id: string): Date {
   const value = BigInt(id);
   const timestamp = Number((value >> 22n) + DISCORD_EPOCH);
@@ -2502,6 +3464,7 @@ function buildDiscordSummarizerMessages(
         : message?.thread_id
         ? String(message.thread_id)
         : undefined,
+      thread_name: message?.thread_name ?? undefined,
       event_type: message?.type !== undefined ? String(message.type) : undefined,
     };
   });
@@ -2514,22 +3477,41 @@ function buildTelegramSummarizerMessages(
     const authorName =
       msg.authorDisplay ||
       (msg.authorUsername ? `@${msg.authorUsername}` : "Member");
+    const attachments: SummarizerAttachment[] = (msg.attachments ?? []).map((attachment) => ({
+      // Telegram file URLs embed the bot token, so none are passed on
+      url: "",
+      filename: attachment.fileName ?? null,
+      content_type: attachment.mimeType ?? attachment.kind,
+      caption: attachment.description ?? null,
+    }));
+    if (msg.poll) {
+      attachments.push({
+        url: "",
+        filename: null, // the question is the message text
+        content_type: "poll",
+        caption: msg.poll.options.join(" / "),
+      });
+    }
+    const text = msg.text.trim() || (attachments.length ? `[${msg.eventType ?? "attachment"}]` : "");
     return {
       id: String(msg.messageId),
       timestamp: new Date(msg.timestampMs).toISOString(),
       author: authorName,
-      is_admin: false,
-      is_bot: false,
-      text: msg.text.trim(),
-      attachments: [],
-      reactions: msg.reactionCount && msg.reactionCount > 0
+      is_admin: msg.authorIsAdmin ?? false,
+      is_bot: msg.authorIsBot ?? false,
+      text: msg.forwardOrigin ? `Forwarded from ${msg.forwardOrigin}: ${text}` : text,
+      attachments,
+      // Messages stored before per-emoji tracking only have a total
+      reactions: msg.reactions?.length
+        ? msg.reactions.map((reaction) => ({ emoji: reaction.emoji, count: reaction.count }))
+        : msg.reactionCount && msg.reactionCount > 0
         ? [{ emoji: null, count: msg.reactionCount }]
         : [],
       reply_to_id: msg.replyToMessageId
         ? String(msg.replyToMessageId)
         : undefined,
-      thread_id: undefined,
-      event_type: "message",
+      thread_id: msg.threadId !== undefined ? String(msg.threadId) : undefined,
+      event_type: msg.forwardOrigin ? "forward" : msg.eventType ?? "message",
     };
   });
 }
@@ -1,2 +1,3 @@
 export const PAYMENT_CALLBACK_EXPIRY_MS = 60 * 60 * 1000; // 1 hour
-
+// How long a /summarise_dm summary waits for its requester to start a private chat with the bot
+export const HELD_SUMMARY_EXPIRY_MS = 24 * 60 * 60 * 1000;
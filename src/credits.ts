@@ -0,0 +1,237 @@
+import type { Database } from "bun:sqlite";
+import { getDatabase, runMigrations } from "./db";
+import { getKnownPaymentOption, getPaymentOptions } from "./networks";
+
+// Credits are tracked as a journal of signed entries in USDC base units; balance = sum of entries.
+// Every entry carries the payment network it belongs to, and only networks this deployment still
+// accepts count towards a balance, so testnet credit never pays for a mainnet summary.
+export type CreditEntryKind =
+  | "refund" // issued when a paid summary came back degraded
+  | "redeem" // spent in place of settling a new payment
+  | "topup" // prepaid through the "top up credits" entrypoint
+  | "debit"; // spent by a bot command that skipped the payment link
+
+const USDC_DECIMALS = 6;
+
+// Amount credited by one top-up payment, in USDC base units (default 1.00 USDC)
+export const TOPUP_AMOUNT_BASE_UNITS = BigInt(process.env.TOPUP_AMOUNT ?? "1000000");
+
+export type CreditEntry = {
+  id: number;
+  account: string;
+  amount: string;
+  kind: CreditEntryKind;
+  reason: string | null;
+  paymentNonce: string | null;
+  network: string;
+  createdAt: number;
+};
+
+// Before PAYMENT_ACCEPTS, every payment settled on the single NETWORK (default base)
+const LEGACY_NETWORK = getKnownPaymentOption(process.env.NETWORK ?? "base")?.network ?? "base";
+
+const CREDIT_LEDGER_MIGRATIONS = [
+  `CREATE TABLE credit_entries (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     account TEXT NOT NULL,
+     amount INTEGER NOT NULL,
+     kind TEXT NOT NULL,
+     reason TEXT,
+     payment_nonce TEXT,
+     created_at INTEGER NOT NULL
+   );
+   CREATE INDEX credit_entries_account ON credit_entries (account, created_at);`,
+  // Earlier entries were all paid on the network configured back then
+  `ALTER TABLE credit_entries ADD COLUMN network TEXT;
+   UPDATE credit_entries SET network = '${LEGACY_NETWORK}';`,
+];
+
+type CreditEntryRow = {
+  id: number;
+  account: string;
+  amount: number | bigint;
+  kind: CreditEntryKind;
+  reason: string | null;
+  payment_nonce: string | null;
+  network: string;
+  created_at: number;
+};
+
+function rowToEntry(row: CreditEntryRow): CreditEntry {
+  return {
+    id: row.id,
+    account: row.account,
+    amount: String(row.amount),
+    kind: row.kind,
+    reason: row.reason,
+    paymentNonce: row.payment_nonce,
+    network: row.network,
+    createdAt: row.created_at,
+  };
+}
+
+let creditsDb: Database | null = null;
+
+function getCreditsDb(): Database {
+  if (!creditsDb) {
+    creditsDb = getDatabase();
+    runMigrations(creditsDb, "credit_entries", CREDIT_LEDGER_MIGRATIONS);
+  }
+  return creditsDb;
+}
+
+export function setCreditsDatabase(db: Database) {
+  runMigrations(db, "credit_entries", CREDIT_LEDGER_MIGRATIONS);
+  creditsDb = db;
+}
+
+export function walletAccount(address: string): string {
+  return `wallet:${address.toLowerCase()}`;
+}
+
+export function discordAccount(userId: string): string {
+  return `discord:${userId}`;
+}
+
+export function telegramAccount(userId: number | string): string {
+  return `telegram:${userId}`;
+}
+
+// Always shows cents; sub-cent digits only when the amount has them ("0.05", "0.0525")
+export function formatUsdcAmount(baseUnits: bigint): string {
+  const divisor = 10n ** BigInt(USDC_DECIMALS);
+  const whole = baseUnits / divisor;
+  const fraction = (baseUnits % divisor)
+    .toString()
+    .padStart(USDC_DECIMALS, "0")
+    .replace(/0+$/, "")
+    .padEnd(2, "0");
+  return `${whole}.${fraction}`;
+}
+
+export function parseUsdcAmount(amount: string): bigint {
+  const match = amount.trim().match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || !(match[1] || match[2])) {
+    throw new Error(`Invalid USDC amount: ${amount}`);
+  }
+  const whole = BigInt(match[1] || "0");
+  const fraction = (match[2] ?? "").slice(0, USDC_DECIMALS).padEnd(USDC_DECIMALS, "0");
+  return whole * 10n ** BigInt(USDC_DECIMALS) + BigInt(fraction);
+}
+
+function acceptedNetworks(): string[] {
+  return getPaymentOptions().map((option) => option.network);
+}
+
+function getNetworkBalance(account: string, network: string): bigint {
+  const row = getCreditsDb()
+    .query(
+      `SELECT COALESCE(SUM(amount), 0) AS balance FROM credit_entries
+       WHERE account = ? AND network = ?`
+    )
+    .get(account, network) as { balance: number | bigint };
+  return BigInt(row.balance);
+}
+
+// Spendable balance: on one network, or summed over every network currently accepted
+export function getCreditBalance(account: string, network?: string): bigint {
+  const networks = network ? [network] : acceptedNetworks();
+  return networks.reduce((sum, entry) => sum + getNetworkBalance(account, entry), 0n);
+}
+
+export function issueCredit(input: {
+  account: string;
+  amount: bigint;
+  kind: CreditEntryKind;
+  network: string;
+  reason?: string;
+  paymentNonce?: string;
+}) {
+  if (input.amount <= 0n) {
+    throw new Error("Credit amount must be positive.");
+  }
+  getCreditsDb()
+    .query(
+      `INSERT INTO credit_entries (account, amount, kind, reason, payment_nonce, network, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      input.account,
+      input.amount,
+      input.kind,
+      input.reason ?? null,
+      input.paymentNonce ?? null,
+      input.network,
+      Date.now()
+    );
+  console.log(`[credits] +${input.amount} to ${input.account} on ${input.network} (${input.kind})`);
+}
+
+/**
+ * Spends credit if (and only if) the account can cover the full amount on a single network:
+ * `network` when given (the network of the payment being redeemed), else the first accepted
+ * network with enough balance. Returns the network debited, or null when nothing was spent.
+ * The balance check and the debit run in one transaction so concurrent redemptions can't overdraw.
+ */
+export function debitCredits(input: {
+  account: string;
+  amount: bigint;
+  kind: CreditEntryKind;
+  network?: string;
+  reason?: string;
+  paymentNonce?: string;
+}): string | null {
+  const db = getCreditsDb();
+  const candidates = input.network
+    ? acceptedNetworks().filter((network) => network === input.network)
+    : acceptedNetworks();
+  const debit = db.transaction(() => {
+    const network = candidates.find(
+      (candidate) => getNetworkBalance(input.account, candidate) >= input.amount
+    );
+    if (!network) {
+      return null;
+    }
+    db.query(
+      `INSERT INTO credit_entries (account, amount, kind, reason, payment_nonce, network, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      input.account,
+      -input.amount,
+      input.kind,
+      input.reason ?? null,
+      input.paymentNonce ?? null,
+      network,
+      Date.now()
+    );
+    return network;
+  });
+
+  const debited = debit.immediate() as string | null;
+  if (debited) {
+    console.log(`[credits] -${input.amount} from ${input.account} on ${debited} (${input.kind})`);
+  }
+  return debited;
+}
+
+export function listCreditEntries(
+  filter: { account?: string; kind?: CreditEntryKind; limit?: number } = {}
+): CreditEntry[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.account) {
+    conditions.push("account = ?");
+    params.push(filter.account);
+  }
+  if (filter.kind) {
+    conditions.push("kind = ?");
+    params.push(filter.kind);
+  }
+  params.push(Math.min(Math.max(filter.limit ?? 50, 1), 500));
+
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = getCreditsDb()
+    .query(`SELECT * FROM credit_entries ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...params) as CreditEntryRow[];
+  return rows.map(rowToEntry);
+}
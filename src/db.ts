@@ -0,0 +1,52 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+const DEFAULT_DATABASE_PATH = "./data/summariser.sqlite";
+
+let sharedDatabase: Database | null = null;
+
+export function openDatabase(
+  path: string = process.env.DATABASE_PATH || DEFAULT_DATABASE_PATH
+): Database {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path, { create: true });
+  db.exec("PRAGMA journal_mode = WAL;");
+  db.exec("PRAGMA busy_timeout = 5000;");
+  return db;
+}
+
+// Every durable store shares one database file so a single volume mount covers them all
+export function getDatabase(): Database {
+  if (!sharedDatabase) {
+    sharedDatabase = openDatabase();
+  }
+  return sharedDatabase;
+}
+
+// Migrations are tracked per scope so each store can evolve its own tables independently.
+// Append new statements to a scope's list; never edit or reorder ones that already shipped.
+export function runMigrations(db: Database, scope: string, migrations: string[]) {
+  db.exec(
+    "CREATE TABLE IF NOT EXISTS schema_migrations (scope TEXT PRIMARY KEY, version INTEGER NOT NULL)"
+  );
+
+  const row = db
+    .query("SELECT version FROM schema_migrations WHERE scope = ?")
+    .get(scope) as { version: number } | null;
+  const currentVersion = row?.version ?? 0;
+
+  for (let index = currentVersion; index < migrations.length; index += 1) {
+    const apply = db.transaction(() => {
+      db.exec(migrations[index]);
+      db.query(
+        `INSERT INTO schema_migrations (scope, version) VALUES (?, ?)
+         ON CONFLICT(scope) DO UPDATE SET version = excluded.version`
+      ).run(scope, index + 1);
+    });
+    apply();
+    console.log(`[db] Applied ${scope} migration ${index + 1}/${migrations.length}`);
+  }
+}
@@ -0,0 +1,244 @@
+import { discordFetch } from "./discordRest";
+
+// Rewrites Discord's raw mention tokens into readable text before messages reach the summariser:
+// <@id> → @name, <@&id> → @role, <#id> → #channel and custom emoji (<:name:id>) → :name:.
+// Users come from each message's `mentions` where possible; roles, channels and anyone missing
+// from `mentions` are looked up per guild and cached.
+
+const LOOKUP_CACHE_TTL_MS = Number(process.env.DISCORD_LOOKUP_CACHE_TTL_MS ?? 10 * 60 * 1000);
+// Busy servers mention many people; past this many entries expired ones are swept, then the oldest
+const MAX_CACHED_LOOKUPS = 5000;
+const MENTION_PATTERN = /<(@!?|@&|#)(\d{17,20})>|<a?:(\w{2,32}):\d{17,20}>/g;
+
+type MentionedUser = {
+  id: string;
+  username?: string;
+  global_name?: string | null;
+  member?: { nick?: string | null };
+};
+
+type MentionableMessage = {
+  content: string;
+  mentions?: MentionedUser[];
+  mention_roles?: string[];
+};
+
+type LookupOptions = {
+  token: string;
+  baseUrl: string;
+  guildId: string | null;
+};
+
+type CachedNames = {
+  names: Map<string, string>;
+  expiresAt: number;
+};
+
+// Role and channel names per guild; members and channels missing from the guild list (threads,
+// forum posts) per guild:id, where a null name is a miss
+const guildNameCaches = {
+  roles: new Map<string, CachedNames>(),
+  channels: new Map<string, CachedNames>(),
+};
+const lookupCache = new Map<string, { name: string | null; expiresAt: number }>();
+const inflightLookups = new Map<string, Promise<Map<string, string>>>();
+
+function buildHeaders(token: string): HeadersInit {
+  return { Authorization: `Bot ${token}` };
+}
+
+function getCachedLookup(key: string) {
+  const cached = lookupCache.get(key);
+  return cached && cached.expiresAt >= Date.now() ? cached : undefined;
+}
+
+function cacheLookup(key: string, name: string | null) {
+  if (lookupCache.size >= MAX_CACHED_LOOKUPS) {
+    const now = Date.now();
+    for (const [cachedKey, entry] of lookupCache) {
+      if (entry.expiresAt < now) lookupCache.delete(cachedKey);
+    }
+    // Maps iterate in insertion order, so this drops the oldest tenth
+    const excess = lookupCache.size - Math.floor(MAX_CACHED_LOOKUPS * 0.9);
+    for (const cachedKey of [...lookupCache.keys()].slice(0, Math.max(excess, 0))) {
+      lookupCache.delete(cachedKey);
+    }
+  }
+  lookupCache.set(key, { name, expiresAt: Date.now() + LOOKUP_CACHE_TTL_MS });
+}
+
+function displayName(user: MentionedUser): string | undefined {
+  return user.member?.nick || user.global_name || user.username || undefined;
+}
+
+async function fetchNamed(url: string, token: string): Promise<Map<string, string>> {
+  const response = await discordFetch(url, { headers: buildHeaders(token) });
+  if (!response.ok) {
+    throw new Error(`status ${response.status}`);
+  }
+  const items = (await response.json()) as { id: string; name?: string }[];
+  return new Map(
+    items.filter((item) => item.name).map((item) => [String(item.id), item.name!])
+  );
+}
+
+async function getGuildNames(
+  kind: keyof typeof guildNameCaches,
+  { token, baseUrl, guildId }: LookupOptions & { guildId: string }
+): Promise<Map<string, string>> {
+  const cache = guildNameCaches[kind];
+  const cached = cache.get(guildId);
+  if (cached && cached.expiresAt >= Date.now()) {
+    return cached.names;
+  }
+
+  // Digest channels resolve in parallel; share one lookup between them
+  const inflightKey = `${kind}:${guildId}`;
+  const inflight = inflightLookups.get(inflightKey);
+  if (inflight) {
+    return inflight;
+  }
+
+  const lookup = (async () => {
+    let names = new Map<string, string>();
+    try {
+      names = await fetchNamed(`${baseUrl}/guilds/${guildId}/${kind}`, token);
+    } catch (error) {
+      // Cached empty for the TTL so a guild we can't query isn't retried on every summary
+      console.warn(`[discord] Could not look up ${kind} for guild ${guildId}:`, error);
+    }
+    cache.set(guildId, { names, expiresAt: Date.now() + LOOKUP_CACHE_TTL_MS });
+    return names;
+  })();
+
+  inflightLookups.set(inflightKey, lookup);
+  try {
+    return await lookup;
+  } finally {
+    inflightLookups.delete(inflightKey);
+  }
+}
+
+async function getMemberName(
+  { token, baseUrl, guildId }: LookupOptions & { guildId: string },
+  userId: string
+): Promise<string | null> {
+  const key = `member:${guildId}:${userId}`;
+  const cached = getCachedLookup(key);
+  if (cached) {
+    return cached.name;
+  }
+
+  let name: string | null = null;
+  try {
+    const response = await discordFetch(`${baseUrl}/guilds/${guildId}/members/${userId}`, {
+      headers: buildHeaders(token),
+    });
+    if (response.ok) {
+      const member = (await response.json()) as { nick?: string | null; user?: MentionedUser };
+      name = member.nick || (member.user ? displayName(member.user) : undefined) || null;
+    }
+  } catch (error) {
+    console.warn(`[discord] Could not look up member ${userId} in guild ${guildId}:`, error);
+  }
+  cacheLookup(key, name);
+  return name;
+}
+
+// Channels outside the guild list (threads, forum posts) are fetched one by one. A mention can
+// point at any server, so channels from other guilds stay unnamed.
+async function getChannelName(
+  { token, baseUrl, guildId }: LookupOptions & { guildId: string },
+  channelId: string,
+  guildChannels: Map<string, string>
+): Promise<string | null> {
+  const known = guildChannels.get(channelId);
+  if (known) return known;
+
+  const key = `channel:${guildId}:${channelId}`;
+  const cached = getCachedLookup(key);
+  if (cached) {
+    return cached.name;
+  }
+
+  let name: string | null = null;
+  try {
+    const response = await discordFetch(`${baseUrl}/channels/${channelId}`, {
+      headers: buildHeaders(token),
+    });
+    if (response.ok) {
+      const channel = (await response.json()) as { name?: string; guild_id?: string };
+      name = channel.guild_id === guildId ? channel.name ?? null : null;
+    }
+  } catch (error) {
+    console.warn(`[discord] Could not look up channel ${channelId}:`, error);
+  }
+  cacheLookup(key, name);
+  return name;
+}
+
+export async function resolveDiscordMentions<T extends MentionableMessage>(
+  messages: T[],
+  options: LookupOptions
+): Promise<T[]> {
+  const userIds = new Set<string>();
+  const roleIds = new Set<string>();
+  const channelIds = new Set<string>();
+  const userNames = new Map<string, string>();
+
+  for (const message of messages) {
+    for (const user of message.mentions ?? []) {
+      const name = displayName(user);
+      if (name) userNames.set(user.id, name);
+    }
+    for (const roleId of message.mention_roles ?? []) {
+      roleIds.add(roleId);
+    }
+    for (const [, kind, id] of (message.content ?? "").matchAll(MENTION_PATTERN)) {
+      if (kind === "@&") roleIds.add(id);
+      else if (kind === "#") channelIds.add(id);
+      else if (kind) userIds.add(id);
+    }
+  }
+
+  const roleNames = new Map<string, string>();
+  const channelNames = new Map<string, string>();
+  const { guildId } = options;
+
+  if (guildId) {
+    const guildOptions = { ...options, guildId };
+    for (const userId of userIds) {
+      if (userNames.has(userId)) continue;
+      const name = await getMemberName(guildOptions, userId);
+      if (name) userNames.set(userId, name);
+    }
+    if (roleIds.size) {
+      const roles = await getGuildNames("roles", guildOptions);
+      for (const roleId of roleIds) {
+        const name = roles.get(roleId);
+        if (name) roleNames.set(roleId, name);
+      }
+    }
+    if (channelIds.size) {
+      const guildChannels = await getGuildNames("channels", guildOptions);
+      for (const channelId of channelIds) {
+        const name = await getChannelName(guildOptions, channelId, guildChannels);
+        if (name) channelNames.set(channelId, name);
+      }
+    }
+  }
+
+  return messages.map((message) => {
+    if (!message.content) return message;
+    const content = message.content.replace(
+      MENTION_PATTERN,
+      (_, kind: string | undefined, id: string | undefined, emoji: string | undefined) => {
+        if (emoji) return `:${emoji}:`;
+        if (kind === "@&") return `@${roleNames.get(id!) ?? "unknown-role"}`;
+        if (kind === "#") return `#${channelNames.get(id!) ?? "unknown-channel"}`;
+        return `@${userNames.get(id!) ?? "unknown-user"}`;
+      }
+    );
+    return content === message.content ? message : { ...message, content };
+  });
+}
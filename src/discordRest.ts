@@ -0,0 +1,151 @@
+// Discord REST calls with rate-limit handling. Requests are queued per bucket and sent one at a
+// time, waiting out an exhausted bucket (X-RateLimit-Remaining / Reset-After) before the next
+// one goes. 429s are retried after Retry-After and transient 5xx errors with exponential backoff
+// (idempotent methods only, so a POST that may have landed isn't sent twice); anything else is
+// returned as-is so callers keep their own error handling.
+
+const MAX_ATTEMPTS = Number(process.env.DISCORD_REST_MAX_ATTEMPTS ?? 4);
+const SERVER_ERROR_BACKOFF_MS = Number(process.env.DISCORD_REST_BACKOFF_MS ?? 500);
+// A 429 asking for a longer wait than this is returned to the caller rather than slept through
+const MAX_RETRY_AFTER_MS = 60_000;
+const TRANSIENT_STATUSES = new Set([500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+// The resource ID Discord scopes a bucket to; other IDs in the path share the route's bucket
+const MAJOR_PARAMETER_PATTERN = /^\/(channels|guilds)\/(\d+)|^\/webhooks\/(\d+)\/([^/]+)/;
+// Every interaction token gets its own webhook bucket, so idle ones are pruned past this many
+const MAX_TRACKED_BUCKETS = 500;
+
+type Bucket = {
+  remaining: number | null; // null until Discord has told us
+  resetAt: number;
+  queue: Promise<unknown>;
+  pending: number;
+};
+
+// Route → the bucket hash from X-RateLimit-Bucket; routes with the same hash share a limit
+const routeBuckets = new Map<string, string>();
+const buckets = new Map<string, Bucket>();
+let globalResetAt = 0;
+
+// `route` keys the bucket and includes an interaction token; `label` is the same route with the
+// token masked, for logs
+function describeRoute(method: string, url: URL) {
+  const path = url.pathname.replace(/^\/api\/v\d+/, "");
+  const major = path.match(MAJOR_PARAMETER_PATTERN)?.[0] ?? "";
+  const rest = path.slice(major.length).replace(/\/\d{17,20}(?=\/|$)/g, "/:id");
+  const masked = major.replace(/^(\/webhooks\/\d+)\/[^/]+/, "$1/:token");
+  return { route: `${method} ${major}${rest}`, label: `${method} ${masked}${rest}`, major };
+}
+
+function bucketFor(route: string, major: string): Bucket {
+  const hash = routeBuckets.get(route);
+  const key = hash ? `${hash}:${major}` : route;
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { remaining: null, resetAt: 0, queue: Promise.resolve(), pending: 0 };
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+async function waitForCapacity(bucket: Bucket) {
+  const now = Date.now();
+  const bucketWait = bucket.remaining === 0 ? bucket.resetAt - now : 0;
+  const wait = Math.max(globalResetAt - now, bucketWait);
+  if (wait > 0) {
+    await Bun.sleep(wait);
+  }
+}
+
+function pruneBuckets() {
+  const now = Date.now();
+  for (const [key, bucket] of buckets) {
+    if (bucket.pending === 0 && bucket.resetAt < now) buckets.delete(key);
+  }
+}
+
+// Returns the bucket the limits landed in, which changes once the route's hash is known
+function recordLimits(route: string, major: string, headers: Headers): Bucket {
+  const hash = headers.get("x-ratelimit-bucket");
+  if (hash) routeBuckets.set(route, hash);
+  const bucket = bucketFor(route, major);
+
+  const remaining = headers.get("x-ratelimit-remaining");
+  const resetAfter = headers.get("x-ratelimit-reset-after");
+  if (remaining !== null && resetAfter !== null) {
+    bucket.remaining = Number(remaining);
+    bucket.resetAt = Date.now() + Number(resetAfter) * 1000;
+  }
+  return bucket;
+}
+
+// Prefers the body's retry_after (fractional seconds) over the whole-second Retry-After header
+async function readRetryAfter(response: Response): Promise<{ ms: number; global: boolean }> {
+  const body = (await response.clone().json().catch(() => null)) as {
+    retry_after?: number;
+    global?: boolean;
+  } | null;
+  const seconds = body?.retry_after ?? Number(response.headers.get("retry-after") ?? 1);
+  const global = Boolean(body?.global) || response.headers.get("x-ratelimit-global") === "true";
+  return { ms: Math.ceil((Number.isFinite(seconds) ? seconds : 1) * 1000), global };
+}
+
+async function send(
+  url: URL,
+  init: RequestInit,
+  { route, label, major }: ReturnType<typeof describeRoute>
+) {
+  const idempotent = IDEMPOTENT_METHODS.has((init.method ?? "GET").toUpperCase());
+
+  for (let attempt = 1; ; attempt++) {
+    await waitForCapacity(bucketFor(route, major));
+
+    const response = await fetch(url, init);
+    const bucket = recordLimits(route, major, response.headers);
+    if (attempt >= MAX_ATTEMPTS) return response;
+
+    if (response.status === 429) {
+      const retryAfter = await readRetryAfter(response);
+      if (retryAfter.ms > MAX_RETRY_AFTER_MS) return response;
+      console.warn(
+        `[discord] Rate limited on ${label}${retryAfter.global ? " (global)" : ""}, ` +
+          `retrying in ${retryAfter.ms}ms`
+      );
+      if (retryAfter.global) {
+        globalResetAt = Date.now() + retryAfter.ms;
+      } else {
+        bucket.remaining = 0;
+        bucket.resetAt = Date.now() + retryAfter.ms;
+      }
+      continue;
+    }
+
+    if (idempotent && TRANSIENT_STATUSES.has(response.status)) {
+      const delay = SERVER_ERROR_BACKOFF_MS * 2 ** (attempt - 1);
+      console.warn(`[discord] ${label} returned ${response.status}, retrying in ${delay}ms`);
+      await Bun.sleep(delay);
+      continue;
+    }
+
+    return response;
+  }
+}
+
+// Drop-in replacement for fetch() against the Discord API (bot routes and interaction webhooks).
+// Request bodies must be replayable (strings, not streams) so retries can resend them.
+export function discordFetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+  if (buckets.size > MAX_TRACKED_BUCKETS) pruneBuckets();
+
+  const url = new URL(input);
+  const described = describeRoute((init.method ?? "GET").toUpperCase(), url);
+  const bucket = bucketFor(described.route, described.major);
+
+  bucket.pending += 1;
+  const result = bucket.queue
+    .then(() => send(url, init, described))
+    .finally(() => {
+      bucket.pending -= 1;
+    });
+  bucket.queue = result.catch(() => undefined);
+  return result;
+}
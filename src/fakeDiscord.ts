@@ -0,0 +1,432 @@
+import nacl from "tweetnacl";
+
+// In-process stand-in for the parts of the Discord REST API the bot talks to, plus an Ed25519 key
+// for signing interactions. Point DISCORD_API_BASE_URL at `url` and DISCORD_PUBLIC_KEY at
+// `publicKey`; webhook follow-ups are recorded instead of posted.
+
+const DISCORD_EPOCH = 1420070400000n;
+const MAX_PAGE_SIZE = 100;
+const THREAD_CHANNEL_TYPES = new Set([10, 11, 12]);
+
+export type FakeDiscordMessage = {
+  id: string;
+  channel_id: string;
+  content: string;
+  timestamp: string;
+  author: { id: string; username: string; global_name?: string; bot?: boolean };
+  [key: string]: unknown;
+};
+
+export type FakeDiscordChannel = {
+  id: string;
+  name: string;
+  guild_id?: string;
+  type?: number;
+  parent_id?: string | null;
+  position?: number;
+  last_message_id?: string | null;
+  thread_metadata?: { archived: boolean; archive_timestamp: string };
+  permission_overwrites?: { id: string; type: number; allow: string; deny: string }[];
+};
+
+export type FakeDiscordGuild = {
+  id: string;
+  name: string;
+  owner_id?: string;
+};
+
+export type FakeDiscordRole = {
+  id: string;
+  name: string;
+  permissions?: string;
+};
+
+export type FakeDiscordMember = {
+  user: { id: string; username: string; global_name?: string };
+  nick?: string | null;
+};
+
+export type FakeDiscordWebhookCall = {
+  method: "POST" | "PATCH";
+  applicationId: string;
+  interactionToken: string;
+  messageId: string | null; // set for PATCH /messages/:id edits
+  body: any;
+};
+
+export type FakeDiscordRequest = {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  status?: number;
+};
+
+// A scripted error response; 429s tell the client to retry after `retryAfter` seconds
+export type FakeDiscordFailure = {
+  status: number;
+  retryAfter?: number;
+  global?: boolean;
+};
+
+export type FakeDiscord = {
+  url: string;
+  publicKey: string; // hex, for DISCORD_PUBLIC_KEY
+  requests: FakeDiscordRequest[];
+  webhookCalls: FakeDiscordWebhookCall[];
+  addGuild(guild: FakeDiscordGuild): void;
+  addChannel(channel: FakeDiscordChannel): void;
+  addRole(guildId: string, role: FakeDiscordRole): void;
+  addMember(guildId: string, member: FakeDiscordMember): void;
+  // Threads (and forum posts) are channels with a parent; archived ones need an archive time
+  addThread(
+    parentId: string,
+    thread: { name: string; createdAt?: Date; archivedAt?: Date }
+  ): FakeDiscordChannel;
+  addMessage(
+    channelId: string,
+    message: Omit<Partial<FakeDiscordMessage>, "timestamp"> & { content: string; timestamp: Date }
+  ): FakeDiscordMessage;
+  // Seeds `count` messages ending at `end` (default now), `intervalMs` apart
+  seedMessages(
+    channelId: string,
+    count: number,
+    options?: { end?: Date; intervalMs?: number }
+  ): FakeDiscordMessage[];
+  // The next requests to `path` (without /api/vN) get these responses, in order
+  failNext(path: string, ...failures: FakeDiscordFailure[]): void;
+  messageLink(guildId: string, channelId: string, messageId: string): string;
+  signInteraction(body: string, timestamp?: string): Record<string, string>;
+  waitForWebhook(
+    predicate: (call: FakeDiscordWebhookCall) => boolean,
+    timeoutMs?: number
+  ): Promise<FakeDiscordWebhookCall>;
+  reset(): void;
+  stop(): void;
+};
+
+export function snowflakeAt(date: Date, sequence = 0): string {
+  return (((BigInt(date.getTime()) - DISCORD_EPOCH) << 22n) + BigInt(sequence)).toString();
+}
+
+function compareSnowflakes(a: string, b: string): number {
+  const left = BigInt(a);
+  const right = BigInt(b);
+  return left === right ? 0 : left < right ? -1 : 1;
+}
+
+export function createFakeDiscord(
+  options: {
+    port?: number;
+    botToken?: string;
+    // Per-route limit on bot requests, sent as X-RateLimit-* headers and enforced with 429s
+    rateLimit?: { limit: number; windowMs: number };
+  } = {}
+): FakeDiscord {
+  const keyPair = nacl.sign.keyPair();
+  const guilds = new Map<string, FakeDiscordGuild>();
+  const channels = new Map<string, FakeDiscordChannel>();
+  const roles = new Map<string, FakeDiscordRole[]>();
+  const members = new Map<string, FakeDiscordMember>(); // keyed guildId:userId
+  // Kept sorted oldest → newest per channel
+  const messages = new Map<string, FakeDiscordMessage[]>();
+  const requests: FakeDiscordRequest[] = [];
+  const webhookCalls: FakeDiscordWebhookCall[] = [];
+  const failures = new Map<string, FakeDiscordFailure[]>();
+  const rateLimitWindows = new Map<string, { used: number; resetAt: number }>();
+  let sequence = 0;
+
+  const isAuthorized = (req: Request) =>
+    !options.botToken || req.headers.get("authorization") === `Bot ${options.botToken}`;
+
+  const listMessages = (channelId: string, query: URLSearchParams): FakeDiscordMessage[] => {
+    const all = messages.get(channelId) ?? [];
+    const limit = Math.min(Math.max(Number(query.get("limit") ?? 50), 1), MAX_PAGE_SIZE);
+    const after = query.get("after");
+    const before = query.get("before");
+
+    let page: FakeDiscordMessage[];
+    if (after) {
+      page = all.filter((message) => compareSnowflakes(message.id, after) > 0).slice(0, limit);
+    } else if (before) {
+      page = all.filter((message) => compareSnowflakes(message.id, before) < 0).slice(-limit);
+    } else {
+      page = all.slice(-limit);
+    }
+    // Discord always returns newest first
+    return [...page].reverse();
+  };
+
+  const threadsOf = (predicate: (thread: FakeDiscordChannel) => boolean) =>
+    [...channels.values()].filter(
+      (channel) => THREAD_CHANNEL_TYPES.has(channel.type ?? 0) && predicate(channel)
+    );
+
+  const listArchivedThreads = (channelId: string, query: URLSearchParams) => {
+    const limit = Math.min(Math.max(Number(query.get("limit") ?? 50), 1), MAX_PAGE_SIZE);
+    const before = query.get("before");
+    const archived = threadsOf(
+      (thread) =>
+        thread.parent_id === channelId &&
+        Boolean(thread.thread_metadata?.archived) &&
+        (!before || thread.thread_metadata!.archive_timestamp < before)
+    ).sort((a, b) =>
+      b.thread_metadata!.archive_timestamp.localeCompare(a.thread_metadata!.archive_timestamp)
+    );
+    return { threads: archived.slice(0, limit), has_more: archived.length > limit };
+  };
+
+  const rateLimited = (retryAfter: number, global = false, headers: Record<string, string> = {}) =>
+    Response.json(
+      { message: "You are being rate limited.", retry_after: retryAfter, global },
+      {
+        status: 429,
+        headers: {
+          ...headers,
+          "Retry-After": String(Math.ceil(retryAfter)),
+          ...(global ? { "X-RateLimit-Global": "true" } : {}),
+        },
+      }
+    );
+
+  const scriptedFailure = (path: string): Response | null => {
+    const failure = failures.get(path)?.shift();
+    if (!failure) return null;
+    if (failure.status === 429) {
+      return rateLimited(failure.retryAfter ?? 0.05, failure.global);
+    }
+    return Response.json({ message: "Server error", code: 0 }, { status: failure.status });
+  };
+
+  // Counts the request against its route's window and returns the headers to send, or a 429
+  const applyRateLimit = (route: string): Response | Record<string, string> => {
+    if (!options.rateLimit) return {};
+    const now = Date.now();
+    let window = rateLimitWindows.get(route);
+    if (!window || window.resetAt <= now) {
+      window = { used: 0, resetAt: now + options.rateLimit.windowMs };
+      rateLimitWindows.set(route, window);
+    }
+    const resetAfter = (window.resetAt - now) / 1000;
+    const headers = {
+      "X-RateLimit-Limit": String(options.rateLimit.limit),
+      "X-RateLimit-Reset-After": resetAfter.toFixed(3),
+      "X-RateLimit-Bucket": Buffer.from(route).toString("hex").slice(0, 32),
+    };
+    if (window.used >= options.rateLimit.limit) {
+      return rateLimited(resetAfter, false, { ...headers, "X-RateLimit-Remaining": "0" });
+    }
+    window.used += 1;
+    return { ...headers, "X-RateLimit-Remaining": String(options.rateLimit.limit - window.used) };
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const path = url.pathname.replace(/^\/api\/v\d+/, "");
+      const request: FakeDiscordRequest = {
+        method: req.method,
+        path,
+        query: Object.fromEntries(url.searchParams),
+      };
+      requests.push(request);
+
+      let response = scriptedFailure(path);
+      if (!response) {
+        const limit = path.startsWith("/webhooks/") ? {} : applyRateLimit(`${req.method} ${path}`);
+        if (limit instanceof Response) {
+          response = limit;
+        } else {
+          response = await route(req, url, path);
+          for (const [name, value] of Object.entries(limit)) response.headers.set(name, value);
+        }
+      }
+      request.status = response.status;
+      return response;
+    },
+  });
+
+  async function route(req: Request, url: URL, path: string): Promise<Response> {
+    const segments = path.split("/").filter(Boolean);
+
+    if (segments[0] === "webhooks" && segments.length >= 3) {
+      const [, applicationId, interactionToken, resource, messageId] = segments;
+      const body = await req.json().catch(() => null);
+      if (req.method === "POST" && !resource) {
+        webhookCalls.push({ method: "POST", applicationId, interactionToken, messageId: null, body });
+        return Response.json({ id: snowflakeAt(new Date(), ++sequence % 4096), ...body });
+      }
+      if (req.method === "PATCH" && resource === "messages" && messageId) {
+        webhookCalls.push({ method: "PATCH", applicationId, interactionToken, messageId, body });
+        return Response.json({ id: messageId, ...body });
+      }
+      return Response.json({ message: "404: Not Found", code: 0 }, { status: 404 });
+    }
+
+    if (!isAuthorized(req)) {
+      return Response.json({ message: "401: Unauthorized", code: 0 }, { status: 401 });
+    }
+
+    if (segments[0] === "channels" && segments[1] && req.method === "GET") {
+      const channelId = segments[1];
+      if (!channels.has(channelId) && !messages.has(channelId)) {
+        return Response.json({ message: "Unknown Channel", code: 10003 }, { status: 404 });
+      }
+      if (segments.length === 2) {
+        return Response.json(channels.get(channelId) ?? { id: channelId, name: channelId });
+      }
+      if (segments[2] === "messages" && segments.length === 3) {
+        return Response.json(listMessages(channelId, url.searchParams));
+      }
+      if (segments.slice(2).join("/") === "threads/archived/public") {
+        return Response.json(listArchivedThreads(channelId, url.searchParams));
+      }
+    }
+
+    if (segments[0] === "guilds" && segments[2] === "channels" && segments.length === 3) {
+      return Response.json(
+        [...channels.values()].filter(
+          (channel) =>
+            channel.guild_id === segments[1] && !THREAD_CHANNEL_TYPES.has(channel.type ?? 0)
+        )
+      );
+    }
+
+    if (segments[0] === "guilds" && segments[2] === "roles" && segments.length === 3) {
+      return Response.json(roles.get(segments[1]) ?? []);
+    }
+
+    if (segments[0] === "guilds" && segments[2] === "members" && segments.length === 4) {
+      const member = members.get(`${segments[1]}:${segments[3]}`);
+      return member
+        ? Response.json(member)
+        : Response.json({ message: "Unknown Member", code: 10007 }, { status: 404 });
+    }
+
+    if (segments[0] === "guilds" && segments.slice(2).join("/") === "threads/active") {
+      const threads = threadsOf(
+        (thread) => thread.guild_id === segments[1] && !thread.thread_metadata?.archived
+      );
+      return Response.json({ threads, members: [] });
+    }
+
+    if (segments[0] === "guilds" && segments[1] && segments.length === 2 && req.method === "GET") {
+      const guild = guilds.get(segments[1]);
+      return guild
+        ? Response.json(guild)
+        : Response.json({ message: "Unknown Guild", code: 10004 }, { status: 404 });
+    }
+
+    return Response.json({ message: "404: Not Found", code: 0 }, { status: 404 });
+  }
+
+  const fake: FakeDiscord = {
+    url: `http://localhost:${server.port}`,
+    publicKey: Buffer.from(keyPair.publicKey).toString("hex"),
+    requests,
+    webhookCalls,
+    addGuild(guild) {
+      guilds.set(guild.id, guild);
+    },
+    addChannel(channel) {
+      channels.set(channel.id, channel);
+    },
+    addRole(guildId, role) {
+      roles.set(guildId, [...(roles.get(guildId) ?? []), role]);
+    },
+    addMember(guildId, member) {
+      members.set(`${guildId}:${member.user.id}`, member);
+    },
+    addThread(parentId, thread) {
+      const parent = channels.get(parentId);
+      const stored: FakeDiscordChannel = {
+        id: snowflakeAt(thread.createdAt ?? new Date(), ++sequence % 4096),
+        name: thread.name,
+        guild_id: parent?.guild_id,
+        type: 11, // PUBLIC_THREAD
+        parent_id: parentId,
+        thread_metadata: {
+          archived: Boolean(thread.archivedAt),
+          archive_timestamp: (thread.archivedAt ?? thread.createdAt ?? new Date()).toISOString(),
+        },
+      };
+      channels.set(stored.id, stored);
+      return stored;
+    },
+    addMessage(channelId, message) {
+      const { timestamp, ...rest } = message;
+      const stored: FakeDiscordMessage = {
+        id: snowflakeAt(timestamp, ++sequence % 4096),
+        channel_id: channelId,
+        author: { id: "1000", username: "tester" },
+        ...rest,
+        timestamp: timestamp.toISOString(),
+      };
+      const channelMessages = messages.get(channelId) ?? [];
+      channelMessages.push(stored);
+      channelMessages.sort((a, b) => compareSnowflakes(a.id, b.id));
+      messages.set(channelId, channelMessages);
+      const channel = channels.get(channelId);
+      if (channel) {
+        channel.last_message_id = channelMessages.at(-1)!.id;
+      }
+      return stored;
+    },
+    seedMessages(channelId, count, seedOptions = {}) {
+      const end = seedOptions.end ?? new Date();
+      const intervalMs = seedOptions.intervalMs ?? 1000;
+      const seeded: FakeDiscordMessage[] = [];
+      for (let index = count - 1; index >= 0; index--) {
+        seeded.push(
+          fake.addMessage(channelId, {
+            content: `message ${count - index}`,
+            timestamp: new Date(end.getTime() - index * intervalMs),
+          })
+        );
+      }
+      return seeded;
+    },
+    failNext(path, ...scripted) {
+      failures.set(path, [...(failures.get(path) ?? []), ...scripted]);
+    },
+    messageLink(guildId, channelId, messageId) {
+      return `https://discord.com/channels/${guildId}/${channelId}/${messageId}`;
+    },
+    signInteraction(body, timestamp = String(Math.floor(Date.now() / 1000))) {
+      const signature = nacl.sign.detached(
+        new TextEncoder().encode(timestamp + body),
+        keyPair.secretKey
+      );
+      return {
+        "Content-Type": "application/json",
+        "X-Signature-Ed25519": Buffer.from(signature).toString("hex"),
+        "X-Signature-Timestamp": timestamp,
+      };
+    },
+    async waitForWebhook(predicate, timeoutMs = 5000) {
+      const deadline = Date.now() + timeoutMs;
+      while (Date.now() < deadline) {
+        const match = webhookCalls.find(predicate);
+        if (match) return match;
+        await Bun.sleep(25);
+      }
+      throw new Error("Timed out waiting for a matching Discord webhook call");
+    },
+    reset() {
+      guilds.clear();
+      channels.clear();
+      roles.clear();
+      members.clear();
+      messages.clear();
+      requests.length = 0;
+      webhookCalls.length = 0;
+      failures.clear();
+      rateLimitWindows.clear();
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+
+  return fake;
+}
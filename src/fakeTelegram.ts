@@ -0,0 +1,543 @@
+// In-process stand-in for the Telegram Bot API methods the bot uses. Pass `url` as `apiRoot`
+// to createTelegramBot (or TELEGRAM_API_ROOT for the server) and push synthetic updates; they
+// are served through getUpdates, or POSTed to the webhook once setWebhook registers one, and
+// everything the bot posts is recorded.
+
+const DEFAULT_TOKEN = "123456:fake-telegram-token";
+// What Telegram sends when allowed_updates is empty: everything except these opt-in types
+const OPT_IN_UPDATE_TYPES = ["chat_member", "message_reaction", "message_reaction_count"];
+const MAX_POLL_MS = 1000;
+const MAX_MESSAGE_LENGTH = 4096;
+// Tags Telegram accepts with parse_mode HTML
+const HTML_TAGS = new Set([
+  "b", "strong", "i", "em", "u", "ins", "s", "strike", "del",
+  "a", "code", "pre", "blockquote", "tg-spoiler",
+]);
+
+export type FakeTelegramUser = {
+  id: number;
+  is_bot?: boolean;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+};
+
+export type FakeTelegramCall = {
+  method: string;
+  params: Record<string, any>;
+};
+
+export type FakeTelegramMessage = {
+  message_id: number;
+  date: number;
+  chat: { id: number; type: string; title?: string; is_forum?: boolean };
+  from?: FakeTelegramUser;
+  text?: string;
+  [key: string]: unknown;
+};
+
+export type FakeTelegram = {
+  url: string; // apiRoot, e.g. http://localhost:1234
+  token: string;
+  botUser: FakeTelegramUser;
+  calls: FakeTelegramCall[];
+  // Messages the bot sent via sendMessage, oldest first
+  sentMessages: FakeTelegramMessage[];
+  deletedMessages: { chatId: number; messageId: number }[];
+  // Queued for getUpdates, or delivered straight to the registered webhook
+  pushUpdate(update: Record<string, unknown>): number;
+  // Posts a user message into a chat; commands get a bot_command entity like real clients send.
+  // Leave out `text` for media-only messages and pass the media fields in `extra`. A message in
+  // a private chat counts as the user starting the bot, which lets it message them.
+  sendUserMessage(input: {
+    chatId: number;
+    text?: string;
+    from?: FakeTelegramUser;
+    date?: Date;
+    replyToMessageId?: number;
+    threadId?: number; // forum topic, as returned by createTopic
+    chatType?: string;
+    extra?: Record<string, unknown>;
+  }): FakeTelegramMessage;
+  // Sends an edited_message update replacing a message's text (or caption, via `extra`)
+  editUserMessage(input: {
+    chatId: number;
+    messageId: number;
+    text?: string;
+    extra?: Record<string, unknown>;
+  }): FakeTelegramMessage;
+  // The user blocks the bot, so messaging them privately fails until they write to it again
+  blockBot(userId: number): void;
+  // Member status returned by getChatMember and getChatAdministrators; everyone else is a
+  // plain "member"
+  setMemberStatus(chatId: number, userId: number, status: string): void;
+  // Changes a member's status and sends the matching chat_member update
+  changeMemberStatus(chatId: number, user: FakeTelegramUser, status: string): void;
+  // Opens a forum topic; its message_id is the topic's message_thread_id
+  createTopic(input: { chatId: number; name: string; from?: FakeTelegramUser }): number;
+  // Sends a message_reaction update for one user changing their reaction set.
+  // Emoji written as "custom:<id>" become custom emoji reactions.
+  reactToMessage(input: {
+    chatId: number;
+    messageId: number;
+    user?: FakeTelegramUser;
+    oldEmoji?: string[];
+    newEmoji?: string[];
+  }): void;
+  // Sends a message_reaction_count update with anonymous per-emoji totals
+  setReactionCounts(input: {
+    chatId: number;
+    messageId: number;
+    counts: Record<string, number>;
+  }): void;
+  // Sends a callback_query update as if `from` pressed an inline button on a bot message
+  pressButton(input: {
+    chatId: number;
+    messageId: number;
+    data: string;
+    from?: FakeTelegramUser;
+  }): void;
+  waitForCall(
+    method: string,
+    predicate?: (call: FakeTelegramCall) => boolean,
+    timeoutMs?: number
+  ): Promise<FakeTelegramCall>;
+  reset(): void;
+  stop(): void;
+};
+
+const DEFAULT_USER: FakeTelegramUser = {
+  id: 1000,
+  is_bot: false,
+  first_name: "Test",
+  last_name: "User",
+  username: "tester",
+};
+
+async function readParams(req: Request, url: URL): Promise<Record<string, any>> {
+  const params: Record<string, any> = Object.fromEntries(url.searchParams);
+  const contentType = req.headers.get("content-type") ?? "";
+  if (contentType.includes("application/json")) {
+    Object.assign(params, await req.json().catch(() => ({})));
+  } else if (contentType.includes("form")) {
+    const form = await req.formData();
+    for (const [key, value] of form.entries()) {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+// Mirrors Telegram's "can't parse entities" checks: known tags only, properly nested
+function htmlParseError(text: string): string | null {
+  const open: string[] = [];
+  for (const [, closing, name] of text.matchAll(/<(\/?)([a-z-]+)(?:\s[^>]*)?>/g)) {
+    if (!HTML_TAGS.has(name)) return `Unsupported start tag "${name}"`;
+    if (!closing) {
+      open.push(name);
+    } else if (open.pop() !== name) {
+      return `Unmatched end tag "${name}"`;
+    }
+  }
+  if (open.length > 0) return `Can't find end tag corresponding to start tag "${open.at(-1)}"`;
+  if (/[<>]/.test(text.replace(/<\/?[a-z-]+(?:\s[^>]*)?>/g, ""))) return "Unexpected < or >";
+  return null;
+}
+
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return value;
+  return JSON.parse(String(value));
+}
+
+export function createFakeTelegram(options: { port?: number; token?: string } = {}): FakeTelegram {
+  const token = options.token ?? DEFAULT_TOKEN;
+  const botUser: FakeTelegramUser = {
+    id: Number(token.split(":")[0]) || 123456,
+    is_bot: true,
+    first_name: "Summariser",
+    username: "summariser_test_bot",
+  };
+  const calls: FakeTelegramCall[] = [];
+  const sentMessages: FakeTelegramMessage[] = [];
+  const deletedMessages: { chatId: number; messageId: number }[] = [];
+  const messages = new Map<string, FakeTelegramMessage>();
+  const nextMessageIds = new Map<number, number>();
+  const memberStatuses = new Map<string, string>();
+  // Users who opened a private chat with the bot; Telegram refuses to DM anyone else
+  const startedUsers = new Set<number>();
+  let updates: { update_id: number; [key: string]: unknown }[] = [];
+  let nextUpdateId = 1;
+  let allowedUpdates: string[] | null = null;
+  // Set by setWebhook; survives reset() since the bot registers it once at startup
+  let webhook: { url: string; secretToken?: string } | null = null;
+  // One delivery at a time, so the bot sees updates in order
+  let webhookQueue: Promise<void> = Promise.resolve();
+  let stopped = false;
+
+  const nextMessageId = (chatId: number) => {
+    const id = nextMessageIds.get(chatId) ?? 1;
+    nextMessageIds.set(chatId, id + 1);
+    return id;
+  };
+
+  const storeMessage = (message: FakeTelegramMessage) => {
+    messages.set(`${message.chat.id}:${message.message_id}`, message);
+    return message;
+  };
+
+  const isDeliverable = (update: Record<string, unknown>) => {
+    const type = Object.keys(update).find((key) => key !== "update_id");
+    if (!type) return false;
+    if (allowedUpdates === null || allowedUpdates.length === 0) {
+      return !OPT_IN_UPDATE_TYPES.includes(type);
+    }
+    return allowedUpdates.includes(type);
+  };
+
+  const deliverToWebhook = async (
+    target: { url: string; secretToken?: string },
+    update: unknown
+  ) => {
+    try {
+      await fetch(target.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(target.secretToken ? { "X-Telegram-Bot-Api-Secret-Token": target.secretToken } : {}),
+        },
+        body: JSON.stringify(update),
+      });
+    } catch (error) {
+      console.warn("[fake-telegram] Webhook delivery failed:", error);
+    }
+  };
+
+  const ok = (result: unknown) => Response.json({ ok: true, result });
+  const fail = (status: number, description: string) =>
+    Response.json({ ok: false, error_code: status, description }, { status });
+
+  const handlers: Record<string, (params: Record<string, any>, req: Request) => Promise<Response>> = {
+    async getMe() {
+      return ok(botUser);
+    },
+    async setWebhook(params) {
+      if (!params.url) {
+        return fail(400, "Bad Request: bad webhook: URL is empty");
+      }
+      webhook = { url: String(params.url), secretToken: params.secret_token || undefined };
+      const requested = parseList(params.allowed_updates);
+      if (requested !== undefined) {
+        allowedUpdates = requested;
+      }
+      return ok(true);
+    },
+    async deleteWebhook() {
+      webhook = null;
+      return ok(true);
+    },
+    async getUpdates(params, req) {
+      if (webhook) {
+        return fail(
+          409,
+          "Conflict: can't use getUpdates method while webhook is active; use deleteWebhook to delete the webhook first"
+        );
+      }
+      const offset = Number(params.offset ?? 0);
+      const limit = Math.min(Number(params.limit ?? 100), 100);
+      const requested = parseList(params.allowed_updates);
+      if (requested !== undefined) {
+        allowedUpdates = requested;
+      }
+      if (offset > 0) {
+        // Like Telegram, requesting an offset confirms every earlier update
+        updates = updates.filter((update) => update.update_id >= offset);
+      }
+
+      const deadline = Date.now() + Math.min(Number(params.timeout ?? 0) * 1000, MAX_POLL_MS);
+      while (true) {
+        const pending = updates.filter(isDeliverable).slice(0, limit);
+        if (pending.length > 0 || Date.now() >= deadline || stopped || req.signal.aborted) {
+          return ok(pending);
+        }
+        await Bun.sleep(10);
+      }
+    },
+    async getChatMember(params) {
+      const chatId = Number(params.chat_id);
+      const userId = Number(params.user_id);
+      return ok({
+        status: memberStatuses.get(`${chatId}:${userId}`) ?? "member",
+        user: { id: userId, is_bot: false, first_name: `User ${userId}` },
+      });
+    },
+    async getChatAdministrators(params) {
+      const chatId = Number(params.chat_id);
+      if (chatId > 0) {
+        return fail(400, "Bad Request: there are no administrators in the private chat");
+      }
+      const admins = [...memberStatuses.entries()]
+        .filter(([key, status]) => {
+          const isAdmin = status === "creator" || status === "administrator";
+          return isAdmin && Number(key.split(":")[0]) === chatId;
+        })
+        .map(([key, status]) => {
+          const userId = Number(key.split(":")[1]);
+          return { status, user: { id: userId, is_bot: false, first_name: `User ${userId}` } };
+        });
+      return ok(admins);
+    },
+    async sendMessage(params) {
+      const chatId = Number(params.chat_id);
+      if (!params.text) {
+        return fail(400, "Bad Request: message text is empty");
+      }
+      // The limit applies to the text left once entities are parsed out
+      const visibleText =
+        params.parse_mode === "HTML"
+          ? String(params.text).replace(/<[^>]*>/g, "")
+          : String(params.text);
+      if (visibleText.length > MAX_MESSAGE_LENGTH) {
+        return fail(400, "Bad Request: message is too long");
+      }
+      if (params.parse_mode === "HTML") {
+        const parseError = htmlParseError(String(params.text));
+        if (parseError) {
+          return fail(400, `Bad Request: can't parse entities: ${parseError}`);
+        }
+      }
+      if (chatId > 0 && !startedUsers.has(chatId)) {
+        return fail(403, "Forbidden: bot can't initiate conversation with a user");
+      }
+      const replyTo = params.reply_parameters
+        ? parseReplyMarkup(params.reply_parameters).message_id
+        : undefined;
+      const message = storeMessage({
+        message_id: nextMessageId(chatId),
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: chatId < 0 ? "supergroup" : "private" },
+        from: botUser,
+        text: String(params.text),
+        ...(params.message_thread_id
+          ? { message_thread_id: Number(params.message_thread_id), is_topic_message: true }
+          : {}),
+        ...(replyTo !== undefined
+          ? { reply_to_message: messages.get(`${chatId}:${replyTo}`) }
+          : {}),
+        ...(params.reply_markup ? { reply_markup: parseReplyMarkup(params.reply_markup) } : {}),
+      });
+      sentMessages.push(message);
+      return ok(message);
+    },
+    async answerCallbackQuery() {
+      return ok(true);
+    },
+    async deleteMessage(params) {
+      const chatId = Number(params.chat_id);
+      const messageId = Number(params.message_id);
+      if (!messages.delete(`${chatId}:${messageId}`)) {
+        return fail(400, "Bad Request: message to delete not found");
+      }
+      deletedMessages.push({ chatId, messageId });
+      return ok(true);
+    },
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const match = url.pathname.match(/^\/bot([^/]+)\/([A-Za-z]+)$/);
+      if (!match) {
+        return fail(404, "Not Found");
+      }
+      const [, requestToken, method] = match;
+      if (requestToken !== token) {
+        return fail(401, "Unauthorized");
+      }
+
+      const params = await readParams(req, url);
+      calls.push({ method, params });
+      const handler = handlers[method];
+      return handler ? handler(params, req) : fail(404, "Not Found: method not found");
+    },
+  });
+
+  const fake: FakeTelegram = {
+    url: `http://localhost:${server.port}`,
+    token,
+    botUser,
+    calls,
+    sentMessages,
+    deletedMessages,
+    pushUpdate(update) {
+      const updateId = nextUpdateId++;
+      const entry = { update_id: updateId, ...update };
+      if (!webhook) {
+        updates.push(entry);
+      } else if (isDeliverable(entry)) {
+        const target = webhook;
+        webhookQueue = webhookQueue.then(() => deliverToWebhook(target, entry));
+      }
+      return updateId;
+    },
+    sendUserMessage(input) {
+      const text = input.text;
+      if (input.chatId > 0) {
+        startedUsers.add(input.chatId);
+      }
+      const command = text?.match(/^\/\S+/);
+      const message = storeMessage({
+        message_id: nextMessageId(input.chatId),
+        date: Math.floor((input.date ?? new Date()).getTime() / 1000),
+        chat: {
+          id: input.chatId,
+          type: input.chatType ?? (input.chatId < 0 ? "supergroup" : "private"),
+        },
+        from: input.from ?? DEFAULT_USER,
+        ...(text !== undefined ? { text } : {}),
+        ...(command
+          ? { entities: [{ type: "bot_command", offset: 0, length: command[0].length }] }
+          : {}),
+        ...(input.threadId !== undefined
+          ? {
+              message_thread_id: input.threadId,
+              is_topic_message: true,
+              // Telegram marks topic messages as replies to the topic's creation message
+              reply_to_message: messages.get(`${input.chatId}:${input.threadId}`),
+            }
+          : {}),
+        ...(input.replyToMessageId !== undefined
+          ? { reply_to_message: messages.get(`${input.chatId}:${input.replyToMessageId}`) }
+          : {}),
+        ...input.extra,
+      });
+      fake.pushUpdate({ message });
+      return message;
+    },
+    blockBot(userId) {
+      startedUsers.delete(userId);
+    },
+    editUserMessage(input) {
+      const original = messages.get(`${input.chatId}:${input.messageId}`);
+      if (!original) {
+        throw new Error(`No message ${input.messageId} in chat ${input.chatId}`);
+      }
+      const edited = storeMessage({
+        ...original,
+        ...(input.text !== undefined ? { text: input.text } : {}),
+        ...input.extra,
+        edit_date: Math.floor(Date.now() / 1000),
+      });
+      fake.pushUpdate({ edited_message: edited });
+      return edited;
+    },
+    setMemberStatus(chatId, userId, status) {
+      memberStatuses.set(`${chatId}:${userId}`, status);
+    },
+    changeMemberStatus(chatId, user, status) {
+      const key = `${chatId}:${user.id}`;
+      const oldStatus = memberStatuses.get(key) ?? "member";
+      memberStatuses.set(key, status);
+      fake.pushUpdate({
+        chat_member: {
+          chat: { id: chatId, type: chatId < 0 ? "supergroup" : "private" },
+          from: DEFAULT_USER,
+          date: Math.floor(Date.now() / 1000),
+          old_chat_member: { status: oldStatus, user },
+          new_chat_member: { status, user },
+        },
+      });
+    },
+    createTopic(input) {
+      const messageId = nextMessageId(input.chatId);
+      const message = storeMessage({
+        message_id: messageId,
+        message_thread_id: messageId,
+        is_topic_message: true,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: input.chatId, type: "supergroup", is_forum: true },
+        from: input.from ?? DEFAULT_USER,
+        forum_topic_created: { name: input.name, icon_color: 7322096 },
+      });
+      fake.pushUpdate({ message });
+      return messageId;
+    },
+    reactToMessage(input) {
+      const toReactions = (emoji: string[] = []) => emoji.map(toReactionType);
+      fake.pushUpdate({
+        message_reaction: {
+          chat: { id: input.chatId, type: input.chatId < 0 ? "supergroup" : "private" },
+          message_id: input.messageId,
+          user: input.user ?? DEFAULT_USER,
+          date: Math.floor(Date.now() / 1000),
+          old_reaction: toReactions(input.oldEmoji),
+          new_reaction: toReactions(input.newEmoji),
+        },
+      });
+    },
+    setReactionCounts(input) {
+      fake.pushUpdate({
+        message_reaction_count: {
+          chat: { id: input.chatId, type: input.chatId < 0 ? "supergroup" : "private" },
+          message_id: input.messageId,
+          date: Math.floor(Date.now() / 1000),
+          reactions: Object.entries(input.counts).map(([emoji, count]) => ({
+            type: toReactionType(emoji),
+            total_count: count,
+          })),
+        },
+      });
+    },
+    pressButton(input) {
+      const message = messages.get(`${input.chatId}:${input.messageId}`);
+      if (!message) {
+        throw new Error(`No message ${input.messageId} in chat ${input.chatId}`);
+      }
+      fake.pushUpdate({
+        callback_query: {
+          id: String(nextUpdateId),
+          from: input.from ?? DEFAULT_USER,
+          message,
+          chat_instance: String(input.chatId),
+          data: input.data,
+        },
+      });
+    },
+    async waitForCall(method, predicate = () => true, timeoutMs = 5000) {
+      const deadline = Date.now() + timeoutMs;
+      while (Date.now() < deadline) {
+        const match = calls.find((call) => call.method === method && predicate(call));
+        if (match) return match;
+        await Bun.sleep(25);
+      }
+      throw new Error(`Timed out waiting for a matching Telegram ${method} call`);
+    },
+    reset() {
+      calls.length = 0;
+      sentMessages.length = 0;
+      deletedMessages.length = 0;
+      messages.clear();
+      nextMessageIds.clear();
+      memberStatuses.clear();
+      startedUsers.clear();
+      updates = [];
+    },
+    stop() {
+      stopped = true;
+      server.stop(true);
+    },
+  };
+
+  return fake;
+}
+
+function toReactionType(emoji: string) {
+  return emoji.startsWith("custom:")
+    ? { type: "custom_emoji", custom_emoji_id: emoji.slice("custom:".length) }
+    : { type: "emoji", emoji };
+}
+
+function parseReplyMarkup(value: unknown) {
+  return typeof value === "string" ? JSON.parse(value) : value;
+}
@@ -1,25 +1,81 @@
-import { app, executeSummariseChat } from "./agent";
+import {
+  app,
+  DiscordDigestInput,
+  executeDiscordDigest,
+  executeSummariseChat,
+  executeSummariseTelegramChat,
+  filterDigestChannelsForViewer,
+  formatDiscordMessageUrl,
+  parseDiscordMessageUrl,
+  quoteDiscordDigest,
+  quoteDiscordSummary,
+} from "./agent";
 import { exact } from "x402/schemes";
 import { findMatchingPaymentRequirements } from "x402/shared";
 import { useFacilitator } from "x402/verify";
 import { settleResponseHeader } from "x402/types";
+import type { PaymentPayload, PaymentRequirements, SettleResponse } from "x402/types";
+import { timingSafeEqual } from "node:crypto";
 import nacl from "tweetnacl";
+import { webhookCallback } from "grammy";
 import { MAX_LOOKBACK_MINUTES, validateLookback } from "./lookback";
-import { PAYMENT_CALLBACK_EXPIRY_MS } from "./constants";
+import { HELD_SUMMARY_EXPIRY_MS, PAYMENT_CALLBACK_EXPIRY_MS } from "./constants";
+import { discordFetch } from "./discordRest";
 import {
+  DiscordCallbackData,
   pendingDiscordCallbacks,
+  heldTelegramSummaries,
   pendingTelegramCallbacks,
+  TelegramCallbackData,
 } from "./pending";
-import { createTelegramBot } from "./telegram";
+import { createTelegramBot, TELEGRAM_ALLOWED_UPDATES } from "./telegram";
+import {
+  escapeTelegramHtml,
+  renderTelegramHtml,
+  splitTelegramHtml,
+  telegramHtmlToText,
+} from "./telegramFormat";
+import {
+  debitCredits,
+  discordAccount,
+  formatUsdcAmount,
+  getCreditBalance,
+  issueCredit,
+  listCreditEntries,
+  telegramAccount,
+  TOPUP_AMOUNT_BASE_UNITS,
+  walletAccount,
+} from "./credits";
+import { decideSettlement } from "./settlementPolicy";
+import { getPaymentOptions } from "./networks";
+import { getPricingConfig, PriceQuote, priceSummary, quoteTelegramSummary } from "./pricing";
+import {
+  claimPayment,
+  getPaymentNonce,
+  getPaymentRecord,
+  listPaymentRecords,
+  PaymentStatus,
+  recordPaymentVerification,
+  recordPolicyDecision,
+  recordSettlementResult,
+  releasePayment,
+} from "./paymentLedger";
 
 const port = Number(process.env.PORT ?? 8787);
 const PUBLIC_KEY = process.env.DISCORD_PUBLIC_KEY;
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN;
 const DISCORD_API_DEFAULT_BASE = "https://discord.com/api/v10";
+const TELEGRAM_API_DEFAULT_ROOT = "https://api.telegram.org";
+const X402_VERSION = 1.0;
+// Setting TELEGRAM_WEBHOOK_SECRET switches the bot from long polling to webhook delivery
+const TELEGRAM_WEBHOOK_SECRET = process.env.TELEGRAM_WEBHOOK_SECRET?.trim() || undefined;
+const TELEGRAM_WEBHOOK_PATH = "/telegram-webhook";
 
-// Payment constants
-const USDC_DECIMALS = 6;
-const DEFAULT_PRICE_USDC = BigInt(50000); // 0.05 USDC (50000 / 10^6)
 const EPHEMERAL_FLAG = 1 << 6;
+const DISCORD_MESSAGE_LIMIT = 2000;
+// MESSAGE context-menu command registered by scripts/register-slash-command.ts
+const SUMMARISE_FROM_HERE_COMMAND = "Summarise from here";
+const SUMMARISE_RANGE_MODAL_PREFIX = "summarise_range:";
 
 function makeEphemeralResponse(message: string): Response {
   return Response.json({
@@ -31,20 +87,276 @@ function makeEphemeralResponse(message: string): Response {
   });
 }
 
-// Clean up expired callbacks every 30 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [token, data] of pendingDiscordCallbacks.entries()) {
-    if (data.expiresAt < now) {
-      pendingDiscordCallbacks.delete(token);
+function getFacilitatorClient() {
+  const facilitatorUrl =
+    process.env.FACILITATOR_URL || "https://facilitator.x402.rs";
+  return useFacilitator({
+    url: facilitatorUrl as `${string}://${string}`,
+  });
+}
+
+// Settles a verified payment and records the outcome against its nonce in the ledger.
+// Returns null when settlement failed; the ledger entry keeps everything needed to retry.
+async function settleLedgerPayment(
+  facilitatorClient: ReturnType<typeof useFacilitator>,
+  nonce: string,
+  payment: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<SettleResponse | null> {
+  try {
+    console.log("[payment] Attempting settlement with:", {
+      nonce,
+      resource: requirements.resource,
+      payTo: requirements.payTo,
+      maxAmountRequired: requirements.maxAmountRequired,
+    });
+    const settlement = await facilitatorClient.settle(payment, requirements);
+
+    if (!settlement.success) {
+      console.error("[payment] Facilitator rejected settlement", settlement);
+      recordSettlementResult(nonce, {
+        success: false,
+        error: settlement.errorReason ?? "settlement_unsuccessful",
+      });
+      return null;
     }
+
+    recordSettlementResult(nonce, {
+      success: true,
+      txHash: settlement.transaction || null,
+    });
+    return settlement;
+  } catch (error: any) {
+    console.error("[payment] Facilitator settlement error", error);
+    console.error("[payment] Settlement error details:", {
+      message: error?.message,
+      name: error?.name,
+      stack: error?.stack?.substring(0, 500),
+    });
+    recordSettlementResult(nonce, {
+      success: false,
+      error: error?.message || String(error),
+    });
+    return null;
+  }
+}
+
+async function readEntrypointResult(response: Response): Promise<any | null> {
+  try {
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+// Quotes a summarise entrypoint call from its JSON body; unreadable input gets the base price
+// and is rejected by the entrypoint's own validation once paid for. Anyone can send these, so
+// Discord requests are quoted as probes, without fetching any history.
+async function quoteEntrypointRequest(
+  req: Request,
+  kind: "discord" | "telegram" | "digest"
+): Promise<PriceQuote> {
+  let body: unknown = null;
+  try {
+    body = await req.clone().json();
+  } catch {
+    body = null;
+  }
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  const input = isObject(body) && isObject(body.input) ? body.input : null;
+  const optionalString = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+  const lookbackValidation =
+    input?.lookbackMinutes === undefined ? null : validateLookback(input.lookbackMinutes);
+  const lookbackMinutes =
+    lookbackValidation && !("error" in lookbackValidation) ? lookbackValidation.minutes : undefined;
+
+  if (kind === "digest") {
+    const serverId = input?.serverId;
+    if (typeof serverId !== "string" || !/^\d+$/.test(serverId)) {
+      return priceSummary({});
+    }
+    return quoteDiscordDigest(
+      {
+        serverId,
+        channelIds: Array.isArray(input?.channelIds) ? input.channelIds.map(String) : undefined,
+        categoryId: optionalString(input?.categoryId),
+        lookbackMinutes: lookbackMinutes ?? 60,
+      },
+      { probe: true }
+    );
+  }
+
+  if (kind === "telegram") {
+    const chatId = input?.chatId;
+    if (typeof chatId !== "string" || !chatId.trim()) {
+      return priceSummary({});
+    }
+    const optionalId = (value: unknown) =>
+      value !== undefined && Number.isInteger(Number(value)) ? Number(value) : undefined;
+    return quoteTelegramSummary(
+      chatId.trim(),
+      {
+        lookbackMinutes: lookbackMinutes ?? 60,
+        threadId: input?.perTopic ? undefined : optionalId(input?.threadId),
+        fromMessageId: optionalId(input?.fromMessageId),
+        toMessageId: optionalId(input?.toMessageId),
+        replyTree: input?.replyTree === true,
+      },
+      input?.perTopic === true
+    );
+  }
+
+  const startMessageUrl = optionalString(input?.startMessageUrl);
+  const endMessageUrl = optionalString(input?.endMessageUrl);
+  if (!input || (lookbackMinutes === undefined && !(startMessageUrl && endMessageUrl))) {
+    return priceSummary({});
   }
-  for (const [token, data] of pendingTelegramCallbacks.entries()) {
-    if (data.expiresAt < now) {
-      pendingTelegramCallbacks.delete(token);
+  return quoteDiscordSummary(
+    {
+      channelId: optionalString(input.channelId),
+      lookbackMinutes,
+      startMessageUrl,
+      endMessageUrl,
+      includeThreads: input.includeThreads === true,
+    },
+    { probe: true }
+  );
+}
+
+// "(N summaries at the base price)" for the top-up page; omitted when summaries are free
+function topUpSummariesNote(): string {
+  const { base } = getPricingConfig();
+  return base > 0n ? ` (${TOPUP_AMOUNT_BASE_UNITS / base} summaries at the base price)` : "";
+}
+
+function isAdminRequest(req: Request): boolean {
+  if (!ADMIN_API_TOKEN) {
+    return false;
+  }
+  // Constant-time, so response timing doesn't reveal how much of a guessed token matched
+  const provided = Buffer.from(req.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${ADMIN_API_TOKEN}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+// `?limit=` on admin listings: undefined when absent, null when not a positive integer
+function parseLimitParam(url: URL): number | undefined | null {
+  const limitParam = url.searchParams.get("limit");
+  if (limitParam === null || limitParam === "") {
+    return undefined;
+  }
+  return /^\d+$/.test(limitParam) && Number(limitParam) > 0 ? Number(limitParam) : null;
+}
+
+// Payment ledger inspection and settlement retries (requires ADMIN_API_TOKEN)
+async function handleAdminPayments(req: Request, url: URL): Promise<Response> {
+  if (!isAdminRequest(req)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const segments = url.pathname.split("/").filter(Boolean); // ["admin", "payments", nonce?, action?]
+  const nonce = segments[2] ? decodeURIComponent(segments[2]) : undefined;
+  const action = segments[3];
+
+  if (!nonce && req.method === "GET") {
+    const limit = parseLimitParam(url);
+    if (limit === null) {
+      return Response.json({ error: "limit must be a positive integer" }, { status: 400 });
     }
+    const records = listPaymentRecords({
+      status: (url.searchParams.get("status") as PaymentStatus | null) ?? undefined,
+      payer: url.searchParams.get("payer") ?? undefined,
+      limit,
+    });
+    return Response.json({ payments: records });
+  }
+
+  if (!nonce) {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const record = getPaymentRecord(nonce);
+  if (!record) {
+    return Response.json({ error: "Payment not found" }, { status: 404 });
+  }
+
+  if (!action && req.method === "GET") {
+    return Response.json({ payment: record });
   }
-}, 30 * 60 * 1000);
+
+  if (action === "settle" && req.method === "POST") {
+    // "verified" covers payments stranded by a crash between the handler and settlement
+    if (record.status !== "settlement_failed" && record.status !== "verified") {
+      return Response.json(
+        { error: `Payment is ${record.status}; only unsettled payments can be retried`, payment: record },
+        { status: 409 }
+      );
+    }
+
+    const payment = exact.evm.decodePayment(record.paymentHeader);
+    payment.x402Version = X402_VERSION;
+    const settlement = await settleLedgerPayment(
+      getFacilitatorClient(),
+      record.nonce,
+      payment,
+      record.requirements
+    );
+
+    // Credit owed on a payment whose settlement failed is only issued once it settles
+    if (settlement && record.payer && record.policyDecision?.startsWith("credit:")) {
+      issueCredit({
+        account: walletAccount(record.payer),
+        amount: BigInt(record.requirements.maxAmountRequired),
+        kind: "refund",
+        network: record.network,
+        reason: record.policyDecision.slice("credit:".length).trim(),
+        paymentNonce: record.nonce,
+      });
+    }
+    if (settlement && record.policyDecision?.startsWith("topup:")) {
+      issueCredit({
+        account: record.policyDecision.slice("topup:".length).trim(),
+        amount: BigInt(record.requirements.maxAmountRequired),
+        kind: "topup",
+        network: record.network,
+        paymentNonce: record.nonce,
+      });
+    }
+
+    return Response.json(
+      { success: Boolean(settlement), payment: getPaymentRecord(record.nonce) },
+      { status: settlement ? 200 : 502 }
+    );
+  }
+
+  return Response.json({ error: "Not found" }, { status: 404 });
+}
+
+// Credit balances and journal entries (requires ADMIN_API_TOKEN)
+function handleAdminCredits(req: Request, url: URL): Response {
+  if (!isAdminRequest(req)) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (req.method !== "GET") {
+    return Response.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const account = url.searchParams.get("account") ?? undefined;
+  const limit = parseLimitParam(url);
+  if (limit === null) {
+    return Response.json({ error: "limit must be a positive integer" }, { status: 400 });
+  }
+  const entries = listCreditEntries({ account, limit });
+
+  return Response.json({
+    account: account ?? null,
+    balance: account ? getCreditBalance(account).toString() : null,
+    entries,
+  });
+}
 
 // Discord signature verification using Ed25519
 function verifyDiscordRequest(
@@ -83,6 +395,278 @@ function verifyDiscordRequest(
   }
 }
 
+type DiscordSummaryRequest = Pick<
+  DiscordCallbackData,
+  | "channelId"
+  | "guildId"
+  | "lookbackMinutes"
+  | "startMessageUrl"
+  | "endMessageUrl"
+  | "includeThreads"
+  | "channelIds"
+  | "categoryId"
+>;
+
+// /digest requests carry a channel allow-list or category instead of a single channel
+function discordDigestInput(request: DiscordSummaryRequest): DiscordDigestInput | null {
+  if (!request.channelIds && !request.categoryId) {
+    return null;
+  }
+  return {
+    serverId: request.guildId ?? "",
+    channelIds: request.channelIds,
+    categoryId: request.categoryId,
+    lookbackMinutes: request.lookbackMinutes,
+  };
+}
+
+// Narrows a /digest to the channels the invoking member can view before it is quoted or run
+async function requestDiscordDigest(interaction: any, request: DiscordSummaryRequest) {
+  const baseUrl = process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
+  const followupUrl = `${baseUrl}/webhooks/${interaction.application_id}/${interaction.token}`;
+
+  let content: string;
+  try {
+    const channelIds = await filterDigestChannelsForViewer(discordDigestInput(request)!, {
+      userId: interaction.member?.user?.id ?? "",
+      roleIds: interaction.member?.roles ?? [],
+    });
+    if (channelIds.length) {
+      await requestDiscordSummary(interaction, { ...request, channelIds, categoryId: undefined });
+      return;
+    }
+    content = "❌ You can't view any of those channels, so there's nothing to digest.";
+  } catch (error) {
+    console.error(`[discord] Could not check digest channel permissions:`, error);
+    content = "❌ Error: Could not check which of those channels you can view.";
+  }
+
+  try {
+    await discordFetch(followupUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content }),
+    });
+  } catch (fetchError) {
+    console.error(`[discord] Failed to send error response:`, fetchError);
+  }
+}
+
+// Runs a deferred summary request in the background - routed through the x402 payment-enabled
+// entrypoint, or paid from the requester's credit - and answers via the interaction follow-up
+async function requestDiscordSummary(interaction: any, request: DiscordSummaryRequest) {
+  const baseUrl = process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
+  const followupUrl = `${baseUrl}/webhooks/${interaction.application_id}/${interaction.token}`;
+  const { channelId, guildId, lookbackMinutes, startMessageUrl, endMessageUrl, includeThreads } =
+    request;
+  const usingMessageLinks = Boolean(startMessageUrl && endMessageUrl);
+  const digest = discordDigestInput(request);
+
+  try {
+    console.log(
+      digest
+        ? `[discord] Digest request: guild=${guildId}, ${
+            digest.categoryId ? `category=${digest.categoryId}` : `channels=${digest.channelIds}`
+          }, minutes=${lookbackMinutes}`
+        : usingMessageLinks
+        ? `[discord] Summarise request: channel=${channelId}, guild=${guildId}, from=${startMessageUrl}, to=${endMessageUrl}`
+        : `[discord] Summarise request: channel=${channelId}, guild=${guildId}, minutes=${lookbackMinutes}`
+    );
+
+    // Call the agent-kit entrypoint (which handles x402 payments)
+    const agentBaseUrl = process.env.AGENT_URL || `https://x402-summariser-production.up.railway.app`;
+    const entrypointUrl = `${agentBaseUrl}/entrypoints/${
+      digest ? "digest%20server" : "summarise%20chat"
+    }/invoke`;
+
+    // Prepaid credit skips the payment link entirely
+    const requesterId: string | undefined =
+      interaction.member?.user?.id ?? interaction.user?.id;
+    if (
+      requesterId &&
+      (await summariseDiscordWithCredit(requesterId, interaction.token, {
+        applicationId: interaction.application_id,
+        ...request,
+        expiresAt: Date.now() + PAYMENT_CALLBACK_EXPIRY_MS,
+      }))
+    ) {
+      console.log(`[discord] Summary paid from prepaid credit for user ${requesterId}`);
+      return;
+    }
+
+    // Make request to entrypoint (without payment headers - it will return payment instructions)
+    const entrypointResponse = await fetch(entrypointUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        input: digest ?? {
+          channelId,
+          serverId: guildId || undefined,
+          lookbackMinutes,
+          startMessageUrl,
+          endMessageUrl,
+          includeThreads,
+        },
+      }),
+    });
+
+    const responseData = await entrypointResponse.json();
+
+    // Check for validation errors
+    if (entrypointResponse.status === 400) {
+      const errorMsg = responseData.error?.issues?.[0]?.message || responseData.error?.message || "Validation error";
+      console.error(`[discord] Entrypoint validation error:`, responseData);
+      await discordFetch(followupUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content: `❌ **Validation Error**\n${errorMsg}\n\nIf this persists, please check Railway logs for details.`,
+        }),
+      });
+      return;
+    }
+
+    // Log the response status for debugging
+    console.log(`[discord] Entrypoint response status: ${entrypointResponse.status}`);
+
+    // Check if payment is required (402 or payment_required error)
+    // Also check if the response indicates payment was needed but wasn't provided
+    let requiresPayment = 
+      entrypointResponse.status === 402 || 
+      responseData.error?.code === "payment_required" ||
+      responseData.payment_required === true ||
+      (entrypointResponse.headers.get("x-payment-required") === "true");
+
+    // If we got a successful response but payment should be required, 
+    // we need to enforce payment manually
+    // Agent-kit may not enforce payment automatically for internal calls
+    // For Discord commands, we should ALWAYS require payment via x402
+    if (entrypointResponse.status === 200 && !requiresPayment) {
+      console.log(`[discord] Entrypoint returned success without payment - enforcing payment requirement for Discord`);
+      requiresPayment = true;
+    }
+
+    if (requiresPayment) {
+      const callbackParam = encodeURIComponent(interaction.token);
+      const windowParams = usingMessageLinks
+        ? `startMessageUrl=${encodeURIComponent(startMessageUrl!)}&endMessageUrl=${encodeURIComponent(endMessageUrl!)}`
+        : `lookbackMinutes=${lookbackMinutes}`;
+      const threadsParam = includeThreads ? "&includeThreads=1" : "";
+      const digestParams = digest?.categoryId
+        ? `categoryId=${digest.categoryId}`
+        : `channelIds=${digest?.channelIds?.join(",")}`;
+      const paymentUrl = digest
+        ? `${agentBaseUrl}/pay?source=digest&serverId=${guildId}&${digestParams}&lookbackMinutes=${lookbackMinutes}&discord_callback=${callbackParam}`
+        : `${agentBaseUrl}/pay?channelId=${channelId}&serverId=${guildId || ""}&${windowParams}${threadsParam}&discord_callback=${callbackParam}`;
+      
+      const quote = digest
+        ? await quoteDiscordDigest(digest)
+        : await quoteDiscordSummary({
+            channelId,
+            lookbackMinutes,
+            startMessageUrl,
+            endMessageUrl,
+            includeThreads,
+          });
+      const price = quote.display;
+      const currency = process.env.PAYMENT_CURRENCY || "USDC";
+      
+      const rangeLine = usingMessageLinks
+        ? `\n\n📍 From [this message](${startMessageUrl}) to [this one](${endMessageUrl}).`
+        : "";
+      const topUpLine = requesterId
+        ? `\n\n💰 **Skip this next time:** [Top up $${formatUsdcAmount(TOPUP_AMOUNT_BASE_UNITS)} of credit](${agentBaseUrl}/pay?source=topup&discordUserId=${requesterId})`
+        : "";
+
+      const paymentMessage = `💳 **Payment Required**
+
+To ${digest ? "digest these channels" : "summarise this channel"}, please pay **$${price} ${currency}** via x402.${rangeLine}
+
+🔗 **Pay & Summarise:** [Click here](${paymentUrl})
+
+After payment, your summary will appear here automatically.${topUpLine}`;
+
+      let paymentMessageId: string | undefined;
+      const followupResponse = await discordFetch(followupUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content: paymentMessage,
+        }),
+      });
+
+      if (!followupResponse.ok) {
+        const errorText = await followupResponse.text();
+        console.error(`[discord] Failed to send follow-up: ${followupResponse.status} ${errorText}`);
+        return;
+      }
+
+      try {
+        const followupData = await followupResponse.json();
+        if (followupData && followupData.id) {
+          paymentMessageId = String(followupData.id);
+        }
+      } catch (jsonError) {
+        console.warn("[discord] Unable to parse follow-up response JSON", jsonError);
+      }
+
+      pendingDiscordCallbacks.set(interaction.token, {
+        applicationId: interaction.application_id,
+        ...request,
+        paymentMessageId,
+        expiresAt: Date.now() + PAYMENT_CALLBACK_EXPIRY_MS,
+      });
+      return;
+    }
+
+    if (!entrypointResponse.ok) {
+      throw new Error(`Entrypoint error: ${entrypointResponse.status} ${JSON.stringify(responseData)}`);
+    }
+
+    // Success - format and send result
+    const output = responseData.output || responseData;
+    let content = `**Summary**\n${output.summary || "No summary available"}\n\n`;
+    
+    console.log(`[discord] Summary completed: ${(output.summary || "").substring(0, 50)}...`);
+
+    const followupResponse = await discordFetch(followupUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        content,
+      }),
+    });
+
+    if (!followupResponse.ok) {
+      const errorText = await followupResponse.text();
+      console.error(`[discord] Failed to send follow-up: ${followupResponse.status} ${errorText}`);
+      throw new Error(`Failed to send response: ${followupResponse.status}`);
+    }
+
+    console.log(`[discord] Successfully sent summary response`);
+  } catch (error: any) {
+    console.error(`[discord] Error processing command:`, error);
+    const errorMsg = error.message || "An error occurred";
+
+    try {
+      const errorResponse = await discordFetch(followupUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          content: `❌ Error: ${errorMsg}`,
+        }),
+      });
+
+      if (!errorResponse.ok) {
+        const errorText = await errorResponse.text();
+        console.error(`[discord] Failed to send error message: ${errorResponse.status} ${errorText}`);
+      }
+    } catch (fetchError) {
+      console.error(`[discord] Failed to send error response:`, fetchError);
+    }
+  }
+}
+
 // Handle Discord interactions
 async function handleDiscordInteraction(req: Request): Promise<Response> {
   try {
@@ -129,6 +713,32 @@ async function handleDiscordInteraction(req: Request): Promise<Response> {
       const channel_id = interaction.channel_id || interaction.channel?.id;
       const guild_id = interaction.guild_id || interaction.guild?.id;
 
+      // MESSAGE context menu: the clicked message starts the range, a modal asks where it ends
+      if (name === SUMMARISE_FROM_HERE_COMMAND && interaction.data?.type === 3) {
+        return Response.json({
+          type: 9, // MODAL
+          data: {
+            custom_id: `${SUMMARISE_RANGE_MODAL_PREFIX}${interaction.data.target_id}`,
+            title: "Summarise from here",
+            components: [
+              {
+                type: 1, // ACTION_ROW
+                components: [
+                  {
+                    type: 4, // TEXT_INPUT
+                    custom_id: "endMessageUrl",
+                    label: "Link to the last message to include",
+                    style: 1, // SHORT
+                    placeholder: "Right-click the message → Copy Message Link",
+                    required: true,
+                  },
+                ],
+              },
+            ],
+          },
+        });
+      }
+
       if (name === "summarise") {
         // Get lookback minutes from options (default: 60)
         const lookbackOption = options?.find((opt: any) => opt.name === "minutes");
@@ -139,12 +749,13 @@ async function handleDiscordInteraction(req: Request): Promise<Response> {
         }
 
         const { minutes: lookbackMinutes } = lookbackValidation;
+        const threadsOption = options?.find((opt: any) => opt.name === "threads");
 
         // Validate required fields
-        if (!channel_id) {
+        if (!channel_id || typeof channel_id !== "string" || channel_id.trim() === "") {
           console.error(`[discord] Missing channel_id in interaction:`, JSON.stringify(interaction, null, 2));
           const followupUrl = `${process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE}/webhooks/${interaction.application_id}/${interaction.token}`;
-          await fetch(followupUrl, {
+          await discordFetch(followupUrl, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
@@ -154,191 +765,523 @@ async function handleDiscordInteraction(req: Request): Promise<Response> {
           return Response.json({ error: "Missing channel_id" }, { status: 400 });
         }
 
-        // Respond immediately with "thinking"
-        const initialResponse = Response.json({
+        // Process in background and respond immediately with "thinking"
+        requestDiscordSummary(interaction, {
+          channelId: channel_id.trim(),
+          guildId: guild_id ?? null,
+          lookbackMinutes,
+          includeThreads: threadsOption?.value === true || undefined,
+        });
+        return Response.json({
           type: 5, // DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE
         });
+      }
 
-        // Process in background - route through x402 payment-enabled entrypoint
-        (async () => {
-          try {
-          console.log(`[discord] Summarise request: channel=${channel_id}, guild=${guild_id}, minutes=${lookbackMinutes}`);
+      if (name === "digest") {
+        if (!guild_id) {
+          return makeEphemeralResponse("❌ /digest summarises a server's channels; run it in a server.");
+        }
 
-          const baseUrl =
-            process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
-          const followupUrl = `${baseUrl}/webhooks/${interaction.application_id}/${interaction.token}`;
+        const lookbackOption = options?.find((opt: any) => opt.name === "minutes");
+        const lookbackValidation = validateLookback(lookbackOption?.value ?? 60);
+        if ("error" in lookbackValidation) {
+          return makeEphemeralResponse(`❌ ${lookbackValidation.error}`);
+        }
 
-          // Call the agent-kit entrypoint (which handles x402 payments)
-          const agentBaseUrl = process.env.AGENT_URL || `https://x402-summariser-production.up.railway.app`;
-          const entrypointUrl = `${agentBaseUrl}/entrypoints/summarise%20chat/invoke`;
+        // `channels` is free text, so accept #mentions (<#id>) as well as bare IDs
+        const channelsOption = options?.find((opt: any) => opt.name === "channels");
+        const categoryOption = options?.find((opt: any) => opt.name === "category");
+        const channelIds = [...new Set<string>(String(channelsOption?.value ?? "").match(/\d{17,20}/g) ?? [])];
+        const categoryId: string | undefined = categoryOption?.value;
+        if (Boolean(channelIds.length) === Boolean(categoryId)) {
+          return makeEphemeralResponse(
+            "❌ Pick a category or list channels (e.g. `#general #dev`), not both."
+          );
+        }
 
-          // Ensure channel_id is valid
-          if (!channel_id || typeof channel_id !== "string" || channel_id.trim() === "") {
-            throw new Error(`Invalid channel_id: ${channel_id}. Please try the command again.`);
-          }
-          // Make request to entrypoint (without payment headers - it will return payment instructions)
-          const entrypointResponse = await fetch(entrypointUrl, {
+        requestDiscordDigest(interaction, {
+          channelId: channel_id ?? "",
+          guildId: guild_id,
+          lookbackMinutes: lookbackValidation.minutes,
+          channelIds: channelIds.length ? channelIds : undefined,
+          categoryId,
+        });
+        return Response.json({
+          type: 5, // DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE
+        });
+      }
+    }
+
+    // Handle MODAL_SUBMIT from "Summarise from here"
+    const modalId: string = interaction.data?.custom_id ?? "";
+    if (interaction.type === 5 && modalId.startsWith(SUMMARISE_RANGE_MODAL_PREFIX)) {
+      const channel_id: string | undefined = interaction.channel_id || interaction.channel?.id;
+      const guild_id: string | null = interaction.guild_id || interaction.guild?.id || null;
+      const startMessageId = modalId.slice(SUMMARISE_RANGE_MODAL_PREFIX.length);
+      const endInput: string = interaction.data.components?.[0]?.components?.[0]?.value ?? "";
+      const endLink = parseDiscordMessageUrl(endInput.trim());
+
+      if (!channel_id || !/^\d+$/.test(startMessageId)) {
+        return makeEphemeralResponse("❌ Error: Could not determine the starting message.");
+      }
+      if (!endLink || endLink.channelId !== channel_id) {
+        return makeEphemeralResponse(
+          "❌ Paste the link of a message in this channel (right-click it → Copy Message Link)."
+        );
+      }
+      if (BigInt(endLink.messageId) < BigInt(startMessageId)) {
+        return makeEphemeralResponse(
+          "❌ The last message must come after the one you chose to summarise from."
+        );
+      }
+
+      requestDiscordSummary(interaction, {
+        channelId: channel_id,
+        guildId: guild_id,
+        startMessageUrl: formatDiscordMessageUrl({
+          guildId: guild_id,
+          channelId: channel_id,
+          messageId: startMessageId,
+        }),
+        endMessageUrl: formatDiscordMessageUrl({ ...endLink, guildId: guild_id }),
+      });
+      return Response.json({
+        type: 5, // DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE
+      });
+    }
+
+    return Response.json({ error: "Unknown interaction type" }, { status: 400 });
+  } catch (error: any) {
+    console.error("[discord] Error handling interaction:", error);
+    return Response.json(
+      { error: "Internal server error", message: error?.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Splits a summary into Discord-sized messages, cutting at a paragraph break where possible,
+// else a line break or space
+function splitDiscordMessage(content: string, limit = DISCORD_MESSAGE_LIMIT): string[] {
+  const parts: string[] = [];
+  let rest = content;
+  while (rest.length > limit) {
+    const window = rest.slice(0, limit + 1);
+    const cut = [window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(" ")].find(
+      (index) => index > 0
+    );
+    parts.push(rest.slice(0, cut ?? limit).trimEnd());
+    rest = rest.slice(cut ?? limit).trimStart();
+  }
+  if (rest) {
+    parts.push(rest);
+  }
+  return parts;
+}
+
+// Posts a paid summary as the interaction follow-up and marks the payment message as paid
+async function deliverDiscordSummary(
+  interactionToken: string,
+  callbackData: DiscordCallbackData,
+  result: any
+): Promise<void> {
+  // Prepare Discord posting - do it with a timeout so we don't block too long
+  const baseUrl = process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
+  const followupUrl = `${baseUrl}/webhooks/${callbackData.applicationId}/${interactionToken}`;
+
+  const output = result?.output || result;
+  
+  // Extract summary, filtering out any payment-related messages that might have leaked in
+  let summary = output?.summary || "No summary available";
+  
+  // Fix greeting if it appears as a bullet point - remove bullet and place on new line
+  summary = summary.replace(/^•\s*(Good (morning|afternoon|evening)![^\n]*)/m, "$1");
+  
+  // Remove any duplicate greeting lines (keep only the first one)
+  const greetingPattern = /^(Good (morning|afternoon|evening)![^\n]*)/m;
+  let firstGreetingIndex = -1;
+  summary = summary.replace(new RegExp(greetingPattern.source, "gm"), (match: string, offset: number) => {
+    if (firstGreetingIndex === -1) {
+      // Keep the first greeting
+      firstGreetingIndex = offset;
+      return match;
+    } else {
+      // Remove subsequent duplicates
+      return "";
+    }
+  }).replace(/\n\n+/g, "\n\n").trim(); // Clean up extra blank lines
+  
+  // Remove "Hello!" style greetings (should use time-based greetings)
+  summary = summary.replace(/^Hello!\s*Here is what happened[^\n]*\n?/im, "");
+  
+  // Remove payment-related prefixes that might have been included in the summary
+  summary = summary
+    .replace(/^✅\s*Payment (Confirmed|Required)\s*\n?\n?/gim, "") // Remove "✅ Payment Confirmed" or "✅ Payment Required" at start
+    .replace(/💳\s*\*\*Payment Required\*\*[\s\S]*?automatically\./gi, "")
+    .replace(/🔗\s*\*\*Pay.*?\n/gi, "")
+    .replace(/https?:\/\/[^\s]*pay[^\s]*/gi, "")
+    .replace(/To summarise this channel, please pay.*?via x402\./gi, "")
+    .trim();
+  
+  // Remove timestamps if they somehow got through
+  summary = summary
+    .replace(/\[\d{4}-\d{2}-\d{2}T[^\]]+\]/g, "") // ISO timestamps
+    .replace(/\[[^\]]*\d{4}[^\]]*\]/g, "") // Any bracketed timestamps
+    .replace(/x402 Summariser[^\n]*\n?/gi, "") // Remove "x402 Summariser:" prefix
+    .trim();
+  
+  if (!summary) {
+    summary = "No material updates or chatter in this window.";
+  }
+  
+  // Server digests can run past one message
+  const parts = splitDiscordMessage(summary.trim());
+  
+  // Send to Discord - try to complete it quickly, but don't block forever
+  // Use Promise.race with a timeout so we return within 5 seconds max
+  try {
+    await Promise.race([
+      (async () => {
+        for (const content of parts) {
+          const followupResponse = await discordFetch(followupUrl, {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              input: {
-                channelId: channel_id.trim(),
-                serverId: guild_id || undefined,
-                lookbackMinutes,
-              },
+              content,
             }),
           });
 
-          const responseData = await entrypointResponse.json();
-
-          // Check for validation errors
-          if (entrypointResponse.status === 400) {
-            const errorMsg = responseData.error?.issues?.[0]?.message || responseData.error?.message || "Validation error";
-            console.error(`[discord] Entrypoint validation error:`, responseData);
-            await fetch(followupUrl, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                content: `❌ **Validation Error**\n${errorMsg}\n\nIf this persists, please check Railway logs for details.`,
-              }),
-            });
+          if (!followupResponse.ok) {
+            const errorText = await followupResponse.text();
+            console.error(`[discord] Failed to send callback result: ${followupResponse.status} ${errorText}`);
             return;
           }
+        }
 
-          // Log the response status for debugging
-          console.log(`[discord] Entrypoint response status: ${entrypointResponse.status}`);
-
-          // Check if payment is required (402 or payment_required error)
-          // Also check if the response indicates payment was needed but wasn't provided
-          let requiresPayment = 
-            entrypointResponse.status === 402 || 
-            responseData.error?.code === "payment_required" ||
-            responseData.payment_required === true ||
-            (entrypointResponse.headers.get("x-payment-required") === "true");
-
-          // If we got a successful response but payment should be required, 
-          // we need to enforce payment manually
-          // Agent-kit may not enforce payment automatically for internal calls
-          // For Discord commands, we should ALWAYS require payment via x402
-          if (entrypointResponse.status === 200 && !requiresPayment) {
-            console.log(`[discord] Entrypoint returned success without payment - enforcing payment requirement for Discord`);
-            requiresPayment = true;
+        if (callbackData.paymentMessageId) {
+          const editUrl = `${followupUrl}/messages/${callbackData.paymentMessageId}`;
+          const editResponse = await discordFetch(editUrl, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              content: "✅ Payment received. Summary posted below.",
+            }),
+          });
+
+          if (!editResponse.ok) {
+            const editError = await editResponse.text();
+            console.warn(`[discord] Failed to edit payment message: ${editResponse.status} ${editError}`);
           }
+        }
 
-          if (requiresPayment) {
-            const callbackParam = encodeURIComponent(interaction.token);
-            const paymentUrl = `${agentBaseUrl}/pay?channelId=${channel_id}&serverId=${guild_id || ""}&lookbackMinutes=${lookbackMinutes}&discord_callback=${callbackParam}`;
-            
-            // Get price from entrypoint config or default
-            const price = process.env.ENTRYPOINT_PRICE || "0.05";
-            const currency = process.env.PAYMENT_CURRENCY || "USDC";
-            
-            const paymentMessage = `💳 **Payment Required**
+        console.log(`[discord] Successfully sent callback result to Discord`);
+      })(),
+      new Promise((_, reject) => 
+        setTimeout(() => reject(new Error("Discord API timeout")), 5000)
+      )
+    ]);
+  } catch (error: any) {
+    // If timeout or error, log it but still return success
+    // The background task will continue if it hasn't been garbage collected
+    console.error("[discord] Error or timeout posting to Discord:", error);
+    // Fire off a background task to retry if needed
+    setTimeout(async () => {
+      try {
+        for (const content of parts) {
+          const retryResponse = await discordFetch(followupUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ content }),
+          });
+          if (!retryResponse.ok) {
+            return;
+          }
+        }
+        console.log(`[discord] Successfully sent callback result on retry`);
+      } catch (retryError) {
+        console.error("[discord] Retry also failed:", retryError);
+      }
+    }, 100);
+  }
+}
 
-To summarise this channel, please pay **$${price} ${currency}** via x402.
+function telegramApiUrl(botToken: string, method: string) {
+  const apiRoot = process.env.TELEGRAM_API_ROOT ?? TELEGRAM_API_DEFAULT_ROOT;
+  return `${apiRoot}/bot${botToken}/${method}`;
+}
 
-🔗 **Pay & Summarise:** [Click here](${paymentUrl})
+function sendTelegramMessage(botToken: string, body: Record<string, unknown>) {
+  return fetch(telegramApiUrl(botToken, "sendMessage"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
 
-After payment, your summary will appear here automatically.`;
+// Sends HTML split across as many messages as Telegram's length limit needs. Returns the first
+// rejected response, or the last one when every part went through.
+async function sendTelegramHtml(
+  botToken: string,
+  target: Record<string, unknown>,
+  html: string
+): Promise<Response> {
+  let response: Response | undefined;
+  for (const part of splitTelegramHtml(html)) {
+    response = await sendTelegramMessage(botToken, { ...target, text: part, parse_mode: "HTML" });
+    if (response.status === 400) {
+      // Markup Telegram can't parse shouldn't cost the requester their summary; send it plain
+      const parseError = await response.text();
+      console.warn(`[telegram] HTML message rejected, resending as plain text: ${parseError}`);
+      response = await sendTelegramMessage(botToken, { ...target, text: telegramHtmlToText(part) });
+    }
+    if (!response.ok) break;
+  }
+  // Nothing to split only happens for blank text, which Telegram rejects with a clear error
+  return response ?? sendTelegramMessage(botToken, { ...target, text: html });
+}
 
-            let paymentMessageId: string | undefined;
-            const followupResponse = await fetch(followupUrl, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                content: paymentMessage,
-              }),
-            });
+// Posts a paid summary into the chat (or privately to the requester, for /summarise_dm) and
+// removes the inline payment message
+async function deliverTelegramSummary(
+  botToken: string,
+  callbackData: TelegramCallbackData,
+  result: any
+): Promise<void> {
+  const output = result?.output || result;
+  let summary = (output?.summary || output?.text || "").trim();
+  
+  // Debug logging
+  console.log(`[telegram-callback] Raw result keys:`, Object.keys(result || {}));
+  console.log(`[telegram-callback] Raw output keys:`, Object.keys(output || {}));
+  console.log(`[telegram-callback] Raw summary length: ${summary.length}`);
+  console.log(`[telegram-callback] Summary preview: ${summary.substring(0, 200)}`);
+  
+  // Fix greeting if it appears as a bullet point - remove bullet and place on new line
+  summary = summary.replace(/^•\s*(Good (morning|afternoon|evening)![^\n]*)/m, "$1");
+  
+  // Remove any duplicate greeting lines (keep only the first one)
+  const greetingPattern = /^(Good (morning|afternoon|evening)![^\n]*)/m;
+  let firstGreetingIndex = -1;
+  summary = summary.replace(new RegExp(greetingPattern.source, "gm"), (match: string, offset: number) => {
+    if (firstGreetingIndex === -1) {
+      // Keep the first greeting
+      firstGreetingIndex = offset;
+      return match;
+    } else {
+      // Remove subsequent duplicates
+      return "";
+    }
+  }).replace(/\n\n+/g, "\n\n").trim(); // Clean up extra blank lines
+  
+  // Remove "Hello!" style greetings (should use time-based greetings)
+  summary = summary.replace(/^Hello!\s*Here is what happened[^\n]*\n?/im, "");
+  
+  // Remove payment-related prefixes that might have been included in the summary
+  summary = summary
+    .replace(/^✅\s*Payment (Confirmed|Required)\s*\n?\n?/gim, "") // Remove "✅ Payment Confirmed" or "✅ Payment Required" at start
+    .replace(/💳\s*\*\*Payment Required\*\*[\s\S]*?automatically\./gi, "")
+    .replace(/🔗\s*\*\*Pay.*?\n/gi, "")
+    .replace(/https?:\/\/[^\s]*pay[^\s]*/gi, "")
+    .replace(/To summarise this channel, please pay.*?via x402\./gi, "")
+    .trim();
+  
+  console.log(`[telegram-callback] Summary after cleaning length: ${summary.length}`);
+  
+  if (!summary) {
+    console.warn(`[telegram-callback] Summary was empty after cleaning, using fallback message`);
+    summary = "No material updates or chatter in this window.";
+  }
 
-            if (!followupResponse.ok) {
-              const errorText = await followupResponse.text();
-              console.error(`[discord] Failed to send follow-up: ${followupResponse.status} ${errorText}`);
-              return;
-            }
+  const messageText = summary.trim();
+  const summaryHtml = renderTelegramHtml(messageText);
+  const groupTarget = {
+    chat_id: callbackData.chatId,
+    message_thread_id: callbackData.threadId ?? undefined,
+  };
+  const privateRecipient = callbackData.deliverPrivately ? callbackData.userId ?? undefined : undefined;
+  const primaryTarget = privateRecipient !== undefined ? { chat_id: privateRecipient } : groupTarget;
+  const primaryHtml =
+    privateRecipient !== undefined
+      ? `🔒 Summary of ${escapeTelegramHtml(callbackData.chatTitle ?? "your group")}\n\n${summaryHtml}`
+      : summaryHtml;
+
+  // Bots can only message users who started a chat with them (and haven't blocked them since).
+  // The summary never goes to the group instead: it is held until they press Start, and the group
+  // only hears how to get it.
+  const deliver = async () => {
+    let sendResponse = await sendTelegramHtml(botToken, primaryTarget, primaryHtml);
+
+    if (!sendResponse.ok && privateRecipient !== undefined) {
+      const dmError = await sendResponse.text();
+      console.warn(`[telegram] Private delivery to ${privateRecipient} failed: ${sendResponse.status} ${dmError}`);
+      const held = heldTelegramSummaries.get(String(privateRecipient));
+      heldTelegramSummaries.set(String(privateRecipient), {
+        summaries: [...(held?.summaries ?? []), primaryHtml],
+        expiresAt: Date.now() + HELD_SUMMARY_EXPIRY_MS,
+      });
+      const requester = callbackData.username ? `@${callbackData.username}` : "The requester";
+      sendResponse = await sendTelegramHtml(
+        botToken,
+        groupTarget,
+        `⚠️ ${escapeTelegramHtml(requester)} asked for this summary privately, but I can't ` +
+          `message them yet. Open a private chat with me and press Start, and I'll send it there.`
+      );
+    }
 
-            try {
-              const followupData = await followupResponse.json();
-              if (followupData && followupData.id) {
-                paymentMessageId = String(followupData.id);
-              }
-            } catch (jsonError) {
-              console.warn("[discord] Unable to parse follow-up response JSON", jsonError);
-            }
+    if (!sendResponse.ok) {
+      const errorText = await sendResponse.text();
+      console.error(`[telegram] Failed to send message: ${sendResponse.status} ${errorText}`);
+      return;
+    }
 
-            pendingDiscordCallbacks.set(interaction.token, {
-              applicationId: interaction.application_id,
-              channelId: channel_id,
-              guildId: guild_id,
-              lookbackMinutes,
-              paymentMessageId,
-              expiresAt: Date.now() + PAYMENT_CALLBACK_EXPIRY_MS,
-            });
-            return;
-          }
+    if (callbackData.paymentMessageId) {
+      const deleteUrl = telegramApiUrl(botToken, "deleteMessage");
+      const deleteResponse = await fetch(deleteUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: callbackData.chatId,
+          message_id: callbackData.paymentMessageId,
+        }),
+      });
 
-          if (!entrypointResponse.ok) {
-            throw new Error(`Entrypoint error: ${entrypointResponse.status} ${JSON.stringify(responseData)}`);
-          }
+      if (!deleteResponse.ok) {
+        const deleteError = await deleteResponse.text();
+        console.warn(`[telegram] Failed to delete payment message: ${deleteResponse.status} ${deleteError}`);
+      }
+    }
 
-          // Success - format and send result
-          const output = responseData.output || responseData;
-          let content = `**Summary**\n${output.summary || "No summary available"}\n\n`;
-          
-          console.log(`[discord] Summary completed: ${(output.summary || "").substring(0, 50)}...`);
+    console.log(`[telegram] Successfully sent callback result to chat ${primaryTarget.chat_id}`);
+  };
 
-          const followupResponse = await fetch(followupUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              content,
-            }),
-          });
+  // Try to complete it quickly, but don't block the callback forever. A slow delivery keeps going
+  // in the background; only one that failed outright is retried, through the same DM-or-hold path
+  const delivery = deliver();
+  const timeout = new Promise<"timeout">((resolve) => setTimeout(() => resolve("timeout"), 5000));
+  try {
+    if ((await Promise.race([delivery, timeout])) === "timeout") {
+      console.warn("[telegram] Delivery is taking a while; letting it finish in the background");
+      delivery.catch((error) => console.error("[telegram] Delivery failed:", error));
+    }
+  } catch (error) {
+    console.error("[telegram] Error posting to Telegram:", error);
+    setTimeout(() => {
+      deliver().catch((retryError) => console.error("[telegram] Retry also failed:", retryError));
+    }, 100);
+  }
+}
 
-          if (!followupResponse.ok) {
-            const errorText = await followupResponse.text();
-            console.error(`[discord] Failed to send follow-up: ${followupResponse.status} ${errorText}`);
-            throw new Error(`Failed to send response: ${followupResponse.status}`);
-          }
+// Runs a Discord summary against the requester's prepaid balance instead of a payment link.
+// Returns false without spending anything when the balance can't cover it.
+async function summariseDiscordWithCredit(
+  userId: string,
+  interactionToken: string,
+  callbackData: DiscordCallbackData
+): Promise<boolean> {
+  const account = discordAccount(userId);
+  const digest = discordDigestInput(callbackData);
+  const { amount: price } = digest
+    ? await quoteDiscordDigest(digest)
+    : await quoteDiscordSummary({
+        channelId: callbackData.channelId,
+        lookbackMinutes: callbackData.lookbackMinutes,
+        startMessageUrl: callbackData.startMessageUrl,
+        endMessageUrl: callbackData.endMessageUrl,
+        includeThreads: callbackData.includeThreads,
+      });
+  // Refunds go back to the network the credit was spent from
+  const network = debitCredits({
+    account,
+    amount: price,
+    kind: "debit",
+    reason: digest
+      ? `discord digest ${digest.serverId}`
+      : `discord summary ${callbackData.channelId}`,
+  });
+  if (!network) {
+    return false;
+  }
 
-          console.log(`[discord] Successfully sent summary response`);
-        } catch (error: any) {
-          console.error(`[discord] Error processing command:`, error);
-          const errorMsg = error.message || "An error occurred";
-          const baseUrl =
-            process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
-          const followupUrl = `${baseUrl}/webhooks/${interaction.application_id}/${interaction.token}`;
+  let output;
+  try {
+    output = digest
+      ? await executeDiscordDigest(digest)
+      : await executeSummariseChat({
+          channelId: callbackData.channelId,
+          serverId: callbackData.guildId ?? undefined,
+          lookbackMinutes: callbackData.lookbackMinutes,
+          startMessageUrl: callbackData.startMessageUrl,
+          endMessageUrl: callbackData.endMessageUrl,
+          includeThreads: callbackData.includeThreads,
+        });
+  } catch (error) {
+    issueCredit({ account, amount: price, kind: "refund", network, reason: "summary failed" });
+    throw error;
+  }
 
-          try {
-            const errorResponse = await fetch(followupUrl, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                content: `❌ Error: ${errorMsg}`,
-              }),
-            });
+  // Same policy as paid summaries: degraded output is handed back as credit
+  const decision = decideSettlement(output.model);
+  if (decision.action !== "settle") {
+    issueCredit({ account, amount: price, kind: "refund", network, reason: decision.reason });
+  }
 
-            if (!errorResponse.ok) {
-              const errorText = await errorResponse.text();
-              console.error(`[discord] Failed to send error message: ${errorResponse.status} ${errorText}`);
-            }
-          } catch (fetchError) {
-            console.error(`[discord] Failed to send error response:`, fetchError);
-          }
-        }
-        })();
+  await deliverDiscordSummary(interactionToken, callbackData, { output });
+  return true;
+}
 
-        return initialResponse;
-      }
-    }
+async function summariseTelegramWithCredit(
+  userId: number,
+  callbackData: TelegramCallbackData
+): Promise<boolean> {
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) {
+    return false;
+  }
 
-    return Response.json({ error: "Unknown interaction type" }, { status: 400 });
-  } catch (error: any) {
-    console.error("[discord] Error handling interaction:", error);
-    return Response.json(
-      { error: "Internal server error", message: error?.message },
-      { status: 500 }
-    );
+  const account = telegramAccount(userId);
+  const { amount: price } = await quoteTelegramSummary(
+    callbackData.chatId,
+    {
+      lookbackMinutes: callbackData.lookbackMinutes,
+      threadId: callbackData.perTopic ? undefined : callbackData.threadId ?? undefined,
+      fromMessageId: callbackData.fromMessageId,
+      replyTree: callbackData.replyTree,
+    },
+    callbackData.perTopic
+  );
+  // Refunds go back to the network the credit was spent from
+  const network = debitCredits({
+    account,
+    amount: price,
+    kind: "debit",
+    reason: `telegram summary ${callbackData.chatId}`,
+  });
+  if (!network) {
+    return false;
   }
+
+  let result;
+  try {
+    result = await executeSummariseTelegramChat({
+      chatId: String(callbackData.chatId),
+      lookbackMinutes: callbackData.lookbackMinutes,
+      threadId: callbackData.threadId ?? undefined,
+      perTopic: callbackData.perTopic,
+      fromMessageId: callbackData.fromMessageId,
+      replyTree: callbackData.replyTree,
+    });
+  } catch (error) {
+    issueCredit({ account, amount: price, kind: "refund", network, reason: "summary failed" });
+    throw error;
+  }
+
+  const decision = decideSettlement(result.model);
+  if (decision.action !== "settle") {
+    issueCredit({ account, amount: price, kind: "refund", network, reason: decision.reason });
+  }
+
+  await deliverTelegramSummary(botToken, callbackData, result);
+  return true;
 }
 
 // Handle Discord callback after payment
@@ -354,127 +1297,14 @@ async function handleDiscordCallback(req: Request): Promise<Response> {
     // Decode the token (it was URL-encoded when passed in the payment URL)
     const decodedToken = decodeURIComponent(discord_token);
     
-    const callbackData = pendingDiscordCallbacks.get(decodedToken);
+    // Remove from pending immediately so the token can't be redeemed twice
+    const callbackData = pendingDiscordCallbacks.take(decodedToken);
     if (!callbackData) {
       console.error(`[discord-callback] Token not found or expired: ${decodedToken.substring(0, 30)}...`);
       return Response.json({ error: "Invalid or expired callback token" }, { status: 404 });
     }
 
-    // Remove from pending immediately
-    pendingDiscordCallbacks.delete(decodedToken);
-
-    // Prepare Discord posting - do it with a timeout so we don't block too long
-    const baseUrl = process.env.DISCORD_API_BASE_URL ?? DISCORD_API_DEFAULT_BASE;
-    const followupUrl = `${baseUrl}/webhooks/${callbackData.applicationId}/${decodedToken}`;
-
-    const output = result?.output || result;
-    
-    // Extract summary, filtering out any payment-related messages that might have leaked in
-    let summary = output?.summary || "No summary available";
-    
-    // Fix greeting if it appears as a bullet point - remove bullet and place on new line
-    summary = summary.replace(/^•\s*(Good (morning|afternoon|evening)![^\n]*)/m, "$1");
-    
-    // Remove any duplicate greeting lines (keep only the first one)
-    const greetingPattern = /^(Good (morning|afternoon|evening)![^\n]*)/m;
-    let firstGreetingIndex = -1;
-    summary = summary.replace(new RegExp(greetingPattern.source, "gm"), (match: string, offset: number) => {
-      if (firstGreetingIndex === -1) {
-        // Keep the first greeting
-        firstGreetingIndex = offset;
-        return match;
-      } else {
-        // Remove subsequent duplicates
-        return "";
-      }
-    }).replace(/\n\n+/g, "\n\n").trim(); // Clean up extra blank lines
-    
-    // Remove "Hello!" style greetings (should use time-based greetings)
-    summary = summary.replace(/^Hello!\s*Here is what happened[^\n]*\n?/im, "");
-    
-    // Remove payment-related prefixes that might have been included in the summary
-    summary = summary
-      .replace(/^✅\s*Payment (Confirmed|Required)\s*\n?\n?/gim, "") // Remove "✅ Payment Confirmed" or "✅ Payment Required" at start
-      .replace(/💳\s*\*\*Payment Required\*\*[\s\S]*?automatically\./gi, "")
-      .replace(/🔗\s*\*\*Pay.*?\n/gi, "")
-      .replace(/https?:\/\/[^\s]*pay[^\s]*/gi, "")
-      .replace(/To summarise this channel, please pay.*?via x402\./gi, "")
-      .trim();
-    
-    // Remove timestamps if they somehow got through
-    summary = summary
-      .replace(/\[\d{4}-\d{2}-\d{2}T[^\]]+\]/g, "") // ISO timestamps
-      .replace(/\[[^\]]*\d{4}[^\]]*\]/g, "") // Any bracketed timestamps
-      .replace(/x402 Summariser[^\n]*\n?/gi, "") // Remove "x402 Summariser:" prefix
-      .trim();
-    
-    if (!summary) {
-      summary = "No material updates or chatter in this window.";
-    }
-    
-    const content = summary.trim();
-    
-    // Send to Discord - try to complete it quickly, but don't block forever
-    // Use Promise.race with a timeout so we return within 5 seconds max
-    try {
-      await Promise.race([
-        (async () => {
-          const followupResponse = await fetch(followupUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              content,
-            }),
-          });
-
-          if (!followupResponse.ok) {
-            const errorText = await followupResponse.text();
-            console.error(`[discord] Failed to send callback result: ${followupResponse.status} ${errorText}`);
-            return;
-          }
-
-          if (callbackData.paymentMessageId) {
-            const editUrl = `${followupUrl}/messages/${callbackData.paymentMessageId}`;
-            const editResponse = await fetch(editUrl, {
-              method: "PATCH",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                content: "✅ Payment received. Summary posted below.",
-              }),
-            });
-
-            if (!editResponse.ok) {
-              const editError = await editResponse.text();
-              console.warn(`[discord] Failed to edit payment message: ${editResponse.status} ${editError}`);
-            }
-          }
-
-          console.log(`[discord] Successfully sent callback result to Discord`);
-        })(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("Discord API timeout")), 5000)
-        )
-      ]);
-    } catch (error: any) {
-      // If timeout or error, log it but still return success
-      // The background task will continue if it hasn't been garbage collected
-      console.error("[discord] Error or timeout posting to Discord:", error);
-      // Fire off a background task to retry if needed
-      setTimeout(async () => {
-        try {
-          const retryResponse = await fetch(followupUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ content }),
-          });
-          if (retryResponse.ok) {
-            console.log(`[discord] Successfully sent callback result on retry`);
-          }
-        } catch (retryError) {
-          console.error("[discord] Retry also failed:", retryError);
-        }
-      }, 100);
-    }
+    await deliverDiscordSummary(decodedToken, callbackData, result);
 
     // Return success
     return Response.json({ success: true });
@@ -497,133 +1327,20 @@ async function handleTelegramCallback(req: Request): Promise<Response> {
     }
 
     const decodedToken = decodeURIComponent(telegram_token);
-    const callbackData = pendingTelegramCallbacks.get(decodedToken);
+    // Remove from pending immediately so the token can't be redeemed twice
+    const callbackData = pendingTelegramCallbacks.take(decodedToken);
     if (!callbackData) {
       console.error(`[telegram-callback] Token not found or expired: ${decodedToken.substring(0, 30)}...`);
       return Response.json({ error: "Invalid or expired callback token" }, { status: 404 });
     }
 
-    // Remove from pending immediately
-    pendingTelegramCallbacks.delete(decodedToken);
-
     const botToken = process.env.TELEGRAM_BOT_TOKEN;
     if (!botToken) {
       console.error("[telegram] TELEGRAM_BOT_TOKEN not set");
       return Response.json({ error: "Telegram bot token missing" }, { status: 500 });
     }
 
-    const output = result?.output || result;
-    let summary = (output?.summary || output?.text || "").trim();
-    
-    // Debug logging
-    console.log(`[telegram-callback] Raw result keys:`, Object.keys(result || {}));
-    console.log(`[telegram-callback] Raw output keys:`, Object.keys(output || {}));
-    console.log(`[telegram-callback] Raw summary length: ${summary.length}`);
-    console.log(`[telegram-callback] Summary preview: ${summary.substring(0, 200)}`);
-    
-    // Fix greeting if it appears as a bullet point - remove bullet and place on new line
-    summary = summary.replace(/^•\s*(Good (morning|afternoon|evening)![^\n]*)/m, "$1");
-    
-    // Remove any duplicate greeting lines (keep only the first one)
-    const greetingPattern = /^(Good (morning|afternoon|evening)![^\n]*)/m;
-    let firstGreetingIndex = -1;
-    summary = summary.replace(new RegExp(greetingPattern.source, "gm"), (match: string, offset: number) => {
-      if (firstGreetingIndex === -1) {
-        // Keep the first greeting
-        firstGreetingIndex = offset;
-        return match;
-      } else {
-        // Remove subsequent duplicates
-        return "";
-      }
-    }).replace(/\n\n+/g, "\n\n").trim(); // Clean up extra blank lines
-    
-    // Remove "Hello!" style greetings (should use time-based greetings)
-    summary = summary.replace(/^Hello!\s*Here is what happened[^\n]*\n?/im, "");
-    
-    // Remove payment-related prefixes that might have been included in the summary
-    summary = summary
-      .replace(/^✅\s*Payment (Confirmed|Required)\s*\n?\n?/gim, "") // Remove "✅ Payment Confirmed" or "✅ Payment Required" at start
-      .replace(/💳\s*\*\*Payment Required\*\*[\s\S]*?automatically\./gi, "")
-      .replace(/🔗\s*\*\*Pay.*?\n/gi, "")
-      .replace(/https?:\/\/[^\s]*pay[^\s]*/gi, "")
-      .replace(/To summarise this channel, please pay.*?via x402\./gi, "")
-      .trim();
-    
-    console.log(`[telegram-callback] Summary after cleaning length: ${summary.length}`);
-    
-    if (!summary) {
-      console.warn(`[telegram-callback] Summary was empty after cleaning, using fallback message`);
-      summary = "No material updates or chatter in this window.";
-    }
-
-    const messageText = summary.trim();
-
-    // Send to Telegram - try to complete it quickly, but don't block forever
-    try {
-      await Promise.race([
-        (async () => {
-          const sendUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
-          const sendResponse = await fetch(sendUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              chat_id: callbackData.chatId,
-              text: messageText,
-            }),
-          });
-
-          if (!sendResponse.ok) {
-            const errorText = await sendResponse.text();
-            console.error(`[telegram] Failed to send message: ${sendResponse.status} ${errorText}`);
-            return;
-          }
-
-          if (callbackData.paymentMessageId) {
-            const deleteUrl = `https://api.telegram.org/bot${botToken}/deleteMessage`;
-            const deleteResponse = await fetch(deleteUrl, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                chat_id: callbackData.chatId,
-                message_id: callbackData.paymentMessageId,
-              }),
-            });
-
-            if (!deleteResponse.ok) {
-              const deleteError = await deleteResponse.text();
-              console.warn(`[telegram] Failed to delete payment message: ${deleteResponse.status} ${deleteError}`);
-            }
-          }
-
-          console.log(`[telegram] Successfully sent callback result to chat ${callbackData.chatId}`);
-        })(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("Telegram API timeout")), 5000)
-        )
-      ]);
-    } catch (error: any) {
-      // If timeout or error, log it but still return success
-      console.error("[telegram] Error or timeout posting to Telegram:", error);
-      // Fire off a background task to retry if needed
-      setTimeout(async () => {
-        try {
-          const retryResponse = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              chat_id: callbackData.chatId,
-              text: messageText,
-            }),
-          });
-          if (retryResponse.ok) {
-            console.log(`[telegram] Successfully sent callback result on retry`);
-          }
-        } catch (retryError) {
-          console.error("[telegram] Retry also failed:", retryError);
-        }
-      }, 100);
-    }
+    await deliverTelegramSummary(botToken, callbackData, result);
 
     // Return success
     return Response.json({ success: true });
@@ -636,6 +1353,9 @@ async function handleTelegramCallback(req: Request): Promise<Response> {
   }
 }
 
+// Set once the bot is up in webhook mode; until then /telegram-webhook answers 404
+let telegramWebhookHandler: ((req: Request) => Promise<Response>) | null = null;
+
 const server = Bun.serve({
   port,
   async fetch(req) {
@@ -670,6 +1390,21 @@ const server = Bun.serve({
       return handleTelegramCallback(req);
     }
 
+    if (url.pathname === TELEGRAM_WEBHOOK_PATH && req.method === "POST") {
+      if (!telegramWebhookHandler) {
+        return Response.json({ error: "Telegram webhook mode is not enabled" }, { status: 404 });
+      }
+      return telegramWebhookHandler(req);
+    }
+
+    if (url.pathname === "/admin/payments" || url.pathname.startsWith("/admin/payments/")) {
+      return handleAdminPayments(req, url);
+    }
+
+    if (url.pathname === "/admin/credits") {
+      return handleAdminCredits(req, url);
+    }
+
     // Handle logo.png with or without query parameters (for cache-busting)
     if (url.pathname === "/assets/logo.png" && req.method === "GET") {
       try {
@@ -740,7 +1475,7 @@ const server = Bun.serve({
   </g>
   <g transform="translate(420 215)">
     <text x="0" y="0" font-family="'Inter', 'Segoe UI', system-ui, sans-serif" font-size="72" font-weight="700" fill="#f8fafc">x402 Summariser Bot</text>
-    <text x="0" y="96" font-family="'Inter', 'Segoe UI', system-ui, sans-serif" font-size="34" fill="rgba(226,232,240,0.88)">Summarise your Discord &amp; Telegram chats for $0.05 via x402.</text>
+    <text x="0" y="96" font-family="'Inter', 'Segoe UI', system-ui, sans-serif" font-size="34" fill="rgba(226,232,240,0.88)">Summarise your Discord &amp; Telegram chats from $${formatUsdcAmount(getPricingConfig().base)} via x402.</text>
   </g>
 </svg>`;
       return new Response(svg, {
@@ -760,51 +1495,239 @@ const server = Bun.serve({
       const lookbackMinutesParam = url.searchParams.get("lookbackMinutes");
       const discordCallback = url.searchParams.get("discord_callback");
       const telegramCallback = url.searchParams.get("telegram_callback");
+      const discordUserId = url.searchParams.get("discordUserId");
+      const telegramUserId = url.searchParams.get("telegramUserId");
+      const threadIdParam = url.searchParams.get("threadId");
+      const perTopic = url.searchParams.get("perTopic") === "1";
+      const fromMessageIdParam = url.searchParams.get("fromMessageId");
+      const replyTree = url.searchParams.get("replyTree") === "1";
+      const startMessageUrlParam = url.searchParams.get("startMessageUrl");
+      const endMessageUrlParam = url.searchParams.get("endMessageUrl");
+      const channelIdsParam = url.searchParams.get("channelIds");
+      const categoryId = url.searchParams.get("categoryId");
 
       const usingTelegram = source === "telegram";
-      const primaryId = usingTelegram ? chatId : channelId;
+      const usingTopUp = source === "topup";
+      const usingDigest = source === "digest";
+      const usingDiscordChannel = !usingTelegram && !usingTopUp && !usingDigest;
+      // Discord only: also summarise threads and forum posts from the window
+      const includeThreads =
+        usingDiscordChannel && url.searchParams.get("includeThreads") === "1";
+      // /digest: a comma-separated channel allow-list or a category, within serverId
+      const channelIds = channelIdsParam ? channelIdsParam.split(",") : undefined;
+      if (
+        usingDigest &&
+        (!serverId ||
+          !/^\d+$/.test(serverId) ||
+          Boolean(channelIds) === Boolean(categoryId) ||
+          (categoryId !== null && !/^\d+$/.test(categoryId)) ||
+          channelIds?.some((id) => !/^\d+$/.test(id)))
+      ) {
+        return Response.json({ error: "Invalid digest parameters" }, { status: 400 });
+      }
 
-      if (!primaryId || lookbackMinutesParam === null) {
+      if (usingTopUp) {
+        if (
+          (discordUserId && !/^\d+$/.test(discordUserId)) ||
+          (telegramUserId && !/^\d+$/.test(telegramUserId))
+        ) {
+          return Response.json({ error: "Invalid account parameters" }, { status: 400 });
+        }
+      }
+      if (threadIdParam !== null && !/^\d+$/.test(threadIdParam)) {
+        return Response.json({ error: "Invalid threadId" }, { status: 400 });
+      }
+      const threadId = threadIdParam === null || perTopic ? undefined : Number(threadIdParam);
+      if (fromMessageIdParam !== null && !/^\d+$/.test(fromMessageIdParam)) {
+        return Response.json({ error: "Invalid fromMessageId" }, { status: 400 });
+      }
+      // Telegram message ranges stand in for the lookback window
+      const fromMessageId =
+        usingTelegram && fromMessageIdParam !== null ? Number(fromMessageIdParam) : undefined;
+      // Discord ranges ("Summarise from here") are a pair of message links; they are rebuilt from
+      // their parsed parts so only well-formed links reach the page
+      const startLink = startMessageUrlParam ? parseDiscordMessageUrl(startMessageUrlParam) : null;
+      const endLink = endMessageUrlParam ? parseDiscordMessageUrl(endMessageUrlParam) : null;
+      if (
+        (startMessageUrlParam !== null || endMessageUrlParam !== null) &&
+        (!startLink ||
+          !endLink ||
+          startLink.channelId !== endLink.channelId ||
+          (channelId !== null && channelId !== startLink.channelId))
+      ) {
+        return Response.json({ error: "Invalid message links" }, { status: 400 });
+      }
+      const messageRange =
+        usingDiscordChannel && startLink && endLink
+          ? {
+              startMessageUrl: formatDiscordMessageUrl(startLink),
+              endMessageUrl: formatDiscordMessageUrl(endLink),
+            }
+          : undefined;
+
+      const primaryId = usingTopUp
+        ? discordUserId
+          ? `Discord user ${discordUserId}`
+          : telegramUserId
+          ? `Telegram user ${telegramUserId}`
+          : "Paying wallet"
+        : usingTelegram
+        ? chatId
+        : usingDigest
+        ? serverId
+        : channelId ?? startLink?.channelId;
+
+      const usingMessageRange = fromMessageId !== undefined || messageRange !== undefined;
+      if (!primaryId || (!usingTopUp && lookbackMinutesParam === null && !usingMessageRange)) {
         return Response.json({ error: "Missing required parameters" }, { status: 400 });
       }
 
-      const lookbackValidation = validateLookback(lookbackMinutesParam);
-      if ("error" in lookbackValidation) {
-        return Response.json({ error: lookbackValidation.error }, { status: 400 });
+      let lookbackMinutes: number | null = null;
+      if (!usingTopUp && !usingMessageRange) {
+        const lookbackValidation = validateLookback(lookbackMinutesParam);
+        if ("error" in lookbackValidation) {
+          return Response.json({ error: lookbackValidation.error }, { status: 400 });
+        }
+        lookbackMinutes = lookbackValidation.minutes;
       }
 
-      const { minutes: lookbackMinutes } = lookbackValidation;
-
       const agentBaseUrl =
         process.env.AGENT_URL || `https://x402-summariser-production.up.railway.app`;
-      const entrypointPath = usingTelegram
+      const entrypointPath = usingTopUp
+        ? "top%20up%20credits"
+        : usingTelegram
         ? "summarise%20telegram%20chat"
+        : usingDigest
+        ? "digest%20server"
         : "summarise%20chat";
       const entrypointUrl = `${agentBaseUrl}/entrypoints/${entrypointPath}/invoke`;
-      const price = process.env.ENTRYPOINT_PRICE || "0.05";
+      // This page is public, so Discord requests are quoted as probes like the 402 it leads to
+      const quote = usingTopUp
+        ? null
+        : usingTelegram
+        ? await quoteTelegramSummary(
+            primaryId,
+            { lookbackMinutes: lookbackMinutes ?? undefined, threadId, fromMessageId, replyTree },
+            perTopic
+          )
+        : usingDigest
+        ? await quoteDiscordDigest(
+            {
+              serverId: primaryId,
+              channelIds,
+              categoryId: categoryId ?? undefined,
+              lookbackMinutes: lookbackMinutes ?? undefined,
+            },
+            { probe: true }
+          )
+        : await quoteDiscordSummary(
+            {
+              channelId: primaryId,
+              lookbackMinutes: lookbackMinutes ?? undefined,
+              ...messageRange,
+              includeThreads,
+            },
+            { probe: true }
+          );
+      const amount = quote ? quote.amount : TOPUP_AMOUNT_BASE_UNITS;
+      const price = formatUsdcAmount(amount);
       const currency = process.env.PAYMENT_CURRENCY || "USDC";
+      const maxAmount = amount.toString();
 
-      const heading = usingTelegram
+      const heading = usingTopUp
+        ? "💰 Top Up Summary Credits"
+        : usingTelegram
         ? "🪙 Summarise Telegram Chat"
+        : usingDigest
+        ? "🪙 Digest Discord Server"
         : "🪙 Summarise Discord Channel";
-      const entityLabel = usingTelegram ? "Chat ID" : "Channel ID";
-      const postPaymentPrompt = usingTelegram
+      const entityLabel = usingTopUp
+        ? "Account"
+        : usingTelegram
+        ? "Chat ID"
+        : usingDigest
+        ? "Server ID"
+        : "Channel ID";
+      const postPaymentPrompt = usingTopUp
+        ? "After payment, /summarise is paid from your credit balance until it runs out."
+        : usingTelegram
         ? "After payment, your summary will automatically appear in Telegram."
         : "After payment, your summary will automatically appear in Discord.";
+      const detailLine =
+        fromMessageId !== undefined
+          ? replyTree
+            ? `<p><strong>Messages:</strong> replies to message #${fromMessageId}</p>`
+            : `<p><strong>Messages:</strong> from message #${fromMessageId} to now</p>`
+          : messageRange
+          ? `<p><strong>Messages:</strong> from <a href="${messageRange.startMessageUrl}">this message</a> to <a href="${messageRange.endMessageUrl}">this one</a></p>`
+          : lookbackMinutes !== null
+          ? `<p><strong>Lookback:</strong> ${lookbackMinutes} minutes</p>`
+          : `<p><strong>Credit:</strong> $${price} ${currency}${topUpSummariesNote()}</p>`;
+      const topicLine = usingDigest
+        ? categoryId
+          ? `<p><strong>Category:</strong> ${categoryId}</p>`
+          : `<p><strong>Channels:</strong> ${channelIds!.length}, one section each</p>`
+        : !usingTelegram
+        ? includeThreads
+          ? `<p><strong>Threads:</strong> included, grouped by thread</p>`
+          : ""
+        : perTopic
+        ? `<p><strong>Topics:</strong> every topic, summarised separately</p>`
+        : threadId !== undefined
+        ? `<p><strong>Topic:</strong> #${threadId}</p>`
+        : "";
 
       // Ensure HTTPS origin
       const origin = url.origin.replace(/^http:/, "https:");
       const logoUrl = `${origin}/assets/logo.png`;
 
+      const paymentOptions = getPaymentOptions();
+      const networkPicker =
+        paymentOptions.length > 1
+          ? `<label for="network" style="display: block; margin-top: 12px;"><strong>Pay with:</strong>
+        <select id="network" style="margin-left: 8px; padding: 6px 10px; border-radius: 6px;">
+          ${paymentOptions
+            .map((option) => `<option value="${option.network}">${option.label}</option>`)
+            .join("")}
+        </select>
+      </label>`
+          : `<p><strong>Network:</strong> ${paymentOptions[0].label}</p>`;
+
       const pageConfig = {
         source,
         channelId,
         chatId,
         serverId,
+        threadId: threadId ?? null,
+        perTopic,
         lookbackMinutes,
+        fromMessageId: fromMessageId ?? null,
+        replyTree,
+        startMessageUrl: messageRange?.startMessageUrl ?? null,
+        endMessageUrl: messageRange?.endMessageUrl ?? null,
+        includeThreads,
+        channelIds: channelIds ?? null,
+        categoryId,
         entrypointUrl,
         discordCallback,
         telegramCallback,
+        maxAmount,
+        paymentOptions: paymentOptions.map((option) => ({
+          network: option.network,
+          label: option.label,
+          chainId: option.chainId,
+          chainName: option.chainName,
+          viemChain: option.viemChain,
+          rpcUrl: option.rpcUrl,
+          explorerUrl: option.explorerUrl,
+          asset: option.asset,
+        })),
+        topUpInput: usingTopUp
+          ? {
+              discordUserId: discordUserId || undefined,
+              telegramUserId: telegramUserId || undefined,
+            }
+          : null,
       };
 
       return new Response(`<!DOCTYPE html>
@@ -882,7 +1805,9 @@ const server = Bun.serve({
     <div class="info">
       <p><strong>Price:</strong> $${price} ${currency}</p>
       <p><strong>${entityLabel}:</strong> ${primaryId}</p>
-      <p><strong>Lookback:</strong> ${lookbackMinutes} minutes</p>
+      ${detailLine}
+      ${topicLine}
+      ${networkPicker}
     </div>
     <p style="text-align: center; color: #cbd5f5;">Click below to pay via x402. ${postPaymentPrompt}</p>
     <button class="button" onclick="pay()">Pay $${price} ${currency}</button>
@@ -908,8 +1833,14 @@ const server = Bun.serve({
     let wrapFetchWithPayment;
     let createWalletClient;
     let custom;
-    let base;
+    let chains;
     let moduleLoaded = false;
+
+    function selectedPaymentOption() {
+      const picker = document.getElementById('network');
+      const network = picker ? picker.value : PAGE_CONFIG.paymentOptions[0].network;
+      return PAGE_CONFIG.paymentOptions.find((option) => option.network === network) || PAGE_CONFIG.paymentOptions[0];
+    }
     
     // Load x402-fetch and viem using import map (esm.sh with bundle flag handles dependencies)
     (async () => {
@@ -922,13 +1853,13 @@ const server = Bun.serve({
         wrapFetchWithPayment = x402Module.wrapFetchWithPayment;
         createWalletClient = viemModule.createWalletClient;
         custom = viemModule.custom;
-        base = chainsModule.base;
+        chains = chainsModule;
         
-        if (wrapFetchWithPayment && createWalletClient && custom && base) {
+        if (wrapFetchWithPayment && createWalletClient && custom && chains) {
           console.log('✅ x402-fetch and viem loaded successfully');
           moduleLoaded = true;
         } else {
-          console.error('❌ Missing exports. wrapFetchWithPayment:', !!wrapFetchWithPayment, 'createWalletClient:', !!createWalletClient, 'custom:', !!custom, 'base:', !!base);
+          console.error('❌ Missing exports. wrapFetchWithPayment:', !!wrapFetchWithPayment, 'createWalletClient:', !!createWalletClient, 'custom:', !!custom, 'chains:', !!chains);
         }
       } catch (importError) {
         console.error('❌ Failed to import modules:', importError);
@@ -946,12 +1877,13 @@ const server = Bun.serve({
         await new Promise(resolve => setTimeout(resolve, 500));
       }
       
-      if (!wrapFetchWithPayment || !createWalletClient || !custom || !base) {
+      if (!wrapFetchWithPayment || !createWalletClient || !custom || !chains) {
         status.innerHTML = '<p style="color: red;">⚠️ Error: Could not load payment libraries.</p><p style="font-size: 12px; color: #666;">Please refresh the page and try again.</p>';
         console.error('❌ Required modules not available. wrapFetchWithPayment:', !!wrapFetchWithPayment, 'createWalletClient:', !!createWalletClient);
         return;
       }
       
+      const paymentOption = selectedPaymentOption();
       status.innerHTML = '<p>🔌 Connecting wallet...</p>';
       
       try {
@@ -976,58 +1908,58 @@ const server = Bun.serve({
             
             accountAddress = accounts[0];
             
-            // Ensure we're on Base network (required for payment)
+            // Ensure the wallet is on the network the payer picked (x402-fetch selects the matching requirement by chain)
             status.innerHTML = '<p>🔗 Checking network...</p>';
-            const BASE_CHAIN_ID = 8453;
-            const BASE_CHAIN_ID_HEX = '0x' + BASE_CHAIN_ID.toString(16);
+            const CHAIN_ID = paymentOption.chainId;
+            const CHAIN_ID_HEX = '0x' + CHAIN_ID.toString(16);
+            const CHAIN_NAME = paymentOption.chainName;
             
             try {
               const currentChainIdHex = await walletProvider.request({ method: 'eth_chainId' });
               const currentChainId = parseInt(currentChainIdHex, 16);
               
-              if (currentChainId !== BASE_CHAIN_ID) {
-                status.innerHTML = '<p>⚠️ Switching to Base network...</p>';
-                console.warn('⚠️ Wrong network. Current:', currentChainId, 'Required:', BASE_CHAIN_ID);
+              if (currentChainId !== CHAIN_ID) {
+                status.innerHTML = '<p>⚠️ Switching to ' + CHAIN_NAME + ' network...</p>';
+                console.warn('⚠️ Wrong network. Current:', currentChainId, 'Required:', CHAIN_ID);
                 
                 try {
-                  // Try to switch to Base network
                   await walletProvider.request({
                     method: 'wallet_switchEthereumChain',
-                    params: [{ chainId: BASE_CHAIN_ID_HEX }],
+                    params: [{ chainId: CHAIN_ID_HEX }],
                   });
-                  status.innerHTML = '<p>✅ Switched to Base network</p>';
+                  status.innerHTML = '<p>✅ Switched to ' + CHAIN_NAME + ' network</p>';
                 } catch (switchError) {
                   // If the error is 4902, the chain is not added to MetaMask
                   if (switchError.code === 4902) {
-                    console.warn('⚠️ Base network not found in wallet. Adding...');
-                    status.innerHTML = '<p>➕ Adding Base network to wallet...</p>';
+                    console.warn('⚠️ ' + CHAIN_NAME + ' network not found in wallet. Adding...');
+                    status.innerHTML = '<p>➕ Adding ' + CHAIN_NAME + ' network to wallet...</p>';
                     
                     await walletProvider.request({
                       method: 'wallet_addEthereumChain',
                       params: [{
-                        chainId: BASE_CHAIN_ID_HEX,
-                        chainName: 'Base',
+                        chainId: CHAIN_ID_HEX,
+                        chainName: CHAIN_NAME,
                         nativeCurrency: {
                           name: 'Ethereum',
                           symbol: 'ETH',
                           decimals: 18
                         },
-                        rpcUrls: ['https://mainnet.base.org'],
-                        blockExplorerUrls: ['https://basescan.org']
+                        rpcUrls: [paymentOption.rpcUrl],
+                        blockExplorerUrls: [paymentOption.explorerUrl]
                       }],
                     });
                   } else if (switchError.code === 4001) {
-                    throw new Error('Network switch rejected. Please switch to Base network manually in MetaMask.');
+                    throw new Error('Network switch rejected. Please switch to ' + CHAIN_NAME + ' network manually in MetaMask.');
                   } else {
-                    throw new Error('Failed to switch network. Please switch to Base network manually in MetaMask.');
+                    throw new Error('Failed to switch network. Please switch to ' + CHAIN_NAME + ' network manually in MetaMask.');
                   }
                 }
               } else {
-                status.innerHTML = '<p>✅ Already on Base network</p>';
+                status.innerHTML = '<p>✅ Already on ' + CHAIN_NAME + ' network</p>';
               }
             } catch (networkError) {
               console.error('❌ Network check error:', networkError);
-              throw new Error('Network error: ' + (networkError.message || 'Please ensure you are on Base network'));
+              throw new Error('Network error: ' + (networkError.message || 'Please ensure you are on ' + CHAIN_NAME + ' network'));
             }
           } catch (connError) {
             if (connError.code === 4001) {
@@ -1040,29 +1972,45 @@ const server = Bun.serve({
         // Create a viem wallet client (x402-fetch expects this format)
         const walletClient = createWalletClient({
           account: accountAddress,
-          chain: base,
+          chain: chains[paymentOption.viemChain],
           transport: custom(walletProvider)
         });
         
         // Wrap fetch with payment handling (pass viem wallet client)
-        // maxValue: 0.05 USDC = 50000 (6 decimals)
+        // maxValue is the page's price in USDC base units (6 decimals)
         // Note: x402 uses EIP-3009 for gasless transactions - facilitator pays gas
-        const x402Fetch = wrapFetchWithPayment(fetch, walletClient, BigInt(50000));
+        const x402Fetch = wrapFetchWithPayment(fetch, walletClient, BigInt(cfg.maxAmount));
         
         const entrypointUrl = cfg.entrypointUrl;
         
         status.innerHTML = '<p>🪙 Processing payment (gasless via facilitator)...</p>';
         
-        const requestInput = cfg.source === 'telegram'
+        const requestInput = cfg.source === 'topup'
+          ? cfg.topUpInput
+          : cfg.source === 'digest'
+          ? {
+              serverId: cfg.serverId,
+              channelIds: cfg.channelIds ?? undefined,
+              categoryId: cfg.categoryId ?? undefined,
+              lookbackMinutes: cfg.lookbackMinutes
+            }
+          : cfg.source === 'telegram'
           ? {
               chatId: cfg.chatId,
-              lookbackMinutes: cfg.lookbackMinutes,
+              lookbackMinutes: cfg.lookbackMinutes ?? undefined,
+              threadId: cfg.threadId ?? undefined,
+              perTopic: cfg.perTopic || undefined,
+              fromMessageId: cfg.fromMessageId ?? undefined,
+              replyTree: cfg.replyTree || undefined,
               source: 'telegram'
             }
           : {
               channelId: cfg.channelId,
               serverId: cfg.serverId || undefined,
-              lookbackMinutes: cfg.lookbackMinutes
+              lookbackMinutes: cfg.lookbackMinutes ?? undefined,
+              startMessageUrl: cfg.startMessageUrl ?? undefined,
+              endMessageUrl: cfg.endMessageUrl ?? undefined,
+              includeThreads: cfg.includeThreads || undefined
             };
 
         console.log('📋 Request details:', {
@@ -1072,7 +2020,7 @@ const server = Bun.serve({
         });
         
         // Check USDC balance before payment to verify transaction processing
-        const USDC_ADDRESS = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'; // USDC on Base
+        const USDC_ADDRESS = paymentOption.asset;
         let balanceBefore = null;
         try {
           // ERC-20 balanceOf(address) - function selector: 0x70a08231
@@ -1188,18 +2136,21 @@ const server = Bun.serve({
         
         const successMarkup = (hash) => {
           const destination = cfg.source === 'telegram' ? 'Telegram' : 'Discord';
+          const nextStep = cfg.source === 'topup'
+            ? 'Credit added. Your next /summarise will be paid from your balance.'
+            : 'Check ' + destination + ' for your summary.';
           if (!hash) {
             return '<div style="color: #117a39;">' +
               '<p style="font-size: 20px; margin: 0 0 8px;">✅ Payment complete!</p>' +
-              '<p style="font-size: 13px; color: #1f5132; margin: 0;">Check ' + destination + ' for your summary.</p>' +
+              '<p style="font-size: 13px; color: #1f5132; margin: 0;">' + nextStep + '</p>' +
               '</div>';
           }
 
-          const explorer = 'https://basescan.org/tx/' + hash;
+          const explorer = paymentOption.explorerUrl + '/tx/' + hash;
           return '<div style="color: #117a39;">' +
             '<p style="font-size: 20px; margin: 0 0 8px;">✅ Payment complete!</p>' +
-            '<p style="margin: 0 0 12px;">View on BaseScan: <a href="' + explorer + '" target="_blank" rel="noopener" style="color: #0b5e27;">' + hash + '</a></p>' +
-            '<p style="font-size: 13px; color: #1f5132; margin: 0;">Check ' + destination + ' for your summary.</p>' +
+            '<p style="margin: 0 0 12px;">View on ' + paymentOption.chainName + ' explorer: <a href="' + explorer + '" target="_blank" rel="noopener" style="color: #0b5e27;">' + hash + '</a></p>' +
+            '<p style="font-size: 13px; color: #1f5132; margin: 0;">' + nextStep + '</p>' +
             '</div>';
         };
 
@@ -1275,9 +2226,9 @@ const server = Bun.serve({
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1">
   <title>x402 Summariser Bot</title>
-  <meta name="description" content="Summarise your Discord & Telegram chats for $0.05 via x402.">
+  <meta name="description" content="Summarise your Discord & Telegram chats from $${formatUsdcAmount(getPricingConfig().base)} via x402.">
   <meta property="og:title" content="x402 Summariser Bot">
-  <meta property="og:description" content="Summarise your Discord & Telegram chats for $0.05 via x402.">
+  <meta property="og:description" content="Summarise your Discord & Telegram chats from $${formatUsdcAmount(getPricingConfig().base)} via x402.">
   <meta property="og:type" content="website">
   <meta property="og:url" content="${origin}/download">
   <meta property="og:image" content="${ogImageUrl}">
@@ -1286,7 +2237,7 @@ const server = Bun.serve({
   <meta property="og:image:height" content="630">
   <meta name="twitter:card" content="summary_large_image">
   <meta name="twitter:title" content="x402 Summariser Bot">
-  <meta name="twitter:description" content="Summarise your Discord & Telegram chats for $0.05 via x402.">
+  <meta name="twitter:description" content="Summarise your Discord & Telegram chats from $${formatUsdcAmount(getPricingConfig().base)} via x402.">
   <meta name="twitter:image" content="${ogImageUrl}">
   <style>
     :root {
@@ -1513,44 +2464,58 @@ const server = Bun.serve({
         url.pathname.includes("summarise%20chat") ||
         url.pathname.includes("summarise chat") ||
         url.pathname.includes("summarise%20telegram%20chat") ||
-        url.pathname.includes("summarise telegram chat");
-      if (isSummariseEndpoint) {
+        url.pathname.includes("summarise telegram chat") ||
+        url.pathname.includes("digest%20server") ||
+        url.pathname.includes("digest server");
+      const isTopUpEndpoint =
+        url.pathname.includes("top%20up%20credits") ||
+        url.pathname.includes("top up credits");
+      if (isSummariseEndpoint || isTopUpEndpoint) {
         const hasPaymentHeader = req.headers.get("X-PAYMENT");
         console.log(`[payment] Entrypoint called: ${url.pathname}`);
 
-        const sourceLabel = url.pathname.includes("telegram")
+        const quoteKind = url.pathname.includes("telegram")
+          ? "telegram"
+          : url.pathname.includes("digest")
+          ? "digest"
+          : "discord";
+        const sourceLabel = isTopUpEndpoint
+          ? "Top up summary credits"
+          : quoteKind === "telegram"
           ? "Summarise Telegram chat"
+          : quoteKind === "digest"
+          ? "Digest Discord server"
           : "Summarise Discord channel";
 
         const payToAddress = (
           process.env.PAY_TO || "0x1b0006dbfbf4d8ec99cd7c40c43566eaa7d95fed"
         ).toLowerCase();
-        const facilitatorUrl =
-          process.env.FACILITATOR_URL || "https://facilitator.x402.rs";
         const agentBaseUrl =
           process.env.AGENT_URL || `https://x402-summariser-production.up.railway.app`;
         const fullEntrypointUrl =
           agentBaseUrl + url.pathname + (url.search ? url.search : "");
-        const price = process.env.ENTRYPOINT_PRICE || "0.05";
+        const amountRequired = isTopUpEndpoint
+          ? TOPUP_AMOUNT_BASE_UNITS
+          : (await quoteEntrypointRequest(req, quoteKind)).amount;
+        const price = formatUsdcAmount(amountRequired);
         const currency = process.env.PAYMENT_CURRENCY || "USDC";
-        const x402Version = 1.0;
+        const x402Version = X402_VERSION;
 
-        const paymentRequirement = {
+        const paymentRequirements = getPaymentOptions().map((option) => ({
           scheme: "exact" as const,
           resource: fullEntrypointUrl,
           description: `${sourceLabel} - Pay $${price} ${currency}`,
           mimeType: "application/json",
           payTo: payToAddress,
-          maxAmountRequired: "50000",
+          maxAmountRequired: amountRequired.toString(),
           maxTimeoutSeconds: 300,
-          network: "base" as const,
-          asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+          network: option.network,
+          asset: option.asset,
           extra: {
-            name: "USD Coin",
-            version: "2",
+            name: option.assetName,
+            version: option.assetVersion,
           },
-        };
-        const paymentRequirements = [paymentRequirement];
+        }));
 
         if (!hasPaymentHeader) {
           console.log(`[payment] Returning 402 Payment Required for: ${fullEntrypointUrl}`);
@@ -1596,9 +2561,28 @@ const server = Bun.serve({
           );
         }
 
-        const facilitatorClient = useFacilitator({
-          url: facilitatorUrl as `${string}://${string}`,
+        const paymentNonce = getPaymentNonce(decodedPayment);
+        const claim = claimPayment({
+          payment: decodedPayment,
+          paymentHeader: hasPaymentHeader,
+          requirements: selectedPaymentRequirements,
         });
+
+        if (!claim.claimed) {
+          console.warn(
+            `[payment] Rejecting replayed payment nonce ${paymentNonce} (already ${claim.record.status})`
+          );
+          return Response.json(
+            {
+              error: "Payment has already been used",
+              accepts: paymentRequirements,
+              x402Version,
+            },
+            { status: 402 }
+          );
+        }
+
+        const facilitatorClient = getFacilitatorClient();
         let verification;
         try {
           verification = await facilitatorClient.verify(
@@ -1607,6 +2591,7 @@ const server = Bun.serve({
           );
         } catch (error) {
           console.error("[payment] Facilitator verification error", error);
+          recordPaymentVerification(paymentNonce, null, "verify_error");
           return Response.json(
             {
               error: "Failed to verify payment",
@@ -1619,6 +2604,7 @@ const server = Bun.serve({
 
         if (!verification.isValid) {
           console.error("[payment] Payment verification failed", verification);
+          recordPaymentVerification(paymentNonce, verification, "invalid");
           return Response.json(
             {
               error: verification.invalidReason || "Payment verification failed",
@@ -1630,48 +2616,139 @@ const server = Bun.serve({
           );
         }
 
+        recordPaymentVerification(paymentNonce, verification, "verified");
+
         const appResponse = await app.fetch(req);
 
         if (appResponse.status >= 400) {
+          // Nothing was delivered, so the payment is never settled and may be reused
+          releasePayment(paymentNonce);
           return appResponse;
         }
 
         const appResponseClone = appResponse.clone();
-        let settlement;
-        let settlementError = false;
-        try {
-          console.log("[payment] Attempting settlement with:", {
-            decodedPaymentKeys: Object.keys(decodedPayment),
-            selectedRequirementsKeys: Object.keys(selectedPaymentRequirements),
-            resource: selectedPaymentRequirements.resource,
-            payTo: selectedPaymentRequirements.payTo,
-            maxAmountRequired: selectedPaymentRequirements.maxAmountRequired,
+        const appResult = await readEntrypointResult(appResponse.clone());
+        // Entrypoints report which path produced their output (LLM, fallback, error) in `model`
+        const outputModel = typeof appResult?.model === "string" ? appResult.model : null;
+        const decision = decideSettlement(outputModel);
+        const paymentAmount = BigInt(selectedPaymentRequirements.maxAmountRequired);
+        const payerAddress = verification.payer ?? claim.record.payer;
+        const payerAccount = payerAddress ? walletAccount(payerAddress) : null;
+
+        const headers = new Headers(appResponse.headers);
+
+        if (isTopUpEndpoint) {
+          // Top-ups always settle; the entrypoint names the account, defaulting to the paying wallet
+          const topUpAccount: string | null = appResult?.output?.account ?? payerAccount;
+          recordPolicyDecision(paymentNonce, {
+            outputModel,
+            decision: topUpAccount ? `topup: ${topUpAccount}` : "settle",
           });
-          settlement = await facilitatorClient.settle(
+
+          const settlement = await settleLedgerPayment(
+            facilitatorClient,
+            paymentNonce,
             decodedPayment,
             selectedPaymentRequirements
           );
-        } catch (error: any) {
-          console.error("[payment] Facilitator settlement error", error);
-          console.error("[payment] Settlement error details:", {
-            message: error?.message,
-            name: error?.name,
-            stack: error?.stack?.substring(0, 500),
-          });
-          settlementError = true;
-          // Continue with response even if settlement fails - payment was already verified
-          console.warn("[payment] ⚠️ WARNING: Settlement failed - payment may not have been processed!");
-          console.warn("[payment] Proceeding with response despite settlement error - payment was verified");
-        }
 
-        const headers = new Headers(appResponse.headers);
-        
-        if (!settlementError && settlement && settlement.success) {
-          const settlementHeader = settleResponseHeader(settlement);
-          console.log(`[payment] Settlement succeeded:`, settlement);
-          headers.set("X-PAYMENT-RESPONSE", settlementHeader);
+          if (settlement) {
+            headers.set("X-PAYMENT-RESPONSE", settleResponseHeader(settlement));
+            headers.set("X-PAYMENT-STATUS", "settled");
+            if (topUpAccount) {
+              issueCredit({
+                account: topUpAccount,
+                amount: paymentAmount,
+                kind: "topup",
+                network: selectedPaymentRequirements.network,
+                paymentNonce,
+              });
+            }
+          } else {
+            console.warn(
+              `[payment] ⚠️ WARNING: Top-up settlement failed for nonce ${paymentNonce} - credit will be issued when it is retried`
+            );
+            headers.set("X-PAYMENT-STATUS", "settlement_failed");
+          }
+        } else if (decision.action === "skip") {
+          console.warn(`[payment] Skipping settlement for nonce ${paymentNonce}: ${decision.reason}`);
+          recordPolicyDecision(paymentNonce, {
+            outputModel,
+            decision: `skip: ${decision.reason}`,
+            status: "waived",
+          });
+          headers.set("X-PAYMENT-STATUS", "waived");
+        } else if (
+          payerAccount &&
+          decision.action === "credit" &&
+          getCreditBalance(payerAccount, selectedPaymentRequirements.network) >= paymentAmount
+        ) {
+          // Degraded output paid for with credit: leave both the payment and the credit untouched
+          recordPolicyDecision(paymentNonce, {
+            outputModel,
+            decision: `waive: ${decision.reason} (credit not spent)`,
+            status: "waived",
+          });
+          headers.set("X-PAYMENT-STATUS", "waived");
+        } else if (
+          payerAccount &&
+          debitCredits({
+            account: payerAccount,
+            amount: paymentAmount,
+            kind: "redeem",
+            network: selectedPaymentRequirements.network,
+            reason: `summary ${selectedPaymentRequirements.resource}`,
+            paymentNonce,
+          })
+        ) {
+          console.log(`[payment] Nonce ${paymentNonce} covered by credit for ${payerAccount}`);
+          recordPolicyDecision(paymentNonce, {
+            outputModel,
+            decision: "redeemed credit",
+            status: "paid_with_credit",
+          });
+          headers.set("X-PAYMENT-STATUS", "paid_with_credit");
         } else {
-          console.warn("[payment] Settlement failed or skipped - proceeding without settlement header");
+          const creditReason =
+            decision.action === "credit" && payerAccount ? decision.reason : null;
+          recordPolicyDecision(paymentNonce, {
+            outputModel,
+            decision: creditReason ? `credit: ${creditReason}` : "settle",
+          });
+
+          const settlement = await settleLedgerPayment(
+            facilitatorClient,
+            paymentNonce,
+            decodedPayment,
+            selectedPaymentRequirements
+          );
+
+          if (settlement) {
+            const settlementHeader = settleResponseHeader(settlement);
+            console.log(`[payment] Settlement succeeded:`, settlement);
+            headers.set("X-PAYMENT-RESPONSE", settlementHeader);
+            headers.set("X-PAYMENT-STATUS", "settled");
+
+            if (creditReason && payerAccount) {
+              // Charged for a degraded summary: hand the amount back as credit for the next /summarise
+              issueCredit({
+                account: payerAccount,
+                amount: paymentAmount,
+                kind: "refund",
+                network: selectedPaymentRequirements.network,
+                reason: creditReason,
+                paymentNonce,
+              });
+              headers.set("X-PAYMENT-STATUS", "credited");
+            }
+          } else {
+            // Continue with response even if settlement fails - payment was already verified.
+            // The ledger keeps the signed payment (and the credit owed) so it can be retried via /admin/payments.
+            console.warn(
+              `[payment] ⚠️ WARNING: Settlement failed for nonce ${paymentNonce} - recorded as settlement_failed for retry`
+            );
+            headers.set("X-PAYMENT-STATUS", "settlement_failed");
+          }
         }
         
         const responseWithHeader = new Response(appResponse.body, {
@@ -1753,14 +2830,38 @@ if (telegramToken) {
       const bot = createTelegramBot({
         token: telegramToken,
         baseUrl: publicBaseUrl,
+        apiRoot: process.env.TELEGRAM_API_ROOT,
+        summariseWithCredit: summariseTelegramWithCredit,
       });
-      await bot.start();
+
+      if (TELEGRAM_WEBHOOK_SECRET) {
+        // Telegram pushes updates to us, so no getUpdates poller has to hold the bot token
+        const webhookUrl =
+          process.env.TELEGRAM_WEBHOOK_URL || `${publicBaseUrl}${TELEGRAM_WEBHOOK_PATH}`;
+        await bot.init();
+        telegramWebhookHandler = webhookCallback(bot, "std/http", {
+          secretToken: TELEGRAM_WEBHOOK_SECRET,
+          // Paid-from-credit summaries can outlast Telegram's patience; answer and keep working
+          // rather than have the update redelivered
+          onTimeout: "return",
+        });
+        await bot.api.setWebhook(webhookUrl, {
+          secret_token: TELEGRAM_WEBHOOK_SECRET,
+          allowed_updates: [...TELEGRAM_ALLOWED_UPDATES],
+        });
+        console.log(`🤖 Telegram summariser bot ready (webhook: ${webhookUrl})`);
+        return;
+      }
+
+      // Long polling for local development; bot.start() removes any registered webhook first
+      await bot.start({ allowed_updates: [...TELEGRAM_ALLOWED_UPDATES] });
       console.log("🤖 Telegram summariser bot ready");
     } catch (err: any) {
       // Handle 409 conflict gracefully (multiple instances running)
       if (err?.error_code === 409) {
         console.warn("[telegram] Bot already running elsewhere (409 conflict). Skipping local bot start.");
         console.warn("[telegram] This is normal if the bot is running on Railway or in another terminal.");
+        console.warn("[telegram] Set TELEGRAM_WEBHOOK_SECRET to run several instances behind a webhook.");
         return;
       }
       console.error("[telegram] Failed to start bot", err);
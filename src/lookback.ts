@@ -22,3 +22,90 @@ export function validateLookback(rawValue: unknown) {
   return { minutes } as const;
 }
 
+// Minutes-of-day clock in LOOKBACK_TIMEZONE (an IANA zone, default: the server's), so "today"
+// and "since 9am" mean the chat's local day rather than UTC
+function minutesSinceMidnight(now: Date): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone: process.env.LOOKBACK_TIMEZONE || undefined,
+  }).formatToParts(now);
+  const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+const DURATION_PATTERN =
+  /^(?:(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours))?\s*(?:(\d+)\s*(?:m|min|mins|minute|minutes))?$/;
+const CLOCK_PATTERN = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/;
+
+function parseClockTime(value: string): number | null {
+  const match = value.match(CLOCK_PATTERN);
+  if (!match) return null;
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  const meridiem = match[3];
+  // A bare hour like "since 9" is ambiguous with a count, so require a colon or am/pm
+  if (!meridiem && match[2] === undefined) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+  return hour * 60 + minute;
+}
+
+// "today" and "since 9am" name a start rather than a length, so past the limit they're cut to
+// the most recent MAX_LOOKBACK_MINUTES (and flagged) instead of refused
+function clampLookback(minutes: number) {
+  if (minutes > MAX_LOOKBACK_MINUTES) {
+    return { minutes: MAX_LOOKBACK_MINUTES, clamped: true } as const;
+  }
+  return validateLookback(Math.max(1, minutes));
+}
+
+// Accepts "60" (minutes), "90m", "2h", "1h30m", "1.5 hours", "since 9am", "since 14:30" and
+// "today", then applies the same limits as validateLookback (clamping "today" and "since")
+export function parseLookback(rawValue: string, now: Date = new Date()) {
+  const value = rawValue.trim().toLowerCase();
+
+  if (/^\d+$/.test(value)) {
+    return validateLookback(value);
+  }
+
+  if (value === "today") {
+    return clampLookback(minutesSinceMidnight(now));
+  }
+
+  if (value.startsWith("since ")) {
+    const clock = parseClockTime(value.slice("since ".length).trim());
+    if (clock === null) {
+      return {
+        error: `Couldn't read "${rawValue.trim()}". Try "since 9am" or "since 14:30".`,
+      } as const;
+    }
+    // The most recent occurrence of that time: earlier today, or yesterday if it's still ahead
+    const elapsed = (minutesSinceMidnight(now) - clock + 24 * 60) % (24 * 60);
+    return clampLookback(elapsed);
+  }
+
+  const duration = value.match(DURATION_PATTERN);
+  if (duration && (duration[1] !== undefined || duration[2] !== undefined)) {
+    const minutes = Number(duration[1] ?? 0) * 60 + Number(duration[2] ?? 0);
+    return validateLookback(minutes);
+  }
+
+  return {
+    error: `Couldn't read "${rawValue.trim()}" as a lookback. Try 90m, 2h, "since 9am" or "today".`,
+  } as const;
+}
+
+// 15 → "15m", 60 → "1h", 90 → "1h30m"
+export function formatLookbackLabel(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest}m`;
+  return rest ? `${hours}h${rest}m` : `${hours}h`;
+}
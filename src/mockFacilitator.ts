@@ -0,0 +1,207 @@
+import { verifyTypedData } from "viem";
+import { evm } from "x402/types";
+import type { PaymentPayload, PaymentRequirements } from "x402/types";
+import { getKnownPaymentOption } from "./networks";
+
+// Stand-in for an x402 facilitator so the 402 → verify → settle path can run offline.
+// Point FACILITATOR_URL at it and script the next outcome with setOutcome() (in-process)
+// or POST /__mock/outcome {"outcome": "..."} (standalone: `bun run mock-facilitator`).
+
+export type MockFacilitatorOutcome =
+  | "valid" // signature is checked for real; settles with a fake transaction hash
+  | "invalid_signature"
+  | "insufficient_funds"
+  | "settlement_failure"; // verifies normally, then refuses to settle
+
+export type MockFacilitatorRequest = {
+  path: "/verify" | "/settle";
+  payment: PaymentPayload;
+  requirements: PaymentRequirements;
+};
+
+export type MockFacilitator = {
+  url: string;
+  requests: MockFacilitatorRequest[];
+  setOutcome(outcome: MockFacilitatorOutcome): void;
+  stop(): void;
+};
+
+const MOCK_OUTCOMES: MockFacilitatorOutcome[] = [
+  "valid",
+  "invalid_signature",
+  "insufficient_funds",
+  "settlement_failure",
+];
+
+function randomTransactionHash(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `0x${Buffer.from(bytes).toString("hex")}`;
+}
+
+// Mirrors what a real facilitator checks before touching the chain
+async function checkAuthorization(
+  payment: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<string | null> {
+  if (!("authorization" in payment.payload)) {
+    return "unsupported_scheme";
+  }
+  const { authorization, signature } = payment.payload;
+  const option = getKnownPaymentOption(requirements.network);
+  if (!option || payment.network !== requirements.network) {
+    return "invalid_network";
+  }
+  if (authorization.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+    return "invalid_exact_evm_payload_recipient_mismatch";
+  }
+  if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+    return "invalid_exact_evm_payload_authorization_value";
+  }
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (Number(authorization.validBefore) < nowSeconds) {
+    return "invalid_exact_evm_payload_authorization_valid_before";
+  }
+
+  const signatureValid = await verifyTypedData({
+    address: authorization.from as `0x${string}`,
+    types: evm.authorizationTypes,
+    primaryType: "TransferWithAuthorization",
+    domain: {
+      name: requirements.extra?.name ?? option.assetName,
+      version: requirements.extra?.version ?? option.assetVersion,
+      chainId: option.chainId,
+      verifyingContract: requirements.asset as `0x${string}`,
+    },
+    message: {
+      from: authorization.from as `0x${string}`,
+      to: authorization.to as `0x${string}`,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce as `0x${string}`,
+    },
+    signature: signature as `0x${string}`,
+  }).catch(() => false);
+
+  return signatureValid ? null : "invalid_exact_evm_payload_signature";
+}
+
+function payerOf(payment: PaymentPayload): string | undefined {
+  return "authorization" in payment.payload ? payment.payload.authorization.from : undefined;
+}
+
+export function createMockFacilitator(
+  options: { port?: number; outcome?: MockFacilitatorOutcome } = {}
+): MockFacilitator {
+  let outcome: MockFacilitatorOutcome = options.outcome ?? "valid";
+  const requests: MockFacilitatorRequest[] = [];
+  // Settling the same authorization twice returns the original transaction, like an idempotent facilitator
+  const settledNonces = new Map<string, string>();
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+
+      if (url.pathname === "/supported" && req.method === "GET") {
+        return Response.json({
+          kinds: ["base", "base-sepolia"].map((network) => ({
+            x402Version: 1,
+            scheme: "exact",
+            network,
+          })),
+        });
+      }
+
+      if (url.pathname === "/__mock/outcome" && req.method === "POST") {
+        const body = (await req.json().catch(() => null)) as { outcome?: string } | null;
+        if (!body?.outcome || !MOCK_OUTCOMES.includes(body.outcome as MockFacilitatorOutcome)) {
+          return Response.json(
+            { error: `outcome must be one of ${MOCK_OUTCOMES.join(", ")}` },
+            { status: 400 }
+          );
+        }
+        outcome = body.outcome as MockFacilitatorOutcome;
+        console.log(`[mock-facilitator] Next outcome: ${outcome}`);
+        return Response.json({ outcome });
+      }
+
+      if (url.pathname === "/__mock/requests" && req.method === "GET") {
+        return Response.json({ outcome, requests });
+      }
+
+      if ((url.pathname === "/verify" || url.pathname === "/settle") && req.method === "POST") {
+        const body = (await req.json().catch(() => null)) as {
+          paymentPayload?: PaymentPayload;
+          paymentRequirements?: PaymentRequirements;
+        } | null;
+        if (!body?.paymentPayload || !body.paymentRequirements) {
+          return Response.json({ error: "Missing paymentPayload or paymentRequirements" }, { status: 400 });
+        }
+
+        const payment = body.paymentPayload;
+        const requirements = body.paymentRequirements;
+        const payer = payerOf(payment);
+        requests.push({ path: url.pathname, payment, requirements });
+
+        let failureReason: string | null =
+          outcome === "invalid_signature"
+            ? "invalid_exact_evm_payload_signature"
+            : outcome === "insufficient_funds"
+            ? "insufficient_funds"
+            : await checkAuthorization(payment, requirements);
+
+        if (url.pathname === "/verify") {
+          return Response.json(
+            failureReason ? { isValid: false, invalidReason: failureReason, payer } : { isValid: true, payer }
+          );
+        }
+
+        if (!failureReason && outcome === "settlement_failure") {
+          failureReason = "unexpected_settle_error";
+        }
+        if (failureReason) {
+          return Response.json({
+            success: false,
+            errorReason: failureReason,
+            transaction: "",
+            network: requirements.network,
+            payer,
+          });
+        }
+
+        const nonce = "authorization" in payment.payload ? payment.payload.authorization.nonce : "";
+        const transaction = settledNonces.get(nonce) ?? randomTransactionHash();
+        settledNonces.set(nonce, transaction);
+        return Response.json({
+          success: true,
+          transaction,
+          network: requirements.network,
+          payer,
+        });
+      }
+
+      return new Response("Not found", { status: 404 });
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}`,
+    requests,
+    setOutcome(next) {
+      outcome = next;
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
+
+if (import.meta.main) {
+  const initialOutcome = process.env.MOCK_FACILITATOR_OUTCOME as MockFacilitatorOutcome | undefined;
+  const facilitator = createMockFacilitator({
+    port: Number(process.env.MOCK_FACILITATOR_PORT ?? 8790),
+    outcome: initialOutcome && MOCK_OUTCOMES.includes(initialOutcome) ? initialOutcome : "valid",
+  });
+  console.log(`[mock-facilitator] Listening on ${facilitator.url} (set FACILITATOR_URL to this)`);
+}
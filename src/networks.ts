@@ -0,0 +1,120 @@
+// Networks and assets a payer may settle with. Each entry becomes one item in the 402 `accepts`
+// list and one choice on the /pay page. Prices are quoted in USD base units (6 decimals), so only
+// USD stablecoins belong here.
+
+export type PaymentNetwork = "base" | "base-sepolia" | "polygon";
+
+export type PaymentOption = {
+  network: PaymentNetwork;
+  label: string;
+  chainId: number;
+  chainName: string;
+  viemChain: "base" | "baseSepolia" | "polygon"; // export name in viem/chains, used by the pay page
+  testnet: boolean; // testnet tokens are free, so they're never accepted alongside mainnet
+  rpcUrl: string;
+  explorerUrl: string;
+  asset: `0x${string}`;
+  assetSymbol: string;
+  // EIP-712 domain of the token contract, needed to sign EIP-3009 authorizations
+  assetName: string;
+  assetVersion: string;
+};
+
+const KNOWN_PAYMENT_OPTIONS: Record<string, PaymentOption> = {
+  "base:USDC": {
+    network: "base",
+    label: "Base · USDC",
+    chainId: 8453,
+    chainName: "Base",
+    viemChain: "base",
+    testnet: false,
+    rpcUrl: "https://mainnet.base.org",
+    explorerUrl: "https://basescan.org",
+    asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    assetSymbol: "USDC",
+    assetName: "USD Coin",
+    assetVersion: "2",
+  },
+  "polygon:USDC": {
+    network: "polygon",
+    label: "Polygon · USDC",
+    chainId: 137,
+    chainName: "Polygon",
+    viemChain: "polygon",
+    testnet: false,
+    rpcUrl: "https://polygon-rpc.com",
+    explorerUrl: "https://polygonscan.com",
+    asset: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+    assetSymbol: "USDC",
+    assetName: "USD Coin",
+    assetVersion: "2",
+  },
+  "base-sepolia:USDC": {
+    network: "base-sepolia",
+    label: "Base Sepolia · USDC (testnet)",
+    chainId: 84532,
+    chainName: "Base Sepolia",
+    viemChain: "baseSepolia",
+    testnet: true,
+    rpcUrl: "https://sepolia.base.org",
+    explorerUrl: "https://sepolia.basescan.org",
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    assetSymbol: "USDC",
+    assetName: "USDC",
+    assetVersion: "2",
+  },
+};
+
+let reportedMixedNetworks = false;
+
+/**
+ * Reads PAYMENT_ACCEPTS ("base:USDC"); a bare network name means its USDC.
+ * Falls back to NETWORK (default base) so single-network deployments need no extra config.
+ * Testnets are dropped when a mainnet is also listed, since anyone could pay with free tokens.
+ */
+export function getPaymentOptions(): PaymentOption[] {
+  const configured = process.env.PAYMENT_ACCEPTS || process.env.NETWORK || "base";
+  const options: PaymentOption[] = [];
+
+  for (const entry of configured.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const key = trimmed.includes(":") ? trimmed : `${trimmed}:USDC`;
+    const option = KNOWN_PAYMENT_OPTIONS[key];
+    if (!option) {
+      console.warn(`[payment] Ignoring unknown payment option "${trimmed}"`);
+      continue;
+    }
+    // x402 matches an X-PAYMENT to its requirement by scheme + network, so one asset per network
+    if (options.some((existing) => existing.network === option.network)) {
+      console.warn(`[payment] Ignoring "${trimmed}": ${option.network} is already accepted`);
+      continue;
+    }
+    options.push(option);
+  }
+
+  const mainnets = options.filter((option) => !option.testnet);
+  if (mainnets.length && mainnets.length < options.length) {
+    if (!reportedMixedNetworks) {
+      reportedMixedNetworks = true;
+      console.error(
+        `[payment] ❌ PAYMENT_ACCEPTS mixes testnet and mainnet networks; ignoring ${options
+          .filter((option) => option.testnet)
+          .map((option) => option.network)
+          .join(", ")}. Run testnets on a separate deployment.`
+      );
+    }
+    return mainnets;
+  }
+
+  return options.length ? options : [KNOWN_PAYMENT_OPTIONS["base:USDC"]];
+}
+
+export function getPaymentOption(network: string): PaymentOption | undefined {
+  return getPaymentOptions().find((option) => option.network === network);
+}
+
+// Static lookup by network, independent of what this deployment accepts
+export function getKnownPaymentOption(network: string): PaymentOption | undefined {
+  return Object.values(KNOWN_PAYMENT_OPTIONS).find((option) => option.network === network);
+}
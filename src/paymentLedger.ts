@@ -0,0 +1,279 @@
+import type { Database } from "bun:sqlite";
+import type { PaymentPayload, PaymentRequirements } from "x402/types";
+import { getDatabase, runMigrations } from "./db";
+
+export type PaymentStatus =
+  | "pending" // claimed, verification in flight
+  | "invalid" // facilitator rejected the payment
+  | "verify_error" // facilitator unreachable or errored during verification
+  | "verified" // verified, entrypoint running
+  | "released" // entrypoint failed before settlement, payment never charged
+  | "settled"
+  | "settlement_failed"
+  | "waived" // output was degraded and the settlement policy skipped charging
+  | "paid_with_credit"; // covered by the payer's credit balance instead of settling
+
+// A nonce in one of these states was never charged, so the same X-PAYMENT may be presented again
+const RECLAIMABLE_STATUSES: PaymentStatus[] = ["invalid", "verify_error", "released"];
+
+export type PaymentVerificationResult = {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+};
+
+export type PaymentRecord = {
+  nonce: string;
+  payer: string | null;
+  amount: string;
+  network: string;
+  resource: string;
+  paymentHeader: string;
+  requirements: PaymentRequirements;
+  verification: PaymentVerificationResult | null;
+  status: PaymentStatus;
+  settlementTxHash: string | null;
+  settlementError: string | null;
+  settlementAttempts: number;
+  outputModel: string | null;
+  policyDecision: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const PAYMENT_LEDGER_MIGRATIONS = [
+  `CREATE TABLE payment_ledger (
+     nonce TEXT PRIMARY KEY,
+     payer TEXT,
+     amount TEXT NOT NULL,
+     network TEXT NOT NULL,
+     resource TEXT NOT NULL,
+     payment_header TEXT NOT NULL,
+     requirements TEXT NOT NULL,
+     verification TEXT,
+     status TEXT NOT NULL,
+     settlement_tx_hash TEXT,
+     settlement_error TEXT,
+     settlement_attempts INTEGER NOT NULL DEFAULT 0,
+     created_at INTEGER NOT NULL,
+     updated_at INTEGER NOT NULL
+   );
+   CREATE INDEX payment_ledger_status ON payment_ledger (status, updated_at);
+   CREATE INDEX payment_ledger_payer ON payment_ledger (payer, created_at);`,
+  `ALTER TABLE payment_ledger ADD COLUMN output_model TEXT;
+   ALTER TABLE payment_ledger ADD COLUMN policy_decision TEXT;`,
+];
+
+type PaymentLedgerRow = {
+  nonce: string;
+  payer: string | null;
+  amount: string;
+  network: string;
+  resource: string;
+  payment_header: string;
+  requirements: string;
+  verification: string | null;
+  status: PaymentStatus;
+  settlement_tx_hash: string | null;
+  settlement_error: string | null;
+  settlement_attempts: number;
+  output_model: string | null;
+  policy_decision: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+function rowToRecord(row: PaymentLedgerRow): PaymentRecord {
+  return {
+    nonce: row.nonce,
+    payer: row.payer,
+    amount: row.amount,
+    network: row.network,
+    resource: row.resource,
+    paymentHeader: row.payment_header,
+    requirements: JSON.parse(row.requirements),
+    verification: row.verification ? JSON.parse(row.verification) : null,
+    status: row.status,
+    settlementTxHash: row.settlement_tx_hash,
+    settlementError: row.settlement_error,
+    settlementAttempts: row.settlement_attempts,
+    outputModel: row.output_model,
+    policyDecision: row.policy_decision,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+let ledgerDb: Database | null = null;
+
+function getLedgerDb(): Database {
+  if (!ledgerDb) {
+    ledgerDb = getDatabase();
+    runMigrations(ledgerDb, "payment_ledger", PAYMENT_LEDGER_MIGRATIONS);
+  }
+  return ledgerDb;
+}
+
+export function setPaymentLedgerDatabase(db: Database) {
+  runMigrations(db, "payment_ledger", PAYMENT_LEDGER_MIGRATIONS);
+  ledgerDb = db;
+}
+
+// EVM payments carry an EIP-3009 nonce; SVM payments are identified by their signed transaction
+export function getPaymentNonce(payment: PaymentPayload): string {
+  if ("authorization" in payment.payload) {
+    return payment.payload.authorization.nonce.toLowerCase();
+  }
+  const hasher = new Bun.CryptoHasher("sha256");
+  hasher.update(payment.payload.transaction);
+  return `svm:${hasher.digest("hex")}`;
+}
+
+export function getPaymentPayer(payment: PaymentPayload): string | null {
+  if ("authorization" in payment.payload) {
+    return payment.payload.authorization.from.toLowerCase();
+  }
+  return null;
+}
+
+/**
+ * Atomically reserves a payment nonce. Returns the existing record instead when the
+ * nonce was already used by a payment that may have been (or is being) charged.
+ */
+export function claimPayment(input: {
+  payment: PaymentPayload;
+  paymentHeader: string;
+  requirements: PaymentRequirements;
+}): { claimed: true; record: PaymentRecord } | { claimed: false; record: PaymentRecord } {
+  const db = getLedgerDb();
+  const nonce = getPaymentNonce(input.payment);
+  const now = Date.now();
+  const amount =
+    "authorization" in input.payment.payload
+      ? input.payment.payload.authorization.value
+      : input.requirements.maxAmountRequired;
+
+  const reclaimable = RECLAIMABLE_STATUSES.map((status) => `'${status}'`).join(", ");
+  const result = db
+    .query(
+      `INSERT INTO payment_ledger (
+         nonce, payer, amount, network, resource, payment_header, requirements,
+         verification, status, settlement_attempts, created_at, updated_at
+       ) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, NULL, 'pending', 0, ?8, ?8)
+       ON CONFLICT(nonce) DO UPDATE SET
+         payment_header = excluded.payment_header,
+         requirements = excluded.requirements,
+         resource = excluded.resource,
+         verification = NULL,
+         status = 'pending',
+         updated_at = excluded.updated_at
+       WHERE payment_ledger.status IN (${reclaimable})`
+    )
+    .run(
+      nonce,
+      getPaymentPayer(input.payment),
+      amount,
+      input.payment.network,
+      input.requirements.resource,
+      input.paymentHeader,
+      JSON.stringify(input.requirements),
+      now
+    );
+
+  const record = getPaymentRecord(nonce) as PaymentRecord;
+  return result.changes > 0 ? { claimed: true, record } : { claimed: false, record };
+}
+
+export function recordPaymentVerification(
+  nonce: string,
+  verification: PaymentVerificationResult | null,
+  status: "verified" | "invalid" | "verify_error"
+) {
+  getLedgerDb()
+    .query(
+      `UPDATE payment_ledger
+       SET verification = ?, status = ?, payer = COALESCE(?, payer), updated_at = ?
+       WHERE nonce = ?`
+    )
+    .run(
+      verification ? JSON.stringify(verification) : null,
+      status,
+      verification?.payer?.toLowerCase() ?? null,
+      Date.now(),
+      nonce
+    );
+}
+
+export function releasePayment(nonce: string) {
+  getLedgerDb()
+    .query("UPDATE payment_ledger SET status = 'released', updated_at = ? WHERE nonce = ?")
+    .run(Date.now(), nonce);
+}
+
+export function recordSettlementResult(
+  nonce: string,
+  result: { success: true; txHash: string | null } | { success: false; error: string }
+) {
+  getLedgerDb()
+    .query(
+      `UPDATE payment_ledger
+       SET status = ?, settlement_tx_hash = ?, settlement_error = ?,
+           settlement_attempts = settlement_attempts + 1, updated_at = ?
+       WHERE nonce = ?`
+    )
+    .run(
+      result.success ? "settled" : "settlement_failed",
+      result.success ? result.txHash : null,
+      result.success ? null : result.error,
+      Date.now(),
+      nonce
+    );
+}
+
+// Records which entrypoint path produced the output and what the settlement policy did about it.
+// Passing a status marks the payment as deliberately left uncharged.
+export function recordPolicyDecision(
+  nonce: string,
+  input: {
+    outputModel: string | null;
+    decision: string;
+    status?: "waived" | "paid_with_credit";
+  }
+) {
+  getLedgerDb()
+    .query(
+      `UPDATE payment_ledger
+       SET output_model = ?, policy_decision = ?, status = COALESCE(?, status), updated_at = ?
+       WHERE nonce = ?`
+    )
+    .run(input.outputModel, input.decision, input.status ?? null, Date.now(), nonce);
+}
+
+export function getPaymentRecord(nonce: string): PaymentRecord | null {
+  const row = getLedgerDb()
+    .query("SELECT * FROM payment_ledger WHERE nonce = ?")
+    .get(nonce.toLowerCase()) as PaymentLedgerRow | null;
+  return row ? rowToRecord(row) : null;
+}
+
+export function listPaymentRecords(
+  filter: { status?: PaymentStatus; payer?: string; limit?: number } = {}
+): PaymentRecord[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.status) {
+    conditions.push("status = ?");
+    params.push(filter.status);
+  }
+  if (filter.payer) {
+    conditions.push("payer = ?");
+    params.push(filter.payer.toLowerCase());
+  }
+  params.push(Math.min(Math.max(filter.limit ?? 50, 1), 500));
+
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = getLedgerDb()
+    .query(`SELECT * FROM payment_ledger ${where} ORDER BY created_at DESC LIMIT ?`)
+    .all(...params) as PaymentLedgerRow[];
+  return rows.map(rowToRecord);
+}
@@ -1,22 +1,152 @@
+import type { Database } from "bun:sqlite";
+import { getDatabase, runMigrations } from "./db";
+
 export type DiscordCallbackData = {
   applicationId: string;
   channelId: string;
   guildId: string | null;
-  lookbackMinutes: number;
+  lookbackMinutes?: number; // unset when a message-link range is summarised instead
+  startMessageUrl?: string; // "Summarise from here": first and last message of the range
+  endMessageUrl?: string;
+  includeThreads?: boolean; // also summarise threads/forum posts from the window
+  channelIds?: string[]; // /digest: summarise these server channels together...
+  categoryId?: string; // ...or every channel of this category
   paymentMessageId?: string;
   expiresAt: number;
 };
 
 export type TelegramCallbackData = {
   chatId: number;
-  threadId?: number | null;
+  threadId?: number | null; // forum topic the command came from; the summary is posted back there
+  perTopic?: boolean; // digest every topic of the group instead of just threadId
   messageId?: number | null;
   paymentMessageId?: number;
+  userId?: number | null; // who asked; private deliveries go to them
   username?: string | null;
-  lookbackMinutes: number;
+  chatTitle?: string | null; // names the group in private deliveries
+  deliverPrivately?: boolean; // /summarise_dm: send the summary to userId instead of the chat
+  lookbackMinutes?: number; // unset when fromMessageId picks a message range instead
+  fromMessageId?: number; // summarise from this message up to now instead of a lookback window
+  replyTree?: boolean; // only the replies under fromMessageId
+  expiresAt: number;
+};
+
+// Paid /summarise_dm summaries the bot couldn't send yet, keyed by the requester's user ID and
+// handed over once they start a private chat with it
+export type HeldTelegramSummaries = {
+  summaries: string[]; // rendered HTML, oldest first
   expiresAt: number;
 };
 
-export const pendingDiscordCallbacks = new Map<string, DiscordCallbackData>();
-export const pendingTelegramCallbacks = new Map<string, TelegramCallbackData>();
+// Entries past their expiresAt are treated as missing and dropped lazily on access,
+// so no background sweep is needed to honour PAYMENT_CALLBACK_EXPIRY_MS.
+export type CallbackRegistry<T extends { expiresAt: number }> = {
+  get(token: string): T | undefined;
+  set(token: string, data: T): void;
+  delete(token: string): void;
+  // Reads and removes in one step so a callback can only ever be redeemed once
+  take(token: string): T | undefined;
+};
+
+export function createInMemoryCallbackRegistry<
+  T extends { expiresAt: number },
+>(): CallbackRegistry<T> {
+  const entries = new Map<string, T>();
+
+  const sweep = (now: number) => {
+    for (const [token, data] of entries.entries()) {
+      if (data.expiresAt < now) {
+        entries.delete(token);
+      }
+    }
+  };
+
+  return {
+    get(token) {
+      const data = entries.get(token);
+      if (!data) return undefined;
+      if (data.expiresAt < Date.now()) {
+        entries.delete(token);
+        return undefined;
+      }
+      return data;
+    },
+    set(token, data) {
+      sweep(Date.now());
+      entries.set(token, data);
+    },
+    delete(token) {
+      entries.delete(token);
+    },
+    take(token) {
+      const data = this.get(token);
+      entries.delete(token);
+      return data;
+    },
+  };
+}
+
+const CALLBACK_REGISTRY_MIGRATIONS = [
+  `CREATE TABLE pending_callbacks (
+     kind TEXT NOT NULL,
+     token TEXT NOT NULL,
+     data TEXT NOT NULL,
+     expires_at INTEGER NOT NULL,
+     PRIMARY KEY (kind, token)
+   );
+   CREATE INDEX pending_callbacks_expires_at ON pending_callbacks (expires_at);`,
+];
+
+export function createSqliteCallbackRegistry<T extends { expiresAt: number }>(
+  db: Database,
+  kind: string
+): CallbackRegistry<T> {
+  runMigrations(db, "pending_callbacks", CALLBACK_REGISTRY_MIGRATIONS);
+
+  const selectEntry = db.query(
+    "SELECT data FROM pending_callbacks WHERE kind = ? AND token = ? AND expires_at >= ?"
+  );
+  const upsertEntry = db.query(
+    `INSERT INTO pending_callbacks (kind, token, data, expires_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(kind, token) DO UPDATE SET data = excluded.data, expires_at = excluded.expires_at`
+  );
+  const deleteEntry = db.query("DELETE FROM pending_callbacks WHERE kind = ? AND token = ?");
+  const deleteExpired = db.query("DELETE FROM pending_callbacks WHERE expires_at < ?");
+
+  const read = (token: string): T | undefined => {
+    const row = selectEntry.get(kind, token, Date.now()) as { data: string } | null;
+    return row ? (JSON.parse(row.data) as T) : undefined;
+  };
+
+  const takeEntry = db.transaction((token: string) => {
+    const data = read(token);
+    deleteEntry.run(kind, token);
+    return data;
+  });
+
+  return {
+    get: read,
+    set(token, data) {
+      deleteExpired.run(Date.now());
+      upsertEntry.run(kind, token, JSON.stringify(data), data.expiresAt);
+    },
+    delete(token) {
+      deleteEntry.run(kind, token);
+    },
+    take(token) {
+      return takeEntry(token);
+    },
+  };
+}
+
+function createCallbackRegistry<T extends { expiresAt: number }>(kind: string) {
+  // CALLBACK_STORE=memory skips SQLite; pending payments are then lost on restart
+  return process.env.CALLBACK_STORE === "memory"
+    ? createInMemoryCallbackRegistry<T>()
+    : createSqliteCallbackRegistry<T>(getDatabase(), kind);
+}
 
+export const pendingDiscordCallbacks = createCallbackRegistry<DiscordCallbackData>("discord");
+export const pendingTelegramCallbacks = createCallbackRegistry<TelegramCallbackData>("telegram");
+export const heldTelegramSummaries =
+  createCallbackRegistry<HeldTelegramSummaries>("telegram-held");
@@ -0,0 +1,231 @@
+import { PAYMENT_CALLBACK_EXPIRY_MS } from "./constants";
+import { formatUsdcAmount, parseUsdcAmount } from "./credits";
+import {
+  getTelegramMessagesWithin,
+  isMeaningfulTelegramMessage,
+  selectTelegramMessages,
+  TelegramMessageSelection,
+} from "./telegramStore";
+
+// All amounts are USDC base units. With only the base price configured every summary costs
+// the same; the per-hour, per-message and per-token rates make longer or busier windows cost more.
+// Digests summarise each topic or channel separately, so every section after the first adds
+// perSection.
+export type PricingConfig = {
+  base: bigint;
+  perSection: bigint;
+  perHour: bigint;
+  perHundredMessages: bigint;
+  perThousandTokens: bigint;
+  min: bigint;
+  max: bigint | null;
+};
+
+export type SummaryVolume = {
+  messageCount: number;
+  tokenEstimate: number;
+};
+
+export type PriceQuote = {
+  amount: bigint;
+  display: string; // dollars, e.g. "0.05"
+  lookbackMinutes: number | null;
+  volume: SummaryVolume | null;
+};
+
+// Rough chars-per-token ratio for English chat text; only used to scale the price
+const CHARS_PER_TOKEN = 4;
+
+// Pricing is re-read on every quote; each bad value is reported once rather than per request
+const reportedSettings = new Set<string>();
+
+function warnIgnored(name: string, raw: string, expected: string) {
+  const key = `${name}=${raw}`;
+  if (reportedSettings.has(key)) return;
+  reportedSettings.add(key);
+  console.warn(`[pricing] Ignoring ${name}="${raw}" (expected ${expected})`);
+}
+
+function readBaseUnits(name: string, fallback: bigint): bigint {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return fallback;
+  }
+  if (!/^\d+$/.test(raw)) {
+    warnIgnored(name, raw, "USDC base units");
+    return fallback;
+  }
+  return BigInt(raw);
+}
+
+function readDollars(name: string, fallback: string): bigint {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return parseUsdcAmount(fallback);
+  }
+  try {
+    return parseUsdcAmount(raw);
+  } catch {
+    // Runs while agent.ts builds its entrypoints, so throwing here would stop startup
+    warnIgnored(name, raw, `a dollar amount such as ${fallback}`);
+    return parseUsdcAmount(fallback);
+  }
+}
+
+export function getPricingConfig(): PricingConfig {
+  // ENTRYPOINT_PRICE (in dollars) predates the pricing module and still sets the base price
+  const base = readBaseUnits("SUMMARY_PRICE_BASE", readDollars("ENTRYPOINT_PRICE", "0.05"));
+  const max = readBaseUnits("SUMMARY_PRICE_MAX", 0n);
+  return {
+    base,
+    perSection: readBaseUnits("SUMMARY_PRICE_PER_SECTION", base),
+    perHour: readBaseUnits("SUMMARY_PRICE_PER_HOUR", 0n),
+    perHundredMessages: readBaseUnits("SUMMARY_PRICE_PER_100_MESSAGES", 0n),
+    perThousandTokens: readBaseUnits("SUMMARY_PRICE_PER_1K_TOKENS", 0n),
+    min: readBaseUnits("SUMMARY_PRICE_MIN", base),
+    max: max > 0n ? max : null,
+  };
+}
+
+// Volume has to be measured (Discord means fetching the window) so skip it unless it affects the price
+export function pricingUsesVolume(config: PricingConfig = getPricingConfig()): boolean {
+  return config.perHundredMessages > 0n || config.perThousandTokens > 0n;
+}
+
+export function estimateTokens(texts: string[]): number {
+  const chars = texts.reduce((sum, text) => sum + text.length, 0);
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+export function priceSummary(input: {
+  lookbackMinutes?: number | null;
+  volume?: SummaryVolume | null;
+  sections?: number;
+}): PriceQuote {
+  const config = getPricingConfig();
+  const lookbackMinutes = input.lookbackMinutes ?? null;
+  const volume = input.volume ?? null;
+
+  // Each started hour / hundred messages / thousand tokens is charged in full
+  let amount = config.base;
+  if (input.sections && input.sections > 1) {
+    amount += config.perSection * BigInt(input.sections - 1);
+  }
+  if (lookbackMinutes !== null) {
+    amount += config.perHour * BigInt(Math.ceil(lookbackMinutes / 60));
+  }
+  if (volume) {
+    amount += config.perHundredMessages * BigInt(Math.ceil(volume.messageCount / 100));
+    amount += config.perThousandTokens * BigInt(Math.ceil(volume.tokenEstimate / 1000));
+  }
+
+  if (amount < config.min) {
+    amount = config.min;
+  }
+  if (config.max !== null && amount > config.max) {
+    amount = config.max;
+  }
+
+  return { amount, display: formatUsdcAmount(amount), lookbackMinutes, volume };
+}
+
+// The slash command, the /pay page and the 402 response each quote the same request at different
+// moments. Holding the first quote for the life of a payment link keeps them agreeing on one amount
+// even as new messages arrive in the window.
+const quoteCache = new Map<string, { quote: PriceQuote; expiresAt: number }>();
+// Past this many live quotes the oldest are dropped; their links just re-quote if used
+const MAX_CACHED_QUOTES = 1000;
+
+// The quote held for a request, without measuring anything. Unauthenticated callers get this or a
+// price from the request alone, so they can't make us page through Discord history for them.
+export function getHeldQuote(key: string): PriceQuote | null {
+  const cached = quoteCache.get(key);
+  return cached && cached.expiresAt >= Date.now() ? cached.quote : null;
+}
+
+export async function quoteSummary(
+  key: string,
+  lookbackMinutes: number | null,
+  measureVolume?: () => Promise<SummaryVolume>,
+  countSections?: () => Promise<number>
+): Promise<PriceQuote> {
+  const now = Date.now();
+  const cached = quoteCache.get(key);
+  if (cached && cached.expiresAt >= now) {
+    return cached.quote;
+  }
+
+  for (const [cachedKey, entry] of quoteCache.entries()) {
+    if (entry.expiresAt < now) {
+      quoteCache.delete(cachedKey);
+    }
+  }
+
+  let volume: SummaryVolume | null = null;
+  if (measureVolume && pricingUsesVolume()) {
+    try {
+      volume = await measureVolume();
+    } catch (error) {
+      // Quote on the window length alone rather than refusing to quote; not cached so the next try re-measures
+      console.warn(`[pricing] Could not measure volume for ${key}:`, error);
+      return priceSummary({ lookbackMinutes });
+    }
+  }
+
+  let sections = 1;
+  if (countSections) {
+    try {
+      sections = await countSections();
+    } catch (error) {
+      console.warn(`[pricing] Could not count sections for ${key}:`, error);
+      return priceSummary({ lookbackMinutes, volume });
+    }
+  }
+
+  const quote = priceSummary({ lookbackMinutes, volume, sections });
+  // Maps iterate in insertion order, so this drops the oldest
+  const excess = quoteCache.size - MAX_CACHED_QUOTES + 1;
+  for (const cachedKey of [...quoteCache.keys()].slice(0, Math.max(excess, 0))) {
+    quoteCache.delete(cachedKey);
+  }
+  quoteCache.set(key, { quote, expiresAt: now + PAYMENT_CALLBACK_EXPIRY_MS });
+  return quote;
+}
+
+// A per-topic digest (perTopic, lookback windows only) is priced per topic with messages in the
+// window
+export function quoteTelegramSummary(
+  chatId: number | string,
+  selection: TelegramMessageSelection,
+  perTopic = false
+) {
+  const { lookbackMinutes, threadId, fromMessageId, toMessageId, replyTree } = selection;
+  const topics = perTopic && fromMessageId === undefined;
+  const key =
+    fromMessageId === undefined
+      ? `telegram:${chatId}:${topics ? "topics" : threadId ?? "all"}:${lookbackMinutes ?? 60}`
+      : `telegram:${chatId}:${threadId ?? "all"}:${replyTree ? "tree" : "range"}:` +
+        `${fromMessageId}-${toMessageId ?? "latest"}`;
+  // Message ranges have no fixed window length, so only their volume can add to the price
+  const windowMinutes = fromMessageId === undefined ? lookbackMinutes ?? 60 : null;
+  return quoteSummary(
+    key,
+    windowMinutes,
+    async () => {
+      const messages = selectTelegramMessages(Number(chatId), selection);
+      return {
+        messageCount: messages.length,
+        tokenEstimate: estimateTokens(messages.map((msg) => msg.text)),
+      };
+    },
+    topics
+      ? async () => {
+          const messages = getTelegramMessagesWithin(Number(chatId), lookbackMinutes ?? 60);
+          const threadIds = messages
+            .filter(isMeaningfulTelegramMessage)
+            .map((msg) => msg.threadId);
+          return new Set(threadIds).size;
+        }
+      : undefined
+  );
+}
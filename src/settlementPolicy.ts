@@ -0,0 +1,50 @@
+// Decides what to do with a verified payment once the entrypoint has produced its output.
+// Entrypoints report which path produced the summary via their `model` field; the fallback
+// paths are degraded output that shouldn't be charged at full price.
+
+export type DegradedOutputPolicy = "settle" | "skip" | "credit";
+
+export type SettlementDecision =
+  | { action: "settle" }
+  | { action: "skip"; reason: string }
+  | { action: "credit"; reason: string };
+
+const DEFAULT_DEGRADED_MODELS = ["telegram-error", "axllm-fallback"];
+
+function getDegradedModels(): string[] {
+  const configured = process.env.DEGRADED_MODELS;
+  if (!configured) {
+    return DEFAULT_DEGRADED_MODELS;
+  }
+  return configured
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+function getDegradedOutputPolicy(): DegradedOutputPolicy {
+  const configured = (process.env.DEGRADED_OUTPUT_POLICY ?? "credit").trim().toLowerCase();
+  if (configured === "settle" || configured === "skip" || configured === "credit") {
+    return configured;
+  }
+  console.warn(
+    `[settlement-policy] Unknown DEGRADED_OUTPUT_POLICY "${configured}", defaulting to credit`
+  );
+  return "credit";
+}
+
+export function decideSettlement(model: string | null | undefined): SettlementDecision {
+  if (!model || !getDegradedModels().includes(model)) {
+    return { action: "settle" };
+  }
+
+  const policy = getDegradedOutputPolicy();
+  const reason = `degraded output (${model})`;
+  if (policy === "skip") {
+    return { action: "skip", reason };
+  }
+  if (policy === "credit") {
+    return { action: "credit", reason };
+  }
+  return { action: "settle" };
+}
@@ -1,28 +1,224 @@
-import { Bot, InlineKeyboard } from "grammy";
-import { validateLookback } from "./lookback";
+import { Bot, CommandContext, Context, InlineKeyboard } from "grammy";
+import type { Message, MessageOrigin, ReactionType } from "grammy/types";
+import { formatLookbackLabel, MAX_LOOKBACK_MINUTES, parseLookback } from "./lookback";
 import { PAYMENT_CALLBACK_EXPIRY_MS } from "./constants";
-import { pendingTelegramCallbacks } from "./pending";
-import { addTelegramMessage, updateTelegramMessageReactions } from "./telegramStore";
+import { heldTelegramSummaries, pendingTelegramCallbacks, TelegramCallbackData } from "./pending";
+import {
+  formatUsdcAmount,
+  getCreditBalance,
+  telegramAccount,
+  TOPUP_AMOUNT_BASE_UNITS,
+} from "./credits";
+import { quoteTelegramSummary } from "./pricing";
+import { getChatAdminIds, updateCachedChatAdmin } from "./telegramAdmins";
+import { splitTelegramHtml } from "./telegramFormat";
+import {
+  addTelegramMessage,
+  editTelegramMessage,
+  getTelegramMessage,
+  getTelegramMessagesBetween,
+  getTelegramReplyTree,
+  removeTelegramMessage,
+  setTelegramTopicName,
+  TelegramStoredAttachment,
+  TelegramStoredMessage,
+  updateTelegramMessageReactions,
+} from "./telegramStore";
 
-const DEFAULT_LOOKBACK_MINUTES = 60;
+// "/summarise 60 topics" digests every forum topic of the group separately
+const PER_TOPIC_KEYWORD = "topics";
+// Offered as buttons when /summarise is sent without a lookback
+const LOOKBACK_PRESETS = [15, 60, 240, 480];
+// Picker button payload: "summarise:<minutes>", then ":topics" for a per-topic digest and ":dm"
+// for private delivery
+const LOOKBACK_CALLBACK_PATTERN = /^summarise:(\d+)(:topics)?(:dm)?$/;
+// "/summarise thread" as a reply covers only the reply tree under the replied message
+const REPLY_TREE_KEYWORD = "thread";
+const LOOKBACK_USAGE = "Usage: /summarise 90m, /summarise 2h, /summarise since 9am or /summarise today";
 
+// Reaction and chat_member updates are opt-in: Telegram only delivers them when listed explicitly
+export const TELEGRAM_ALLOWED_UPDATES = [
+  "message",
+  "edited_message",
+  "message_reaction",
+  "message_reaction_count",
+  "chat_member",
+  "callback_query",
+] as const;
+
+function commandArguments(text: string | undefined) {
+  return (text ?? "").trim().split(/\s+/).slice(1);
+}
+
+// null when no lookback was given, so the caller can offer the preset picker
 function extractLookback(text: string | undefined) {
-  if (!text) return DEFAULT_LOOKBACK_MINUTES;
-  const parts = text.trim().split(/\s+/);
-  if (parts.length < 2) return DEFAULT_LOOKBACK_MINUTES;
-  const candidate = parts[1];
-  const result = validateLookback(candidate);
-  if ("error" in result) {
-    return result;
+  const words = commandArguments(text).filter(
+    (part) => part.toLowerCase() !== PER_TOPIC_KEYWORD
+  );
+  if (words.length === 0) return null;
+  return parseLookback(words.join(" "));
+}
+
+// The message `msg` explicitly replies to. Inside a forum topic every message implicitly replies
+// to the topic's creation message, which doesn't count.
+function repliedToMessageId(msg: Message | undefined) {
+  const target = msg?.reply_to_message;
+  if (!msg || !target) return undefined;
+  if (msg.is_topic_message && target.message_id === msg.message_thread_id) return undefined;
+  return target.message_id;
+}
+
+function wantsPerTopicDigest(text: string | undefined) {
+  return commandArguments(text).some((part) => part.toLowerCase() === PER_TOPIC_KEYWORD);
+}
+
+function reactionLabel(reaction: ReactionType): string {
+  switch (reaction.type) {
+    case "emoji":
+      return reaction.emoji;
+    case "custom_emoji":
+      return `custom:${reaction.custom_emoji_id}`;
+    case "paid":
+      return "paid";
+  }
+}
+
+function describeForwardOrigin(origin: MessageOrigin): string {
+  switch (origin.type) {
+    case "user":
+      return [origin.sender_user.first_name, origin.sender_user.last_name].filter(Boolean).join(" ");
+    case "hidden_user":
+      return origin.sender_user_name;
+    case "chat":
+      return `chat "${origin.sender_chat.title ?? origin.sender_chat.id}"`;
+    case "channel":
+      return `channel "${origin.chat.title ?? origin.chat.id}"`;
+  }
+}
+
+// Everything about a message besides its author: text or caption, media, polls, forward origin
+function describeTelegramContent(
+  msg: Message
+): Pick<TelegramStoredMessage, "text" | "eventType" | "attachments" | "poll" | "forwardOrigin"> {
+  const attachments: TelegramStoredAttachment[] = [];
+  let eventType = "message";
+
+  if (msg.photo) {
+    eventType = "photo";
+    attachments.push({ kind: "photo" });
+  } else if (msg.animation) {
+    // Animations also carry a `document`, so check them first
+    eventType = "animation";
+    attachments.push({
+      kind: "animation",
+      fileName: msg.animation.file_name ?? null,
+      mimeType: msg.animation.mime_type ?? null,
+    });
+  } else if (msg.video) {
+    eventType = "video";
+    attachments.push({
+      kind: "video",
+      fileName: msg.video.file_name ?? null,
+      mimeType: msg.video.mime_type ?? null,
+    });
+  } else if (msg.document) {
+    eventType = "document";
+    attachments.push({
+      kind: "document",
+      fileName: msg.document.file_name ?? null,
+      mimeType: msg.document.mime_type ?? null,
+    });
+  } else if (msg.voice) {
+    eventType = "voice";
+    attachments.push({
+      kind: "voice",
+      mimeType: msg.voice.mime_type ?? null,
+      description: `${msg.voice.duration}s voice note`,
+    });
+  } else if (msg.video_note) {
+    eventType = "video_note";
+    attachments.push({ kind: "video_note", description: `${msg.video_note.duration}s video note` });
+  } else if (msg.audio) {
+    eventType = "audio";
+    attachments.push({
+      kind: "audio",
+      fileName: msg.audio.file_name ?? null,
+      mimeType: msg.audio.mime_type ?? null,
+      description:
+        [msg.audio.performer, msg.audio.title].filter(Boolean).join(" – ") || null,
+    });
+  } else if (msg.sticker) {
+    eventType = "sticker";
+    attachments.push({ kind: "sticker", description: msg.sticker.emoji ?? null });
+  } else if (msg.venue) {
+    eventType = "venue";
+    attachments.push({
+      kind: "venue",
+      fileName: msg.venue.title,
+      description: msg.venue.address,
+    });
+  } else if (msg.location) {
+    eventType = "location";
+    attachments.push({
+      kind: "location",
+      description: `${msg.location.latitude}, ${msg.location.longitude}`,
+    });
+  }
+
+  const poll = msg.poll
+    ? { question: msg.poll.question, options: msg.poll.options.map((option) => option.text) }
+    : undefined;
+  if (poll) {
+    eventType = "poll";
+  }
+
+  return {
+    text: msg.text ?? msg.caption ?? poll?.question ?? "",
+    eventType,
+    attachments: attachments.length ? attachments : undefined,
+    poll,
+    forwardOrigin: msg.forward_origin ? describeForwardOrigin(msg.forward_origin) : undefined,
+  };
+}
+
+// Private chats have no administrators
+async function isChatAdmin(ctx: Context) {
+  if (!ctx.chat || !ctx.from || ctx.chat.type === "private") return false;
+  const adminIds = await getChatAdminIds(ctx.api, ctx.chat.id);
+  return adminIds.has(ctx.from.id);
+}
+
+// Admin-only commands are open to the user in their own private chat with the bot
+async function canUseAdminCommand(ctx: Context) {
+  return ctx.chat?.type === "private" || isChatAdmin(ctx);
+}
+
+// Anonymous admins and linked channels post as a chat; `from` is then a placeholder bot account
+async function resolveAuthorFlags(ctx: Context, msg: Message) {
+  if (msg.sender_chat) {
+    return { authorIsAdmin: msg.sender_chat.id === msg.chat.id, authorIsBot: false };
+  }
+  if (!msg.from) {
+    return { authorIsAdmin: false, authorIsBot: false };
+  }
+  if (msg.from.is_bot) {
+    return { authorIsAdmin: false, authorIsBot: true };
   }
-  return result.minutes;
+  return { authorIsAdmin: await isChatAdmin(ctx), authorIsBot: false };
 }
 
 export function createTelegramBot(options: {
   token: string;
   baseUrl: string;
+  // Bot API root, e.g. a local fake in tests; defaults to https://api.telegram.org
+  apiRoot?: string;
+  // Pays for the summary from the requester's prepaid credit; resolves false if the balance is too low
+  summariseWithCredit?: (userId: number, data: TelegramCallbackData) => Promise<boolean>;
 }) {
-  const bot = new Bot(options.token);
+  const bot = new Bot(
+    options.token,
+    options.apiRoot ? { client: { apiRoot: options.apiRoot } } : undefined
+  );
 
   bot.catch((err) => {
     console.error("[telegram] polling error", err.error ?? err);
@@ -34,77 +230,259 @@ export function createTelegramBot(options: {
       return next();
     }
     const chatId = msg.chat?.id;
-    const text = "text" in msg ? msg.text ?? "" : "";
-    // Don't store command messages - they shouldn't be included in summaries
-    const trimmed = text.trim();
-    if (chatId && trimmed.length > 0 && !trimmed.startsWith("/")) {
+    const content = describeTelegramContent(msg);
+    // message_thread_id is also set on plain reply chains; only forum topics count here
+    const threadId = msg.is_topic_message ? msg.message_thread_id : undefined;
+
+    // Topic names arrive on the service message that created the topic, which every
+    // message in the topic also carries as its reply_to_message
+    const topicCreated = msg.forum_topic_created ?? msg.reply_to_message?.forum_topic_created;
+    const topicName = msg.forum_topic_edited?.name ?? topicCreated?.name;
+    if (chatId && threadId !== undefined && topicName) {
+      setTelegramTopicName(chatId, threadId, topicName);
+    }
+
+    // Don't store command messages - they shouldn't be included in summaries.
+    // Service messages (joins, topic changes, pins) have neither text nor content and are skipped too.
+    const trimmed = content.text.trim();
+    const hasContent = trimmed.length > 0 || content.attachments !== undefined;
+    if (chatId && hasContent && !trimmed.startsWith("/")) {
       addTelegramMessage(chatId, {
         messageId: msg.message_id,
-        text,
+        ...content,
         timestampMs: (msg.date ?? Math.floor(Date.now() / 1000)) * 1000,
         authorId: ctx.from?.id,
         authorUsername: ctx.from?.username ?? null,
-        authorDisplay: ctx.from?.first_name
+        authorDisplay: msg.sender_chat?.title
+          ? msg.sender_chat.title
+          : ctx.from?.first_name
           ? `${ctx.from.first_name}${ctx.from.last_name ? " " + ctx.from.last_name : ""}`
           : ctx.from?.username ?? null,
-        replyToMessageId:
-          msg.reply_to_message && "message_id" in msg.reply_to_message
-            ? msg.reply_to_message.message_id
-            : undefined,
+        ...(await resolveAuthorFlags(ctx, msg)),
+        replyToMessageId: repliedToMessageId(msg),
+        threadId,
       });
     }
     return next();
   });
 
-  // Handle message reactions - track reaction counts for messages
+  // Promotions and demotions keep the cached admin list current between refreshes
+  bot.on("chat_member", async (ctx) => {
+    const update = ctx.update.chat_member;
+    updateCachedChatAdmin(
+      update.chat.id,
+      update.new_chat_member.user.id,
+      update.new_chat_member.status
+    );
+  });
+
+  // Edits replace the stored content so summaries show the current wording; earlier
+  // versions are kept in editHistory
+  bot.on("edited_message", async (ctx) => {
+    const msg = ctx.editedMessage;
+    const { text, eventType, attachments, poll } = describeTelegramContent(msg);
+    const editedAtMs = (msg.edit_date ?? Math.floor(Date.now() / 1000)) * 1000;
+    editTelegramMessage(
+      msg.chat.id,
+      msg.message_id,
+      { text, eventType, attachments, poll },
+      editedAtMs
+    );
+  });
+
+  // Handle message reactions - each update is one user's old and new reaction set,
+  // so every emoji they dropped loses one and every emoji they added gains one
   bot.on("message_reaction", async (ctx) => {
     try {
       const update = ctx.update.message_reaction;
       if (!update) return;
-      
+
       const chatId = update.chat.id;
       const messageId = update.message_id;
-      
-      // Get current reactions count from the update
-      // Telegram provides reaction_counts in the message_reaction update
-      const reactionCounts = update.reaction_counts || [];
-      const totalReactions = reactionCounts.reduce((sum, rc) => sum + (rc.count || 0), 0);
-      
-      if (totalReactions > 0) {
-        updateTelegramMessageReactions(chatId, messageId, totalReactions);
-      } else {
-        // No reactions - set to 0
-        updateTelegramMessageReactions(chatId, messageId, 0);
+      const stored = getTelegramMessage(chatId, messageId);
+      if (!stored) return;
+
+      const counts = new Map(
+        (stored.reactions ?? []).map((reaction) => [reaction.emoji, reaction.count])
+      );
+      for (const reaction of update.old_reaction) {
+        const emoji = reactionLabel(reaction);
+        counts.set(emoji, (counts.get(emoji) ?? 0) - 1);
       }
+      for (const reaction of update.new_reaction) {
+        const emoji = reactionLabel(reaction);
+        counts.set(emoji, (counts.get(emoji) ?? 0) + 1);
+      }
+
+      updateTelegramMessageReactions(
+        chatId,
+        messageId,
+        [...counts.entries()]
+          .filter(([, count]) => count > 0)
+          .map(([emoji, count]) => ({ emoji, count }))
+      );
     } catch (error) {
       console.warn("[telegram] Error handling message reaction:", error);
     }
   });
 
+  // Anonymous reactions (channels, anonymous admins) only arrive as full per-emoji totals
+  bot.on("message_reaction_count", async (ctx) => {
+    const update = ctx.update.message_reaction_count;
+    const stored = getTelegramMessage(update.chat.id, update.message_id);
+    if (!stored) return;
+
+    updateTelegramMessageReactions(
+      update.chat.id,
+      update.message_id,
+      update.reactions.map((reaction) => ({
+        emoji: reactionLabel(reaction.type),
+        count: reaction.total_count,
+      }))
+    );
+  });
+
   bot.command("start", async (ctx) => {
     await ctx.reply(
-      "Hey! I'm the x402 Summariser Bot. Use /summarise <minutes> to get a recap."
+      "Hey! I'm the x402 Summariser Bot. Use /summarise <minutes> to get a recap " +
+        "(in a forum group, /summarise <minutes> topics recaps every topic), " +
+        "/summarise_dm <minutes> to get it in a private message, " +
+        "or /topup to prepay so summaries skip the payment link."
     );
-  });
 
-  bot.command("summarise", async (ctx) => {
-    const lookbackResult = extractLookback(ctx.message?.text);
+    // Hand over /summarise_dm summaries that were paid for before the user had started the bot
+    if (ctx.chat.type !== "private") return;
+    const held = heldTelegramSummaries.take(String(ctx.from?.id));
+    for (const html of held?.summaries ?? []) {
+      for (const part of splitTelegramHtml(html)) {
+        await ctx.reply(part, { parse_mode: "HTML" });
+      }
+    }
+  });
 
-    if (typeof lookbackResult === "object" && "error" in lookbackResult) {
-      await ctx.reply(
-        `❌ ${lookbackResult.error}\n\nUsage: /summarise 60`
-      );
+  bot.command("topup", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) {
+      await ctx.reply("❌ Could not determine your user id.");
       return;
     }
 
-    const lookbackMinutes = lookbackResult;
+    const url = new URL("/pay", options.baseUrl);
+    url.searchParams.set("source", "topup");
+    url.searchParams.set("telegramUserId", String(userId));
+
+    const balance = getCreditBalance(telegramAccount(userId));
+    const keyboard = new InlineKeyboard().url(
+      `Top up $${formatUsdcAmount(TOPUP_AMOUNT_BASE_UNITS)} via x402`,
+      url.toString()
+    );
+
+    await ctx.reply(
+      `💰 Your summary credit: $${formatUsdcAmount(balance)}\n\n` +
+        `Top up once and /summarise is paid from your balance instead of a payment link.`,
+      { reply_markup: keyboard }
+    );
+  });
+
+  // Bots never hear about deletions, so admins reply /forget to a message to drop it from history
+  bot.command("forget", async (ctx) => {
     const chatId = ctx.chat?.id;
+    const targetId = repliedToMessageId(ctx.message);
+    if (!chatId || targetId === undefined) {
+      await ctx.reply("Reply /forget to the message that should be left out of summaries.");
+      return;
+    }
 
-    if (!chatId) {
-      await ctx.reply("❌ Could not determine chat id.");
+    // Anonymous admins send commands as the group itself
+    const anonymousAdmin = ctx.message?.sender_chat?.id === chatId;
+    if (!anonymousAdmin && !(await canUseAdminCommand(ctx))) {
+      await ctx.reply("❌ Only chat admins can use /forget.");
       return;
     }
 
+    const removed = removeTelegramMessage(chatId, targetId);
+    await ctx.reply(
+      removed
+        ? "🗑️ Forgotten. That message won't appear in summaries."
+        : "That message isn't in my history, so there's nothing to forget."
+    );
+  });
+
+  // Shared by /summarise with a lookback and the preset picker buttons: pays from credit when
+  // the requester has enough, otherwise posts the x402 payment link
+  const requestSummary = async (
+    ctx: Context,
+    request: {
+      chatId: number;
+      threadId?: number;
+      perTopic: boolean;
+      messageId?: number;
+      lookbackMinutes?: number;
+      lookbackClamped?: boolean; // "today" or "since …" reached past MAX_LOOKBACK_MINUTES
+      fromMessageId?: number;
+      replyTree?: boolean;
+      deliverPrivately: boolean;
+    }
+  ) => {
+    const { chatId, threadId, perTopic, lookbackMinutes, fromMessageId, replyTree } = request;
+    const userId = ctx.from?.id;
+    // Private delivery only means something outside a private chat with the bot
+    const deliverPrivately = request.deliverPrivately && ctx.chat?.type !== "private";
+    const chatTitle = ctx.chat && "title" in ctx.chat ? ctx.chat.title : undefined;
+
+    if (deliverPrivately) {
+      // Bots can't open a conversation, so find out before payment whether the DM will land
+      try {
+        if (!userId) throw new Error("No requesting user");
+        await ctx.api.sendMessage(
+          userId,
+          `🔒 Your summary of ${chatTitle ?? "the group"} will arrive here once it's ready.`
+        );
+      } catch (error) {
+        console.warn(`[telegram] Cannot message user ${userId} privately:`, error);
+        const keyboard = new InlineKeyboard().url(
+          "Open a private chat",
+          `https://t.me/${ctx.me.username}?start=summarise_dm`
+        );
+        await ctx.reply(
+          "🔒 I can't message you privately yet. Open a chat with me, press Start, " +
+            "then send /summarise_dm here again.",
+          { reply_markup: keyboard }
+        );
+        return;
+      }
+    }
+
+    const callbackData = {
+      chatId,
+      threadId,
+      perTopic,
+      messageId: request.messageId,
+      userId,
+      username: ctx.from?.username,
+      chatTitle,
+      deliverPrivately,
+      lookbackMinutes,
+      fromMessageId,
+      replyTree,
+    };
+
+    if (userId && options.summariseWithCredit) {
+      try {
+        const paidWithCredit = await options.summariseWithCredit(userId, {
+          ...callbackData,
+          expiresAt: Date.now() + PAYMENT_CALLBACK_EXPIRY_MS,
+        });
+        if (paidWithCredit) {
+          return;
+        }
+      } catch (error) {
+        console.error("[telegram] Credit-paid summary failed:", error);
+        await ctx.reply("❌ Summary failed. Your credit has been refunded.");
+        return;
+      }
+    }
+
     const token = `${chatId}:${Date.now()}:${crypto.randomUUID()}`;
 
     const callbackParam = encodeURIComponent(token);
@@ -112,16 +490,45 @@ export function createTelegramBot(options: {
     url.searchParams.set("source", "telegram");
     url.searchParams.set("telegram_callback", callbackParam);
     url.searchParams.set("chatId", String(chatId));
-    url.searchParams.set("lookbackMinutes", String(lookbackMinutes));
+    if (fromMessageId !== undefined) {
+      url.searchParams.set("fromMessageId", String(fromMessageId));
+      if (replyTree) url.searchParams.set("replyTree", "1");
+    } else {
+      url.searchParams.set("lookbackMinutes", String(lookbackMinutes));
+    }
+    if (perTopic) {
+      url.searchParams.set("perTopic", "1");
+    } else if (threadId !== undefined) {
+      url.searchParams.set("threadId", String(threadId));
+    }
 
+    const quote = await quoteTelegramSummary(
+      chatId,
+      { lookbackMinutes, threadId: perTopic ? undefined : threadId, fromMessageId, replyTree },
+      perTopic
+    );
+    const scope = perTopic
+      ? "each topic of this group"
+      : threadId !== undefined
+      ? "this topic"
+      : "this chat";
+    const coverage = replyTree
+      ? "the replied message and the replies under it"
+      : fromMessageId !== undefined
+      ? `${scope} from the replied message to now`
+      : `the last ${lookbackMinutes} minutes of ${scope}` +
+        (request.lookbackClamped
+          ? ` (capped at ${formatLookbackLabel(MAX_LOOKBACK_MINUTES)}, as far back as I go)`
+          : "");
     const keyboard = new InlineKeyboard().url(
-      "Pay $0.05 via x402",
+      `Pay $${quote.display} via x402`,
       url.toString()
     );
 
     const paymentMessage = await ctx.reply(
       `🪙 *Payment Required*\n\n` +
-        `We'll summarise the last ${lookbackMinutes} minutes of this chat.`,
+        `We'll summarise ${coverage}.` +
+        (deliverPrivately ? " The summary will be sent to you privately." : ""),
       {
         parse_mode: "Markdown",
         reply_markup: keyboard,
@@ -129,14 +536,113 @@ export function createTelegramBot(options: {
     );
 
     pendingTelegramCallbacks.set(token, {
-      chatId,
-      threadId: "message_thread_id" in ctx.message ? ctx.message.message_thread_id : undefined,
-      messageId: ctx.message?.message_id,
-      username: ctx.from?.username,
-      lookbackMinutes,
+      ...callbackData,
       paymentMessageId: paymentMessage.message_id,
       expiresAt: Date.now() + PAYMENT_CALLBACK_EXPIRY_MS,
     });
+  };
+
+  // /summarise posts the summary in the chat; /summarise_dm sends it to the requester instead
+  const handleSummarise = (deliverPrivately: boolean) => async (ctx: CommandContext<Context>) => {
+    const chatId = ctx.chat?.id;
+
+    if (!chatId) {
+      await ctx.reply("❌ Could not determine chat id.");
+      return;
+    }
+
+    const threadId = ctx.message?.is_topic_message ? ctx.message.message_thread_id : undefined;
+    const perTopic = wantsPerTopicDigest(ctx.message?.text);
+    const args = commandArguments(ctx.message?.text);
+    const repliedId = repliedToMessageId(ctx.message);
+    const wantsReplyTree =
+      args.length === 1 && args[0].toLowerCase() === REPLY_TREE_KEYWORD;
+
+    if (wantsReplyTree && repliedId === undefined) {
+      await ctx.reply("Reply /summarise thread to the message whose replies should be summarised.");
+      return;
+    }
+
+    // As a reply, /summarise covers the replied message up to now instead of a lookback window
+    if (repliedId !== undefined && (args.length === 0 || wantsReplyTree)) {
+      const covered = wantsReplyTree
+        ? getTelegramReplyTree(chatId, repliedId)
+        : getTelegramMessagesBetween(chatId, repliedId, undefined, threadId);
+      if (covered.length === 0) {
+        await ctx.reply("❌ That message isn't in my history, so I can't summarise from it.");
+        return;
+      }
+      await requestSummary(ctx, {
+        chatId,
+        threadId,
+        perTopic: false,
+        messageId: ctx.message?.message_id,
+        fromMessageId: repliedId,
+        replyTree: wantsReplyTree,
+        deliverPrivately,
+      });
+      return;
+    }
+
+    const lookbackResult = extractLookback(ctx.message?.text);
+
+    if (lookbackResult === null) {
+      const keyboard = new InlineKeyboard();
+      for (const minutes of LOOKBACK_PRESETS) {
+        keyboard.text(
+          formatLookbackLabel(minutes),
+          `summarise:${minutes}${perTopic ? ":topics" : ""}${deliverPrivately ? ":dm" : ""}`
+        );
+      }
+      await ctx.reply("How far back should I summarise?", {
+        reply_markup: keyboard,
+        reply_parameters: ctx.message ? { message_id: ctx.message.message_id } : undefined,
+      });
+      return;
+    }
+
+    if ("error" in lookbackResult) {
+      await ctx.reply(`❌ ${lookbackResult.error}\n\n${LOOKBACK_USAGE}`);
+      return;
+    }
+
+    await requestSummary(ctx, {
+      chatId,
+      threadId,
+      perTopic,
+      messageId: ctx.message?.message_id,
+      lookbackMinutes: lookbackResult.minutes,
+      lookbackClamped: "clamped" in lookbackResult,
+      deliverPrivately,
+    });
+  };
+
+  bot.command("summarise", handleSummarise(false));
+  bot.command("summarise_dm", handleSummarise(true));
+
+  bot.callbackQuery(LOOKBACK_CALLBACK_PATTERN, async (ctx) => {
+    const picker = ctx.callbackQuery.message;
+    const chatId = picker?.chat.id;
+    await ctx.answerCallbackQuery();
+    if (!picker || !chatId) {
+      return;
+    }
+
+    // The picker is replaced by the payment prompt (or the summary, when paid from credit)
+    try {
+      await ctx.api.deleteMessage(chatId, picker.message_id);
+    } catch (error) {
+      console.warn("[telegram] Failed to delete lookback picker:", error);
+    }
+
+    await requestSummary(ctx, {
+      chatId,
+      threadId: picker.is_topic_message ? picker.message_thread_id : undefined,
+      perTopic: ctx.match[2] !== undefined,
+      messageId: picker.reply_to_message?.message_id,
+      lookbackMinutes: Number(ctx.match[1]),
+      deliverPrivately: ctx.match[3] !== undefined,
+    });
   });
 
   return bot;
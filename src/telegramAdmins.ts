@@ -0,0 +1,72 @@
+import type { Api } from "grammy";
+
+// Administrator IDs per chat, from getChatAdministrators. Entries expire so promotions the bot
+// never hears about are picked up eventually; chat_member updates patch them in place.
+
+const ADMIN_CACHE_TTL_MS = Number(process.env.TELEGRAM_ADMIN_CACHE_TTL_MS ?? 10 * 60 * 1000);
+const ADMIN_STATUSES = new Set(["creator", "administrator"]);
+
+type CachedAdmins = {
+  adminIds: Set<number>;
+  expiresAt: number;
+};
+
+const adminCache = new Map<number, CachedAdmins>();
+const inflightLookups = new Map<number, Promise<Set<number>>>();
+
+function isAdminStatus(status: string): boolean {
+  return ADMIN_STATUSES.has(status);
+}
+
+export async function getChatAdminIds(api: Api, chatId: number): Promise<Set<number>> {
+  const cached = adminCache.get(chatId);
+  if (cached && cached.expiresAt >= Date.now()) {
+    return cached.adminIds;
+  }
+
+  // Messages arrive in bursts; share one lookup between them
+  const inflight = inflightLookups.get(chatId);
+  if (inflight) {
+    return inflight;
+  }
+
+  const lookup = (async () => {
+    let adminIds = new Set<number>();
+    try {
+      const admins = await api.getChatAdministrators(chatId);
+      adminIds = new Set(admins.map((member) => member.user.id));
+    } catch (error) {
+      // Cached empty for the TTL so a chat we can't query isn't retried on every message
+      console.warn(`[telegram] Could not fetch administrators for chat ${chatId}:`, error);
+    }
+    adminCache.set(chatId, { adminIds, expiresAt: Date.now() + ADMIN_CACHE_TTL_MS });
+    return adminIds;
+  })();
+
+  inflightLookups.set(chatId, lookup);
+  try {
+    return await lookup;
+  } finally {
+    inflightLookups.delete(chatId);
+  }
+}
+
+// Applies a chat_member status change to the cached list, if the chat is cached at all
+export function updateCachedChatAdmin(chatId: number, userId: number, status: string) {
+  const cached = adminCache.get(chatId);
+  if (!cached) return;
+
+  if (isAdminStatus(status)) {
+    cached.adminIds.add(userId);
+  } else {
+    cached.adminIds.delete(userId);
+  }
+}
+
+export function clearChatAdminCache(chatId?: number) {
+  if (chatId === undefined) {
+    adminCache.clear();
+  } else {
+    adminCache.delete(chatId);
+  }
+}
@@ -0,0 +1,203 @@
+// Renders the summariser's Markdown (bold headers, bullets, _closers_, links, code) as Telegram
+// HTML and splits it into messages that fit Telegram's length limit. HTML needs only &, < and >
+// escaped (plus " inside a link's href), which is far less fragile than MarkdownV2's eighteen
+// reserved characters.
+
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+const PLACEHOLDER_PATTERN = /\u0000(\d+)\u0000/g;
+const TAG_PATTERN = /<(\/?)([a-z]+)(?:\s[^>]*)?>/g;
+const EMPTY_ELEMENT_PATTERN = /<([a-z]+)(?:\s[^>]*)?><\/\1>/g;
+
+export function escapeTelegramHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function tagsBalance(html: string): boolean {
+  const open: string[] = [];
+  for (const [, closing, name] of html.matchAll(TAG_PATTERN)) {
+    if (!closing) open.push(name);
+    else if (open.pop() !== name) return false;
+  }
+  return open.length === 0;
+}
+
+// Wraps each match of `pattern` (the prefix to keep, if any, then the inner text) in `tag`. Markers
+// that would cross a tag from an earlier pass stay literal, so "**a _b** c_" keeps its second
+// underscore pair rather than rendering as <b>a <i>b</b> c</i>, which Telegram rejects.
+function wrapEmphasis(text: string, pattern: RegExp, tag: string, hasPrefix = false): string {
+  return text.replace(pattern, (match, ...groups: string[]) => {
+    const [prefix, inner] = hasPrefix ? groups : ["", groups[0]];
+    return tagsBalance(inner) ? `${prefix}<${tag}>${inner}</${tag}>` : match;
+  });
+}
+
+function renderEmphasis(escaped: string): string {
+  let html = escaped;
+  html = wrapEmphasis(html, /\*\*(\S(?:.*?\S)?)\*\*/g, "b");
+  html = wrapEmphasis(html, /__(\S(?:.*?\S)?)__/g, "b");
+  html = wrapEmphasis(html, /~~(\S(?:.*?\S)?)~~/g, "s");
+  // Single markers only count at word edges, so snake_case and 2*3*4 stay as they are
+  html = wrapEmphasis(html, /(^|[^*\w])\*(\S(?:[^*]*?\S)?)\*(?!\w)/g, "i", true);
+  return wrapEmphasis(html, /(^|[^\w])_(\S(?:[^_]*?\S)?)_(?!\w)/g, "i", true);
+}
+
+function renderInline(text: string): string {
+  // Code spans and links are rendered first and parked, so emphasis never reaches inside them
+  const parked: string[] = [];
+  const park = (html: string) => `\u0000${parked.push(html) - 1}\u0000`;
+
+  const withPlaceholders = text
+    .replace(/`([^`\n]+)`/g, (_, code: string) => park(`<code>${escapeTelegramHtml(code)}</code>`))
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, url: string) =>
+      park(
+        `<a href="${escapeTelegramHtml(url).replace(/"/g, "&quot;")}">` +
+          `${renderEmphasis(escapeTelegramHtml(label))}</a>`
+      )
+    );
+
+  return renderEmphasis(escapeTelegramHtml(withPlaceholders)).replace(
+    PLACEHOLDER_PATTERN,
+    (_, index: string) => parked[Number(index)]
+  );
+}
+
+export function renderTelegramHtml(markdown: string): string {
+  const lines: string[] = [];
+  let codeBlock: string[] | null = null;
+
+  for (const line of markdown.replace(/\r\n/g, "\n").split("\n")) {
+    if (/^\s*```/.test(line)) {
+      if (codeBlock) {
+        lines.push(`<pre>${escapeTelegramHtml(codeBlock.join("\n"))}</pre>`);
+        codeBlock = null;
+      } else {
+        codeBlock = [];
+      }
+      continue;
+    }
+    if (codeBlock) {
+      codeBlock.push(line);
+      continue;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      lines.push(`<b>${renderInline(heading[1].replace(/^\*\*(.*)\*\*$/, "$1"))}</b>`);
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (bullet) {
+      lines.push(`${bullet[1]}• ${renderInline(bullet[2])}`);
+      continue;
+    }
+
+    lines.push(renderInline(line));
+  }
+
+  // An unterminated fence still renders as code rather than leaking backticks
+  if (codeBlock) {
+    lines.push(`<pre>${escapeTelegramHtml(codeBlock.join("\n"))}</pre>`);
+  }
+
+  return lines.join("\n");
+}
+
+// The text of rendered HTML with its markup dropped, for resending a message Telegram refused to
+// parse. Links keep their URL after the label.
+export function telegramHtmlToText(html: string): string {
+  return html
+    .replace(/<a href="([^"]*)">([\s\S]*?)<\/a>/g, (_, url: string, label: string) =>
+      label === url ? label : `${label} (${url})`
+    )
+    .replace(TAG_PATTERN, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+// Where to cut `text` so the first part is at most `room` characters: the last line break,
+// else the last space, else a hard cut that doesn't land inside an &entity;
+function findCut(text: string, room: number): number {
+  const window = text.slice(0, room + 1);
+  const lineBreak = window.lastIndexOf("\n");
+  if (lineBreak > 0) return lineBreak;
+  const space = window.lastIndexOf(" ");
+  if (space > 0) return space;
+
+  const ampersand = text.lastIndexOf("&", room - 1);
+  if (ampersand > 0 && !text.slice(ampersand, room).includes(";")) return ampersand;
+  return room;
+}
+
+// Splits rendered HTML into messages of at most `limit` characters. Tags still open at a cut are
+// closed at the end of one message and reopened at the start of the next.
+export function splitTelegramHtml(html: string, limit = TELEGRAM_MESSAGE_LIMIT): string[] {
+  const messages: string[] = [];
+  const open: { name: string; tag: string }[] = [];
+  let current = "";
+  let hasContent = false;
+
+  const closingTags = () =>
+    [...open]
+      .reverse()
+      .map((entry) => `</${entry.name}>`)
+      .join("");
+  const flush = () => {
+    // A cut right after an opening tag leaves it empty here; drop it (and any parent it empties)
+    let message = current + closingTags();
+    for (let previous = ""; previous !== message; ) {
+      previous = message;
+      message = message.replace(EMPTY_ELEMENT_PATTERN, "");
+    }
+    if (message.trim()) messages.push(message.trim());
+    current = open.map((entry) => entry.tag).join("");
+    hasContent = false;
+  };
+
+  const appendText = (text: string) => {
+    let rest = text;
+    while (rest) {
+      const room = limit - current.length - closingTags().length;
+      if (rest.length <= room) {
+        current += rest;
+        hasContent ||= rest.trim().length > 0;
+        return;
+      }
+      const cut = Math.max(findCut(rest, room), 1);
+      // Only whitespace would fit before the break; start the next message instead
+      if (hasContent && rest.slice(0, cut).trim().length === 0) {
+        flush();
+        continue;
+      }
+      current += rest.slice(0, cut);
+      rest = rest.slice(cut).replace(/^[ \n]/, "");
+      flush();
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    appendText(html.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+
+    const [tag, closing, name] = match;
+    const closingLength = closing ? 0 : `</${name}>`.length;
+    if (current.length + tag.length + closingTags().length + closingLength > limit) {
+      flush();
+    }
+    current += tag;
+    if (closing) {
+      const index = open.map((entry) => entry.name).lastIndexOf(name);
+      if (index !== -1) open.splice(index, 1);
+    } else {
+      open.push({ name, tag });
+    }
+  }
+  appendText(html.slice(lastIndex));
+
+  if (hasContent) flush();
+  return messages;
+}
@@ -1,53 +1,566 @@
+import type { Database } from "bun:sqlite";
+import { getDatabase, runMigrations } from "./db";
+
+// Non-text content of a message: media, files, locations. Captions live in the message text.
+export type TelegramStoredAttachment = {
+  kind: string; // photo, video, document, voice, audio, animation, sticker, location, venue, ...
+  fileName?: string | null;
+  mimeType?: string | null;
+  description?: string | null; // sticker emoji, coordinates, venue address, audio title
+};
+
+export type TelegramStoredPoll = {
+  question: string;
+  options: string[];
+};
+
+// `emoji` is the emoji itself, "custom:<id>" for custom emoji, or "paid" for star reactions
+export type TelegramStoredReaction = {
+  emoji: string;
+  count: number;
+};
+
+export type TelegramMessageRevision = {
+  text: string;
+  replacedAtMs: number;
+};
+
+// The parts of a message an edit can change
+export type TelegramMessageContent = Pick<
+  TelegramStoredMessage,
+  "text" | "eventType" | "attachments" | "poll"
+>;
+
 export type TelegramStoredMessage = {
   messageId: number;
-  text: string;
+  text: string; // message text, or the caption for media
+  eventType?: string; // "message" for plain text, otherwise the media kind or "poll"
+  attachments?: TelegramStoredAttachment[];
+  poll?: TelegramStoredPoll;
+  forwardOrigin?: string | null; // who the message was forwarded from, e.g. 'channel "Releases"'
+  editHistory?: TelegramMessageRevision[]; // earlier versions, oldest first
+
   timestampMs: number;
   authorId?: number;
   authorUsername?: string | null;
   authorDisplay?: string | null;
+  authorIsAdmin?: boolean; // chat admin when the message was sent (or posting anonymously as the chat)
+  authorIsBot?: boolean;
   replyToMessageId?: number;
+  threadId?: number; // forum topic (message_thread_id); unset outside topics
   reactionCount?: number; // Total number of reactions on this message
+  reactions?: TelegramStoredReaction[];
+};
+
+export type TelegramMessageStore = {
+  add(chatId: number, message: TelegramStoredMessage): void;
+  list(chatId: number): TelegramStoredMessage[];
+  get(chatId: number, messageId: number): TelegramStoredMessage | undefined;
+  // With a threadId only that forum topic's messages are returned
+  listSince(chatId: number, cutoffMs: number, threadId?: number): TelegramStoredMessage[];
+  // Messages with IDs from fromMessageId through toMessageId (open-ended when unset), by ID
+  listRange(
+    chatId: number,
+    fromMessageId: number,
+    toMessageId?: number,
+    threadId?: number
+  ): TelegramStoredMessage[];
+  setTopicName(chatId: number, threadId: number, name: string): void;
+  listTopicNames(chatId: number): Map<number, string>;
+  // Replaces the per-emoji counts; reactionCount becomes their total
+  updateReactions(chatId: number, messageId: number, reactions: TelegramStoredReaction[]): void;
+  // Replaces the content and pushes the previous text onto editHistory; false if not stored
+  edit(chatId: number, messageId: number, content: TelegramMessageContent, editedAtMs: number): boolean;
+  remove(chatId: number, messageId: number): boolean;
+  clear(chatId: number): void;
+  prune(cutoffMs: number): void;
 };
 
 const MAX_MESSAGES_PER_CHAT = 1000;
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const GLOBAL_PRUNE_INTERVAL_MS = 10 * 60 * 1000;
 
-const messageStore = new Map<number, TelegramStoredMessage[]>();
+export function createInMemoryTelegramStore(): TelegramMessageStore {
+  const messageStore = new Map<number, TelegramStoredMessage[]>();
+  const topicNames = new Map<number, Map<number, string>>();
 
-export function addTelegramMessage(chatId: number, message: TelegramStoredMessage) {
-  const existing = messageStore.get(chatId) ?? [];
-  existing.push(message);
-  const cutoff = Date.now() - 24 * 60 * 60 * 1000;
-  const recent = existing.filter((entry) => entry.timestampMs >= cutoff);
-  if (recent.length > MAX_MESSAGES_PER_CHAT) {
-    recent.splice(0, recent.length - MAX_MESSAGES_PER_CHAT);
+  return {
+    add(chatId, message) {
+      const existing = messageStore.get(chatId) ?? [];
+      // A message seen again replaces the stored copy; like the SQLite upsert, its reactions and
+      // edit history are kept
+      const index = existing.findIndex((entry) => entry.messageId === message.messageId);
+      if (index === -1) {
+        existing.push(message);
+      } else {
+        const { reactionCount, reactions, editHistory } = existing[index];
+        existing[index] = { ...message, reactionCount, reactions, editHistory };
+      }
+      const cutoff = Date.now() - RETENTION_MS;
+      const recent = existing.filter((entry) => entry.timestampMs >= cutoff);
+      if (recent.length > MAX_MESSAGES_PER_CHAT) {
+        recent.splice(0, recent.length - MAX_MESSAGES_PER_CHAT);
+      }
+      messageStore.set(chatId, recent);
+    },
+    list(chatId) {
+      return messageStore.get(chatId) ?? [];
+    },
+    get(chatId, messageId) {
+      return messageStore.get(chatId)?.find((msg) => msg.messageId === messageId);
+    },
+    listSince(chatId, cutoffMs, threadId) {
+      return (messageStore.get(chatId) ?? []).filter(
+        (msg) =>
+          msg.timestampMs >= cutoffMs && (threadId === undefined || msg.threadId === threadId)
+      );
+    },
+    listRange(chatId, fromMessageId, toMessageId, threadId) {
+      return (messageStore.get(chatId) ?? [])
+        .filter(
+          (msg) =>
+            msg.messageId >= fromMessageId &&
+            (toMessageId === undefined || msg.messageId <= toMessageId) &&
+            (threadId === undefined || msg.threadId === threadId)
+        )
+        .sort((a, b) => a.messageId - b.messageId);
+    },
+    setTopicName(chatId, threadId, name) {
+      const names = topicNames.get(chatId) ?? new Map<number, string>();
+      names.set(threadId, name);
+      topicNames.set(chatId, names);
+    },
+    listTopicNames(chatId) {
+      return new Map(topicNames.get(chatId) ?? []);
+    },
+    updateReactions(chatId, messageId, reactions) {
+      const messages = messageStore.get(chatId);
+      if (!messages) return;
+
+      const message = messages.find((msg) => msg.messageId === messageId);
+      if (message) {
+        message.reactions = reactions;
+        message.reactionCount = totalReactions(reactions);
+      }
+    },
+    edit(chatId, messageId, content, editedAtMs) {
+      const message = messageStore.get(chatId)?.find((msg) => msg.messageId === messageId);
+      if (!message) return false;
+
+      message.editHistory = [
+        ...(message.editHistory ?? []),
+        { text: message.text, replacedAtMs: editedAtMs },
+      ];
+      Object.assign(message, content);
+      return true;
+    },
+    remove(chatId, messageId) {
+      const messages = messageStore.get(chatId);
+      const index = messages?.findIndex((msg) => msg.messageId === messageId) ?? -1;
+      if (!messages || index === -1) return false;
+      messages.splice(index, 1);
+      return true;
+    },
+    clear(chatId) {
+      messageStore.delete(chatId);
+      topicNames.delete(chatId);
+    },
+    prune(cutoffMs) {
+      for (const [chatId, messages] of messageStore.entries()) {
+        const recent = messages.filter((msg) => msg.timestampMs >= cutoffMs);
+        if (recent.length) {
+          messageStore.set(chatId, recent);
+        } else {
+          messageStore.delete(chatId);
+        }
+      }
+    },
+  };
+}
+
+const TELEGRAM_STORE_MIGRATIONS = [
+  `CREATE TABLE telegram_messages (
+     chat_id INTEGER NOT NULL,
+     message_id INTEGER NOT NULL,
+     text TEXT NOT NULL,
+     timestamp_ms INTEGER NOT NULL,
+     author_id INTEGER,
+     author_username TEXT,
+     author_display TEXT,
+     reply_to_message_id INTEGER,
+     reaction_count INTEGER,
+     PRIMARY KEY (chat_id, message_id)
+   );
+   CREATE INDEX telegram_messages_chat_timestamp
+     ON telegram_messages (chat_id, timestamp_ms);`,
+  `ALTER TABLE telegram_messages ADD COLUMN thread_id INTEGER;
+   CREATE TABLE telegram_topics (
+     chat_id INTEGER NOT NULL,
+     thread_id INTEGER NOT NULL,
+     name TEXT NOT NULL,
+     PRIMARY KEY (chat_id, thread_id)
+   );`,
+  `ALTER TABLE telegram_messages ADD COLUMN event_type TEXT;
+   ALTER TABLE telegram_messages ADD COLUMN attachments_json TEXT;
+   ALTER TABLE telegram_messages ADD COLUMN poll_json TEXT;
+   ALTER TABLE telegram_messages ADD COLUMN forward_origin TEXT;`,
+  `ALTER TABLE telegram_messages ADD COLUMN edit_history_json TEXT;`,
+  `ALTER TABLE telegram_messages ADD COLUMN reactions_json TEXT;`,
+  `ALTER TABLE telegram_messages ADD COLUMN author_is_admin INTEGER;
+   ALTER TABLE telegram_messages ADD COLUMN author_is_bot INTEGER;`,
+];
+
+function totalReactions(reactions: TelegramStoredReaction[]) {
+  return reactions.reduce((sum, reaction) => sum + reaction.count, 0);
+}
+
+type TelegramMessageRow = {
+  message_id: number;
+  text: string;
+  timestamp_ms: number;
+  author_id: number | null;
+  author_username: string | null;
+  author_display: string | null;
+  reply_to_message_id: number | null;
+  thread_id: number | null;
+  reaction_count: number | null;
+  event_type: string | null;
+  attachments_json: string | null;
+  poll_json: string | null;
+  forward_origin: string | null;
+  edit_history_json: string | null;
+  reactions_json: string | null;
+  author_is_admin: number | null;
+  author_is_bot: number | null;
+};
+
+function rowToMessage(row: TelegramMessageRow): TelegramStoredMessage {
+  return {
+    messageId: row.message_id,
+    text: row.text,
+    eventType: row.event_type ?? undefined,
+    attachments: row.attachments_json ? JSON.parse(row.attachments_json) : undefined,
+    poll: row.poll_json ? JSON.parse(row.poll_json) : undefined,
+    forwardOrigin: row.forward_origin,
+    editHistory: row.edit_history_json ? JSON.parse(row.edit_history_json) : undefined,
+    timestampMs: row.timestamp_ms,
+    authorId: row.author_id ?? undefined,
+    authorUsername: row.author_username,
+    authorDisplay: row.author_display,
+    authorIsAdmin: row.author_is_admin === null ? undefined : row.author_is_admin === 1,
+    authorIsBot: row.author_is_bot === null ? undefined : row.author_is_bot === 1,
+    replyToMessageId: row.reply_to_message_id ?? undefined,
+    threadId: row.thread_id ?? undefined,
+    reactionCount: row.reaction_count ?? undefined,
+    reactions: row.reactions_json ? JSON.parse(row.reactions_json) : undefined,
+  };
+}
+
+export function createSqliteTelegramStore(db: Database): TelegramMessageStore {
+  runMigrations(db, "telegram_messages", TELEGRAM_STORE_MIGRATIONS);
+
+  const insertMessage = db.query(
+    `INSERT INTO telegram_messages (
+       chat_id, message_id, text, timestamp_ms, author_id, author_username,
+       author_display, reply_to_message_id, thread_id, reaction_count,
+       event_type, attachments_json, poll_json, forward_origin, author_is_admin, author_is_bot
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(chat_id, message_id) DO UPDATE SET
+       text = excluded.text,
+       timestamp_ms = excluded.timestamp_ms,
+       author_id = excluded.author_id,
+       author_username = excluded.author_username,
+       author_display = excluded.author_display,
+       reply_to_message_id = excluded.reply_to_message_id,
+       thread_id = excluded.thread_id,
+       event_type = excluded.event_type,
+       attachments_json = excluded.attachments_json,
+       poll_json = excluded.poll_json,
+       forward_origin = excluded.forward_origin,
+       author_is_admin = excluded.author_is_admin,
+       author_is_bot = excluded.author_is_bot`
+  );
+  const pruneChat = db.query(
+    `DELETE FROM telegram_messages
+     WHERE chat_id = ?1
+       AND (
+         timestamp_ms < ?2
+         OR message_id NOT IN (
+           SELECT message_id FROM telegram_messages
+           WHERE chat_id = ?1
+           ORDER BY timestamp_ms DESC, message_id DESC
+           LIMIT ?3
+         )
+       )`
+  );
+  const pruneAll = db.query("DELETE FROM telegram_messages WHERE timestamp_ms < ?");
+  const selectChat = db.query(
+    `SELECT * FROM telegram_messages
+     WHERE chat_id = ?
+     ORDER BY timestamp_ms ASC, message_id ASC`
+  );
+  const selectChatSince = db.query(
+    `SELECT * FROM telegram_messages
+     WHERE chat_id = ? AND timestamp_ms >= ?
+     ORDER BY timestamp_ms ASC, message_id ASC`
+  );
+  const selectTopicSince = db.query(
+    `SELECT * FROM telegram_messages
+     WHERE chat_id = ? AND timestamp_ms >= ? AND thread_id = ?
+     ORDER BY timestamp_ms ASC, message_id ASC`
+  );
+  const selectRange = db.query(
+    `SELECT * FROM telegram_messages
+     WHERE chat_id = ?1 AND message_id >= ?2
+       AND (?3 IS NULL OR message_id <= ?3)
+       AND (?4 IS NULL OR thread_id = ?4)
+     ORDER BY message_id ASC`
+  );
+  const upsertTopicName = db.query(
+    `INSERT INTO telegram_topics (chat_id, thread_id, name) VALUES (?, ?, ?)
+     ON CONFLICT(chat_id, thread_id) DO UPDATE SET name = excluded.name`
+  );
+  const selectTopicNames = db.query("SELECT thread_id, name FROM telegram_topics WHERE chat_id = ?");
+  const deleteChatTopics = db.query("DELETE FROM telegram_topics WHERE chat_id = ?");
+  const updateReactionCounts = db.query(
+    `UPDATE telegram_messages SET reaction_count = ?, reactions_json = ?
+     WHERE chat_id = ? AND message_id = ?`
+  );
+  const deleteChat = db.query("DELETE FROM telegram_messages WHERE chat_id = ?");
+  const selectMessage = db.query(
+    "SELECT * FROM telegram_messages WHERE chat_id = ? AND message_id = ?"
+  );
+  const updateContent = db.query(
+    `UPDATE telegram_messages
+     SET text = ?, event_type = ?, attachments_json = ?, poll_json = ?, edit_history_json = ?
+     WHERE chat_id = ? AND message_id = ?`
+  );
+  const deleteMessage = db.query(
+    "DELETE FROM telegram_messages WHERE chat_id = ? AND message_id = ?"
+  );
+
+  // Chats that go quiet never trigger their per-chat prune, so sweep everything now and then
+  let lastGlobalPruneMs = 0;
+
+  const store: TelegramMessageStore = {
+    add(chatId, message) {
+      const now = Date.now();
+      const cutoff = now - RETENTION_MS;
+      insertMessage.run(
+        chatId,
+        message.messageId,
+        message.text,
+        message.timestampMs,
+        message.authorId ?? null,
+        message.authorUsername ?? null,
+        message.authorDisplay ?? null,
+        message.replyToMessageId ?? null,
+        message.threadId ?? null,
+        message.reactionCount ?? null,
+        message.eventType ?? null,
+        message.attachments?.length ? JSON.stringify(message.attachments) : null,
+        message.poll ? JSON.stringify(message.poll) : null,
+        message.forwardOrigin ?? null,
+        message.authorIsAdmin === undefined ? null : Number(message.authorIsAdmin),
+        message.authorIsBot === undefined ? null : Number(message.authorIsBot)
+      );
+      pruneChat.run(chatId, cutoff, MAX_MESSAGES_PER_CHAT);
+
+      if (now - lastGlobalPruneMs >= GLOBAL_PRUNE_INTERVAL_MS) {
+        lastGlobalPruneMs = now;
+        store.prune(cutoff);
+      }
+    },
+    list(chatId) {
+      return (selectChat.all(chatId) as TelegramMessageRow[]).map(rowToMessage);
+    },
+    get(chatId, messageId) {
+      const row = selectMessage.get(chatId, messageId) as TelegramMessageRow | null;
+      return row ? rowToMessage(row) : undefined;
+    },
+    listSince(chatId, cutoffMs, threadId) {
+      const rows =
+        threadId === undefined
+          ? selectChatSince.all(chatId, cutoffMs)
+          : selectTopicSince.all(chatId, cutoffMs, threadId);
+      return (rows as TelegramMessageRow[]).map(rowToMessage);
+    },
+    listRange(chatId, fromMessageId, toMessageId, threadId) {
+      const rows = selectRange.all(chatId, fromMessageId, toMessageId ?? null, threadId ?? null);
+      return (rows as TelegramMessageRow[]).map(rowToMessage);
+    },
+    setTopicName(chatId, threadId, name) {
+      upsertTopicName.run(chatId, threadId, name);
+    },
+    listTopicNames(chatId) {
+      const rows = selectTopicNames.all(chatId) as { thread_id: number; name: string }[];
+      return new Map(rows.map((row) => [row.thread_id, row.name]));
+    },
+    updateReactions(chatId, messageId, reactions) {
+      updateReactionCounts.run(
+        totalReactions(reactions),
+        JSON.stringify(reactions),
+        chatId,
+        messageId
+      );
+    },
+    edit(chatId, messageId, content, editedAtMs) {
+      const row = selectMessage.get(chatId, messageId) as TelegramMessageRow | null;
+      if (!row) return false;
+
+      const history = [
+        ...(row.edit_history_json ? JSON.parse(row.edit_history_json) : []),
+        { text: row.text, replacedAtMs: editedAtMs },
+      ];
+      updateContent.run(
+        content.text,
+        content.eventType ?? null,
+        content.attachments?.length ? JSON.stringify(content.attachments) : null,
+        content.poll ? JSON.stringify(content.poll) : null,
+        JSON.stringify(history),
+        chatId,
+        messageId
+      );
+      return true;
+    },
+    remove(chatId, messageId) {
+      return deleteMessage.run(chatId, messageId).changes > 0;
+    },
+    clear(chatId) {
+      deleteChat.run(chatId);
+      deleteChatTopics.run(chatId);
+    },
+    prune(cutoffMs) {
+      pruneAll.run(cutoffMs);
+    },
+  };
+
+  return store;
+}
+
+let activeStore: TelegramMessageStore | null = null;
+
+function getStore(): TelegramMessageStore {
+  if (!activeStore) {
+    // TELEGRAM_STORE=memory keeps everything in-process (tests, throwaway local runs)
+    activeStore =
+      process.env.TELEGRAM_STORE === "memory"
+        ? createInMemoryTelegramStore()
+        : createSqliteTelegramStore(getDatabase());
   }
-  messageStore.set(chatId, recent);
+  return activeStore;
+}
+
+export function setTelegramMessageStore(store: TelegramMessageStore) {
+  activeStore = store;
+}
+
+export function addTelegramMessage(chatId: number, message: TelegramStoredMessage) {
+  getStore().add(chatId, message);
 }
 
 export function getTelegramMessages(chatId: number) {
-  return messageStore.get(chatId) ?? [];
+  return getStore().list(chatId);
+}
+
+export function getTelegramMessage(chatId: number, messageId: number) {
+  return getStore().get(chatId, messageId);
 }
 
-export function getTelegramMessagesWithin(chatId: number, lookbackMinutes: number) {
+export function getTelegramMessagesWithin(
+  chatId: number,
+  lookbackMinutes: number,
+  threadId?: number
+) {
   const now = Date.now();
   const cutoff = now - lookbackMinutes * 60 * 1000;
-  return getTelegramMessages(chatId).filter((msg) => msg.timestampMs >= cutoff);
+  return getStore().listSince(chatId, cutoff, threadId);
+}
+
+export function getTelegramMessagesBetween(
+  chatId: number,
+  fromMessageId: number,
+  toMessageId?: number,
+  threadId?: number
+) {
+  return getStore().listRange(chatId, fromMessageId, toMessageId, threadId);
+}
+
+// The root message and everything replying to it, directly or further down the chain.
+// Replies always have higher IDs than what they answer, so one pass in ID order is enough.
+export function getTelegramReplyTree(chatId: number, rootMessageId: number, toMessageId?: number) {
+  const inTree = new Set([rootMessageId]);
+  return getStore()
+    .listRange(chatId, rootMessageId, toMessageId)
+    .filter((msg) => {
+      if (msg.messageId === rootMessageId) return true;
+      if (msg.replyToMessageId === undefined || !inTree.has(msg.replyToMessageId)) return false;
+      inTree.add(msg.messageId);
+      return true;
+    });
+}
+
+// Which stored messages a summary covers: a lookback window, or a message ID range
+// (optionally narrowed to the reply tree under fromMessageId)
+export type TelegramMessageSelection = {
+  lookbackMinutes?: number;
+  threadId?: number;
+  fromMessageId?: number;
+  toMessageId?: number;
+  replyTree?: boolean;
+};
+
+// Bot commands and empty service messages are left out of summaries
+export function isMeaningfulTelegramMessage(msg: TelegramStoredMessage) {
+  const trimmed = msg.text?.trim() ?? "";
+  if (trimmed.startsWith("/")) return false;
+  return trimmed.length > 0 || Boolean(msg.attachments?.length);
+}
+
+export function selectTelegramMessages(chatId: number, selection: TelegramMessageSelection) {
+  if (selection.fromMessageId === undefined) {
+    return getTelegramMessagesWithin(chatId, selection.lookbackMinutes ?? 60, selection.threadId);
+  }
+  if (selection.replyTree) {
+    return getTelegramReplyTree(chatId, selection.fromMessageId, selection.toMessageId);
+  }
+  return getTelegramMessagesBetween(
+    chatId,
+    selection.fromMessageId,
+    selection.toMessageId,
+    selection.threadId
+  );
+}
+
+export function setTelegramTopicName(chatId: number, threadId: number, name: string) {
+  getStore().setTopicName(chatId, threadId, name);
+}
+
+export function getTelegramTopicNames(chatId: number) {
+  return getStore().listTopicNames(chatId);
 }
 
 export function clearTelegramMessages(chatId: number) {
-  messageStore.delete(chatId);
+  getStore().clear(chatId);
+}
+
+export function editTelegramMessage(
+  chatId: number,
+  messageId: number,
+  content: TelegramMessageContent,
+  editedAtMs: number
+) {
+  return getStore().edit(chatId, messageId, content, editedAtMs);
+}
+
+export function removeTelegramMessage(chatId: number, messageId: number) {
+  return getStore().remove(chatId, messageId);
 }
 
 export function updateTelegramMessageReactions(
   chatId: number,
   messageId: number,
-  reactionCount: number
+  reactions: TelegramStoredReaction[]
 ) {
-  const messages = messageStore.get(chatId);
-  if (!messages) return;
-  
-  const message = messages.find((msg) => msg.messageId === messageId);
-  if (message) {
-    message.reactionCount = reactionCount;
-  }
+  getStore().updateReactions(chatId, messageId, reactions);
 }
@@ -0,0 +1,184 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { generatePrivateKey } from "viem/accounts";
+import { createPaymentHeader } from "x402/client";
+import { createSigner, type PaymentRequirements } from "x402/types";
+import { createFakeDiscord } from "../src/fakeDiscord";
+import { createMockFacilitator } from "../src/mockFacilitator";
+import { startServer, type TestServer } from "./helpers/server";
+
+// Prepaid credit end to end: a top-up paid through x402, then summaries drawn from the balance
+// by /summarise and by wallet payments. No LLM is configured, so any channel with messages
+// comes back as degraded "axllm-fallback" output and an empty one as "discord-empty". The tests
+// share one server and build on each other's balance, in order.
+
+const ADMIN_TOKEN = "test-admin-token";
+const BOT_TOKEN = "test-bot-token";
+const APPLICATION_ID = "900000000000000010";
+const GUILD_ID = "900000000000000001";
+const QUIET_CHANNEL_ID = "900000000000000002";
+const BUSY_CHANNEL_ID = "900000000000000003";
+const USER_ID = "1000";
+const ACCOUNT = `discord:${USER_ID}`;
+
+const facilitator = createMockFacilitator();
+const discord = createFakeDiscord({ botToken: BOT_TOKEN });
+let server: TestServer;
+
+type CreditEntry = { amount: string; kind: string; reason: string | null };
+
+function entrypointUrl(key: string) {
+  return `${server.baseUrl}/entrypoints/${encodeURIComponent(key)}/invoke`;
+}
+
+function invoke(key: string, input: Record<string, unknown>, paymentHeader?: string) {
+  return fetch(entrypointUrl(key), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(paymentHeader ? { "X-PAYMENT": paymentHeader } : {}),
+    },
+    body: JSON.stringify({ input }),
+  });
+}
+
+async function signPayment(
+  key: string,
+  input: Record<string, unknown>,
+  privateKey = generatePrivateKey()
+) {
+  const response = await invoke(key, input);
+  expect(response.status).toBe(402);
+  const { accepts } = (await response.json()) as { accepts: PaymentRequirements[] };
+  const signer = await createSigner(accepts[0].network, privateKey);
+  return createPaymentHeader(signer, 1, accepts[0]);
+}
+
+async function credits(account: string) {
+  const response = await fetch(`${server.baseUrl}/admin/credits?account=${account}`, {
+    headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+  });
+  return (await response.json()) as { balance: string; entries: CreditEntry[] };
+}
+
+// Sends /summarise from USER_ID and waits for its follow-up
+async function summarise(channelId: string) {
+  const interaction = {
+    type: 2,
+    application_id: APPLICATION_ID,
+    token: crypto.randomUUID(),
+    guild_id: GUILD_ID,
+    channel_id: channelId,
+    member: { user: { id: USER_ID, username: "tester" } },
+    data: { name: "summarise", options: [{ name: "minutes", type: 4, value: 60 }] },
+  };
+  const body = JSON.stringify(interaction);
+  await fetch(`${server.baseUrl}/interactions`, {
+    method: "POST",
+    headers: discord.signInteraction(body),
+    body,
+  });
+  const followup = await discord.waitForWebhook(
+    (call) => call.interactionToken === interaction.token
+  );
+  return String(followup.body.content ?? "");
+}
+
+beforeAll(async () => {
+  server = await startServer({
+    FACILITATOR_URL: facilitator.url,
+    PAYMENT_ACCEPTS: "base-sepolia:USDC",
+    ADMIN_API_TOKEN: ADMIN_TOKEN,
+    TOPUP_AMOUNT: "200000",
+    DEGRADED_OUTPUT_POLICY: "credit",
+    DISCORD_PUBLIC_KEY: discord.publicKey,
+    DISCORD_API_BASE_URL: discord.url,
+    DISCORD_BOT_TOKEN: BOT_TOKEN,
+    AX_API_KEY: "",
+    AXLLM_API_KEY: "",
+    OPENAI_API_KEY: "",
+  });
+}, 20_000);
+
+afterAll(() => {
+  server?.stop();
+  facilitator.stop();
+  discord.stop();
+});
+
+beforeEach(() => {
+  discord.reset();
+  discord.addGuild({ id: GUILD_ID, name: "Test Guild", owner_id: "1" });
+  discord.addChannel({ id: QUIET_CHANNEL_ID, name: "quiet", guild_id: GUILD_ID });
+  discord.addChannel({ id: BUSY_CHANNEL_ID, name: "busy", guild_id: GUILD_ID });
+  discord.seedMessages(BUSY_CHANNEL_ID, 5);
+  facilitator.requests.length = 0;
+});
+
+describe("prepaid credit", () => {
+  test("a settled top-up credits the account it names", async () => {
+    const input = { discordUserId: USER_ID };
+    const paymentHeader = await signPayment("top up credits", input);
+    const response = await invoke("top up credits", input, paymentHeader);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-STATUS")).toBe("settled");
+    expect(facilitator.requests.some((request) => request.path === "/settle")).toBe(true);
+    const { balance, entries } = await credits(ACCOUNT);
+    expect(balance).toBe("200000");
+    expect(entries[0]).toMatchObject({ amount: "200000", kind: "topup" });
+  });
+
+  test("/summarise spends credit instead of posting a payment link", async () => {
+    const content = await summarise(QUIET_CHANNEL_ID);
+
+    expect(content).not.toContain("Payment Required");
+    expect(content).toContain("No Discord messages found");
+    const { balance, entries } = await credits(ACCOUNT);
+    expect(balance).toBe("150000");
+    expect(entries[0]).toMatchObject({ amount: "-50000", kind: "debit" });
+  });
+
+  test("degraded output is handed back as credit", async () => {
+    await summarise(BUSY_CHANNEL_ID);
+
+    const { balance, entries } = await credits(ACCOUNT);
+    expect(balance).toBe("150000");
+    expect(entries.slice(0, 2)).toMatchObject([
+      { amount: "50000", kind: "refund", reason: "degraded output (axllm-fallback)" },
+      { amount: "-50000", kind: "debit" },
+    ]);
+  });
+
+  test("a summary that fails is refunded", async () => {
+    discord.failNext(`/channels/${BUSY_CHANNEL_ID}/messages`, { status: 403 });
+
+    const content = await summarise(BUSY_CHANNEL_ID);
+
+    expect(content).toContain("❌ Error");
+    const { balance, entries } = await credits(ACCOUNT);
+    expect(balance).toBe("150000");
+    expect(entries[0]).toMatchObject({ amount: "50000", kind: "refund", reason: "summary failed" });
+  });
+
+  test("a wallet with credit pays for a summary without settling", async () => {
+    const privateKey = generatePrivateKey();
+    await invoke("top up credits", {}, await signPayment("top up credits", {}, privateKey));
+    facilitator.requests.length = 0;
+
+    const input = { channelId: QUIET_CHANNEL_ID, serverId: GUILD_ID, lookbackMinutes: 60 };
+    const paymentHeader = await signPayment("summarise chat", input, privateKey);
+    const response = await invoke("summarise chat", input, paymentHeader);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-STATUS")).toBe("paid_with_credit");
+    expect(facilitator.requests.some((request) => request.path === "/settle")).toBe(false);
+    const listed = await fetch(`${server.baseUrl}/admin/payments?limit=1`, {
+      headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+    });
+    const { payments } = (await listed.json()) as {
+      payments: { payer: string; status: string }[];
+    };
+    expect(payments[0].status).toBe("paid_with_credit");
+    expect((await credits(`wallet:${payments[0].payer.toLowerCase()}`)).balance).toBe("150000");
+  });
+});
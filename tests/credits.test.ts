@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { openDatabase } from "../src/db";
+import {
+  debitCredits,
+  getCreditBalance,
+  issueCredit,
+  setCreditsDatabase,
+} from "../src/credits";
+
+// Credit entries are tagged with the network that paid for them; only accepted networks count.
+
+const ACCOUNT = "telegram:42";
+
+beforeEach(() => {
+  setCreditsDatabase(openDatabase(":memory:"));
+  process.env.PAYMENT_ACCEPTS = "base:USDC";
+});
+
+afterEach(() => {
+  delete process.env.PAYMENT_ACCEPTS;
+});
+
+describe("credits", () => {
+  test("ignores credit from a network the deployment no longer accepts", () => {
+    issueCredit({ account: ACCOUNT, amount: 500_000n, kind: "topup", network: "base-sepolia" });
+
+    expect(getCreditBalance(ACCOUNT)).toBe(0n);
+    expect(debitCredits({ account: ACCOUNT, amount: 50_000n, kind: "debit" })).toBeNull();
+  });
+
+  test("debits the network that can cover the amount and refunds to it", () => {
+    issueCredit({ account: ACCOUNT, amount: 100_000n, kind: "topup", network: "base" });
+
+    const network = debitCredits({ account: ACCOUNT, amount: 60_000n, kind: "debit" });
+    expect(network).toBe("base");
+    expect(getCreditBalance(ACCOUNT)).toBe(40_000n);
+
+    issueCredit({ account: ACCOUNT, amount: 60_000n, kind: "refund", network: network! });
+    expect(getCreditBalance(ACCOUNT, "base")).toBe(100_000n);
+  });
+
+  test("redeems only from the network of the payment", () => {
+    issueCredit({ account: ACCOUNT, amount: 100_000n, kind: "topup", network: "base" });
+
+    const redeemed = debitCredits({
+      account: ACCOUNT,
+      amount: 50_000n,
+      kind: "redeem",
+      network: "base-sepolia",
+    });
+
+    expect(redeemed).toBeNull();
+    expect(getCreditBalance(ACCOUNT)).toBe(100_000n);
+  });
+
+  test("keeps credit issued before networks were recorded spendable", () => {
+    // A ledger at migration 1, as deployments had it before entries carried a network
+    const db = openDatabase(":memory:");
+    db.exec(
+      `CREATE TABLE credit_entries (
+         id INTEGER PRIMARY KEY AUTOINCREMENT, account TEXT NOT NULL, amount INTEGER NOT NULL,
+         kind TEXT NOT NULL, reason TEXT, payment_nonce TEXT, created_at INTEGER NOT NULL
+       );
+       CREATE TABLE schema_migrations (scope TEXT PRIMARY KEY, version INTEGER NOT NULL);
+       INSERT INTO schema_migrations VALUES ('credit_entries', 1);`
+    );
+    db.query(
+      "INSERT INTO credit_entries (account, amount, kind, created_at) VALUES (?, 80000, 'topup', 0)"
+    ).run(ACCOUNT);
+
+    setCreditsDatabase(db);
+
+    expect(getCreditBalance(ACCOUNT, "base")).toBe(80_000n);
+    expect(debitCredits({ account: ACCOUNT, amount: 50_000n, kind: "debit" })).toBe("base");
+  });
+});
@@ -0,0 +1,375 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { createFakeDiscord } from "../src/fakeDiscord";
+
+// Message fetching against the fake Discord API: executeSummariseChat pages through
+// /channels/:id/messages with `after` cursors, so the recorded requests show how it paged.
+
+const BOT_TOKEN = "test-bot-token";
+const GUILD_ID = "900000000000000001";
+const CHANNEL_ID = "900000000000000002";
+
+const discord = createFakeDiscord({ botToken: BOT_TOKEN });
+process.env.DISCORD_BOT_TOKEN = BOT_TOKEN;
+process.env.DISCORD_API_BASE_URL = discord.url;
+
+const {
+  executeDiscordDigest,
+  executeSummariseChat,
+  filterDigestChannelsForViewer,
+  quoteDiscordDigest,
+  quoteDiscordSummary,
+} = await import("../src/agent");
+
+function messagePages() {
+  return discord.requests.filter((request) => request.path === `/channels/${CHANNEL_ID}/messages`);
+}
+
+afterAll(() => discord.stop());
+
+beforeEach(() => {
+  discord.reset();
+  discord.addGuild({ id: GUILD_ID, name: "Test Guild", owner_id: "1000" });
+  discord.addChannel({ id: CHANNEL_ID, name: "general", guild_id: GUILD_ID });
+});
+
+describe("Discord message fetching", () => {
+  test("pages past 100 messages using the last id as the cursor", async () => {
+    const seeded = discord.seedMessages(CHANNEL_ID, 250, { intervalMs: 10_000 });
+
+    await executeSummariseChat({ channelId: CHANNEL_ID, serverId: GUILD_ID, lookbackMinutes: 60 });
+
+    const pages = messagePages();
+    expect(pages).toHaveLength(3);
+    expect(pages.every((page) => page.query.limit === "100")).toBe(true);
+    expect(pages[1].query.after).toBe(seeded[99].id);
+    expect(pages[2].query.after).toBe(seeded[199].id);
+  });
+
+  test("stops after MAX_FETCH_PAGES pages", async () => {
+    const seeded = discord.seedMessages(CHANNEL_ID, 1_100, { intervalMs: 3_000 });
+
+    await executeSummariseChat({ channelId: CHANNEL_ID, serverId: GUILD_ID, lookbackMinutes: 60 });
+
+    const pages = messagePages();
+    expect(pages).toHaveLength(10);
+    expect(pages[9].query.after).toBe(seeded[899].id);
+  });
+
+  test("ignores messages older than the lookback window", async () => {
+    discord.seedMessages(CHANNEL_ID, 50, { end: new Date(Date.now() - 3 * 60 * 60 * 1000) });
+    discord.seedMessages(CHANNEL_ID, 20, { intervalMs: 60_000 });
+
+    const result = await executeSummariseChat({
+      channelId: CHANNEL_ID,
+      serverId: GUILD_ID,
+      lookbackMinutes: 60,
+    });
+
+    expect(messagePages()).toHaveLength(1);
+    expect(result.model).not.toBe("discord-empty");
+  });
+
+  test("fetches only the range between two message links", async () => {
+    const seeded = discord.seedMessages(CHANNEL_ID, 300, { intervalMs: 1_000 });
+    const start = seeded[120];
+    const end = seeded[180];
+
+    await executeSummariseChat({
+      startMessageUrl: discord.messageLink(GUILD_ID, CHANNEL_ID, start.id),
+      endMessageUrl: discord.messageLink(GUILD_ID, CHANNEL_ID, end.id),
+    });
+
+    const pages = messagePages();
+    expect(pages).toHaveLength(1);
+    expect(pages[0].query.after).toBe((BigInt(start.id) - 1n).toString());
+  });
+
+  test("reports an empty window without calling the summariser", async () => {
+    const result = await executeSummariseChat({
+      channelId: CHANNEL_ID,
+      serverId: GUILD_ID,
+      lookbackMinutes: 15,
+    });
+
+    expect(result.model).toBe("discord-empty");
+    expect(discord.requests.some((request) => request.path === `/guilds/${GUILD_ID}`)).toBe(true);
+  });
+
+  test("retries a rate-limited page instead of failing the summary", async () => {
+    discord.seedMessages(CHANNEL_ID, 150, { intervalMs: 10_000 });
+    discord.failNext(`/channels/${CHANNEL_ID}/messages`, { status: 429, retryAfter: 0.05 });
+
+    const result = await executeSummariseChat({
+      channelId: CHANNEL_ID,
+      serverId: GUILD_ID,
+      lookbackMinutes: 60,
+    });
+
+    expect(result.model).not.toBe("discord-empty");
+    expect(messagePages().map((page) => page.status)).toEqual([429, 200, 200]);
+  });
+});
+
+describe("threads and forum posts", () => {
+  function requestedChannels() {
+    return discord.requests
+      .filter((request) => /^\/channels\/\d+\/messages$/.test(request.path))
+      .map((request) => request.path.split("/")[2]);
+  }
+
+  test("fetches threads started in the window only when asked", async () => {
+    const now = Date.now();
+    discord.seedMessages(CHANNEL_ID, 5);
+    const recent = discord.addThread(CHANNEL_ID, {
+      name: "deploy plan",
+      createdAt: new Date(now - 10 * 60_000),
+    });
+    const archived = discord.addThread(CHANNEL_ID, {
+      name: "incident",
+      createdAt: new Date(now - 20 * 60_000),
+      archivedAt: new Date(now - 5 * 60_000),
+    });
+    const stale = discord.addThread(CHANNEL_ID, {
+      name: "last week",
+      createdAt: new Date(now - 7 * 24 * 60 * 60_000),
+    });
+    for (const thread of [recent, archived, stale]) {
+      discord.seedMessages(thread.id, 2);
+    }
+
+    await executeSummariseChat({ channelId: CHANNEL_ID, serverId: GUILD_ID, lookbackMinutes: 60 });
+    expect(requestedChannels()).toEqual([CHANNEL_ID]);
+
+    discord.requests.length = 0;
+    await executeSummariseChat({
+      channelId: CHANNEL_ID,
+      serverId: GUILD_ID,
+      lookbackMinutes: 60,
+      includeThreads: true,
+    });
+    expect(requestedChannels()).toEqual([CHANNEL_ID, archived.id, recent.id]);
+  });
+
+  test("shares one message budget between the channel and its threads", async () => {
+    discord.seedMessages(CHANNEL_ID, 1_000, { intervalMs: 3_000 });
+    const thread = discord.addThread(CHANNEL_ID, {
+      name: "deploy plan",
+      createdAt: new Date(Date.now() - 10 * 60_000),
+    });
+    discord.seedMessages(thread.id, 5);
+
+    await executeSummariseChat({
+      channelId: CHANNEL_ID,
+      serverId: GUILD_ID,
+      lookbackMinutes: 60,
+      includeThreads: true,
+    });
+
+    expect(requestedChannels().filter((channelId) => channelId === thread.id)).toHaveLength(0);
+  });
+
+  test("stops paging archived threads once they were archived before the window", async () => {
+    const now = Date.now();
+    for (let index = 0; index < 150; index++) {
+      discord.addThread(CHANNEL_ID, {
+        name: `old ${index}`,
+        createdAt: new Date(now - 3 * 24 * 60 * 60_000),
+        archivedAt: new Date(now - (2 * 24 * 60 - index) * 60_000),
+      });
+    }
+
+    await executeSummariseChat({
+      channelId: CHANNEL_ID,
+      serverId: GUILD_ID,
+      lookbackMinutes: 60,
+      includeThreads: true,
+    });
+
+    const archivedPages = discord.requests.filter((request) =>
+      request.path.endsWith("/threads/archived/public")
+    );
+    expect(archivedPages).toHaveLength(1);
+    expect(requestedChannels()).toEqual([CHANNEL_ID]);
+  });
+
+  test("summarises a forum channel from its posts", async () => {
+    const FORUM_ID = "900000000000000003";
+    discord.addChannel({ id: FORUM_ID, name: "help", guild_id: GUILD_ID, type: 15 });
+    const active = discord.addThread(FORUM_ID, {
+      name: "Wallet won't connect",
+      createdAt: new Date(Date.now() - 3 * 24 * 60 * 60_000),
+    });
+    discord.seedMessages(active.id, 3);
+
+    const result = await executeSummariseChat({
+      channelId: FORUM_ID,
+      serverId: GUILD_ID,
+      lookbackMinutes: 60,
+    });
+
+    expect(requestedChannels()).toEqual([active.id]);
+    expect(result.model).not.toBe("discord-empty");
+  });
+});
+
+describe("server digest", () => {
+  const CATEGORY_ID = "900000000000000020";
+  const DEV_ID = "900000000000000021";
+  const RANDOM_ID = "900000000000000022";
+
+  beforeEach(() => {
+    discord.addChannel({ id: CATEGORY_ID, name: "Community", guild_id: GUILD_ID, type: 4 });
+    discord.addChannel({
+      id: CHANNEL_ID,
+      name: "general",
+      guild_id: GUILD_ID,
+      type: 0,
+      parent_id: CATEGORY_ID,
+      position: 1,
+    });
+    discord.addChannel({
+      id: DEV_ID,
+      name: "dev",
+      guild_id: GUILD_ID,
+      type: 0,
+      parent_id: CATEGORY_ID,
+      position: 0,
+    });
+    discord.addChannel({ id: RANDOM_ID, name: "random", guild_id: GUILD_ID, type: 0 });
+  });
+
+  test("digests a category with one section per channel, in sidebar order", async () => {
+    discord.seedMessages(CHANNEL_ID, 3);
+    discord.seedMessages(DEV_ID, 3);
+    discord.seedMessages(RANDOM_ID, 3);
+
+    const result = await executeDiscordDigest({
+      serverId: GUILD_ID,
+      categoryId: CATEGORY_ID,
+      lookbackMinutes: 60,
+    });
+
+    const headings = result.summary.match(/📌 \*\*#\w+\*\*/g);
+    expect(headings).toEqual(["📌 **#dev**", "📌 **#general**"]);
+  });
+
+  test("lists quiet channels and skips channels from other servers", async () => {
+    const OTHER_ID = "900000000000000030";
+    discord.addChannel({ id: OTHER_ID, name: "elsewhere", guild_id: "900000000000000031" });
+    discord.seedMessages(CHANNEL_ID, 3);
+    discord.seedMessages(OTHER_ID, 3);
+
+    const result = await executeDiscordDigest({
+      serverId: GUILD_ID,
+      channelIds: [CHANNEL_ID, RANDOM_ID, OTHER_ID],
+      lookbackMinutes: 60,
+    });
+
+    expect(result.summary).toContain("📌 **#general**");
+    expect(result.summary).toContain("🔇 Quiet: #random");
+    expect(result.summary).not.toContain("elsewhere");
+    expect(
+      discord.requests.some((request) => request.path === `/channels/${OTHER_ID}/messages`)
+    ).toBe(false);
+  });
+
+  test("prices each channel of the category after the first as another section", async () => {
+    process.env.SUMMARY_PRICE_BASE = "10000";
+    try {
+      const quote = await quoteDiscordDigest({
+        serverId: GUILD_ID,
+        categoryId: CATEGORY_ID,
+        lookbackMinutes: 60,
+      });
+      expect(quote.amount).toBe(20_000n);
+    } finally {
+      delete process.env.SUMMARY_PRICE_BASE;
+    }
+  });
+
+  test("prices only the listed channels that are in the server", async () => {
+    const OTHER_ID = "900000000000000032";
+    discord.addChannel({ id: OTHER_ID, name: "elsewhere", guild_id: "900000000000000031" });
+    process.env.SUMMARY_PRICE_BASE = "10000";
+    try {
+      const quote = await quoteDiscordDigest({
+        serverId: GUILD_ID,
+        channelIds: [RANDOM_ID, OTHER_ID, "900000000000000033"],
+        lookbackMinutes: 60,
+      });
+      expect(quote.amount).toBe(10_000n);
+    } finally {
+      delete process.env.SUMMARY_PRICE_BASE;
+    }
+  });
+
+  test("quotes probes without fetching history, reusing a held quote", async () => {
+    process.env.SUMMARY_PRICE_BASE = "10000";
+    process.env.SUMMARY_PRICE_PER_100_MESSAGES = "1000";
+    try {
+      discord.seedMessages(CHANNEL_ID, 150);
+      const request = { channelId: CHANNEL_ID, lookbackMinutes: 45 };
+
+      expect((await quoteDiscordSummary(request, { probe: true })).amount).toBe(10_000n);
+      expect(messagePages()).toHaveLength(0);
+
+      expect((await quoteDiscordSummary(request)).amount).toBe(12_000n);
+      const pagesFetched = messagePages().length;
+      expect((await quoteDiscordSummary(request, { probe: true })).amount).toBe(12_000n);
+      expect(messagePages()).toHaveLength(pagesFetched);
+    } finally {
+      delete process.env.SUMMARY_PRICE_BASE;
+      delete process.env.SUMMARY_PRICE_PER_100_MESSAGES;
+    }
+  });
+
+  test("keeps only the channels the requesting member can view", async () => {
+    const VIEW_CHANNEL = String(1 << 10);
+    const MOD_ROLE_ID = "900000000000000040";
+    discord.addRole(GUILD_ID, { id: GUILD_ID, name: "@everyone", permissions: VIEW_CHANNEL });
+    discord.addRole(GUILD_ID, { id: MOD_ROLE_ID, name: "mods", permissions: "0" });
+    const hiddenFromEveryone = [{ id: GUILD_ID, type: 0, allow: "0", deny: VIEW_CHANNEL }];
+    discord.addChannel({
+      id: DEV_ID,
+      name: "dev",
+      guild_id: GUILD_ID,
+      type: 0,
+      parent_id: CATEGORY_ID,
+      permission_overwrites: [
+        ...hiddenFromEveryone,
+        { id: MOD_ROLE_ID, type: 0, allow: VIEW_CHANNEL, deny: "0" },
+      ],
+    });
+    discord.addChannel({
+      id: RANDOM_ID,
+      name: "random",
+      guild_id: GUILD_ID,
+      type: 0,
+      permission_overwrites: hiddenFromEveryone,
+    });
+    const input = { serverId: GUILD_ID, channelIds: [CHANNEL_ID, DEV_ID, RANDOM_ID] };
+
+    expect(await filterDigestChannelsForViewer(input, { userId: "2000", roleIds: [] })).toEqual([
+      CHANNEL_ID,
+    ]);
+    expect(
+      await filterDigestChannelsForViewer(input, { userId: "2000", roleIds: [MOD_ROLE_ID] })
+    ).toEqual([CHANNEL_ID, DEV_ID]);
+    // The guild owner sees everything
+    expect(await filterDigestChannelsForViewer(input, { userId: "1000", roleIds: [] })).toEqual([
+      CHANNEL_ID,
+      DEV_ID,
+      RANDOM_ID,
+    ]);
+  });
+
+  test("reports an empty digest when no channel has messages", async () => {
+    const result = await executeDiscordDigest({
+      serverId: GUILD_ID,
+      channelIds: [CHANNEL_ID, RANDOM_ID],
+      lookbackMinutes: 60,
+    });
+
+    expect(result.model).toBe("discord-empty");
+  });
+});
@@ -0,0 +1,250 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { createFakeDiscord } from "../src/fakeDiscord";
+import { startServer, type TestServer } from "./helpers/server";
+
+// Signed interactions through /interactions, with follow-ups landing on the fake Discord API.
+
+const APPLICATION_ID = "900000000000000010";
+const GUILD_ID = "900000000000000001";
+const CHANNEL_ID = "900000000000000002";
+
+const discord = createFakeDiscord();
+let server: TestServer;
+
+function sendInteraction(interaction: unknown, sign = true) {
+  const body = JSON.stringify(interaction);
+  return fetch(`${server.baseUrl}/interactions`, {
+    method: "POST",
+    headers: sign ? discord.signInteraction(body) : { "Content-Type": "application/json" },
+    body,
+  });
+}
+
+function summariseCommand(minutes: number, token = crypto.randomUUID()) {
+  return {
+    type: 2,
+    application_id: APPLICATION_ID,
+    token,
+    guild_id: GUILD_ID,
+    channel_id: CHANNEL_ID,
+    member: { user: { id: "1000", username: "tester" } },
+    data: { name: "summarise", options: [{ name: "minutes", type: 4, value: minutes }] },
+  };
+}
+
+function digestCommand(options: { name: string; type: number; value: unknown }[]) {
+  return {
+    type: 2,
+    application_id: APPLICATION_ID,
+    token: crypto.randomUUID(),
+    guild_id: GUILD_ID,
+    channel_id: CHANNEL_ID,
+    member: { user: { id: "1000", username: "tester" } },
+    data: { name: "digest", options },
+  };
+}
+
+function summariseFromHere(targetId: string, token = crypto.randomUUID()) {
+  return {
+    type: 2,
+    application_id: APPLICATION_ID,
+    token,
+    guild_id: GUILD_ID,
+    channel_id: CHANNEL_ID,
+    member: { user: { id: "1000", username: "tester" } },
+    data: { name: "Summarise from here", type: 3, target_id: targetId },
+  };
+}
+
+function submitRangeModal(startId: string, endMessageUrl: string, token = crypto.randomUUID()) {
+  return {
+    type: 5,
+    application_id: APPLICATION_ID,
+    token,
+    guild_id: GUILD_ID,
+    channel_id: CHANNEL_ID,
+    member: { user: { id: "1000", username: "tester" } },
+    data: {
+      custom_id: `summarise_range:${startId}`,
+      components: [
+        { type: 1, components: [{ type: 4, custom_id: "endMessageUrl", value: endMessageUrl }] },
+      ],
+    },
+  };
+}
+
+beforeAll(async () => {
+  server = await startServer({
+    DISCORD_PUBLIC_KEY: discord.publicKey,
+    DISCORD_API_BASE_URL: discord.url,
+    DISCORD_BOT_TOKEN: "test-bot-token",
+  });
+}, 20_000);
+
+afterAll(() => {
+  server?.stop();
+  discord.stop();
+});
+
+beforeEach(() => {
+  discord.reset();
+  discord.addChannel({ id: CHANNEL_ID, name: "general", guild_id: GUILD_ID });
+});
+
+describe("Discord interactions", () => {
+  test("answers a signed PING", async () => {
+    const response = await sendInteraction({ type: 1 });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ type: 1 });
+  });
+
+  test("rejects unsigned requests", async () => {
+    const response = await sendInteraction({ type: 1 }, false);
+    expect(response.status).toBe(401);
+  });
+
+  test("rejects a body that was altered after signing", async () => {
+    const headers = discord.signInteraction(JSON.stringify({ type: 1 }));
+    const response = await fetch(`${server.baseUrl}/interactions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ type: 2 }),
+    });
+    expect(response.status).toBe(401);
+  });
+
+  test("defers /summarise and posts a payment link as the follow-up", async () => {
+    const command = summariseCommand(30);
+    const response = await sendInteraction(command);
+    expect(await response.json()).toEqual({ type: 5 });
+
+    const followup = await discord.waitForWebhook(
+      (call) => call.method === "POST" && call.interactionToken === command.token
+    );
+    expect(followup.applicationId).toBe(APPLICATION_ID);
+    expect(followup.body.content).toContain("Payment Required");
+    expect(followup.body.content).toContain(`/pay?channelId=${CHANNEL_ID}`);
+    expect(followup.body.content).toContain("lookbackMinutes=30");
+  });
+
+  test("rejects an out-of-range lookback without deferring", async () => {
+    const response = await sendInteraction(summariseCommand(10_000));
+    const body = (await response.json()) as { type: number; data: { content: string } };
+    expect(body.type).toBe(4);
+    expect(body.data.content).toContain("Lookback may not exceed");
+  });
+});
+
+describe("Summarise from here", () => {
+  test("opens a modal asking for the last message", async () => {
+    const [start] = discord.seedMessages(CHANNEL_ID, 1);
+    const response = await sendInteraction(summariseFromHere(start.id));
+    const body = (await response.json()) as { type: number; data: any };
+
+    expect(body.type).toBe(9);
+    expect(body.data.custom_id).toBe(`summarise_range:${start.id}`);
+    expect(body.data.components[0].components[0].custom_id).toBe("endMessageUrl");
+  });
+
+  test("defers the modal submit and links the message range for payment", async () => {
+    const [start, , end] = discord.seedMessages(CHANNEL_ID, 3);
+    const submit = submitRangeModal(start.id, discord.messageLink(GUILD_ID, CHANNEL_ID, end.id));
+    const response = await sendInteraction(submit);
+    expect(await response.json()).toEqual({ type: 5 });
+
+    const followup = await discord.waitForWebhook(
+      (call) => call.method === "POST" && call.interactionToken === submit.token
+    );
+    const content = String(followup.body.content);
+    expect(content).toContain("Payment Required");
+    expect(content).toContain(
+      `startMessageUrl=${encodeURIComponent(discord.messageLink(GUILD_ID, CHANNEL_ID, start.id))}`
+    );
+    expect(content).toContain(
+      `endMessageUrl=${encodeURIComponent(discord.messageLink(GUILD_ID, CHANNEL_ID, end.id))}`
+    );
+    expect(content).not.toContain("lookbackMinutes=");
+  });
+
+  test("rejects an end link from another channel or before the start", async () => {
+    const [start, end] = discord.seedMessages(CHANNEL_ID, 2);
+    const elsewhere = discord.messageLink(GUILD_ID, "900000000000000099", end.id);
+    const backwards = discord.messageLink(GUILD_ID, CHANNEL_ID, start.id);
+
+    for (const submit of [
+      submitRangeModal(start.id, elsewhere),
+      submitRangeModal(end.id, backwards),
+      submitRangeModal(start.id, "not a link"),
+    ]) {
+      const body = (await (await sendInteraction(submit)).json()) as { type: number };
+      expect(body.type).toBe(4);
+    }
+    expect(discord.webhookCalls).toHaveLength(0);
+  });
+});
+
+describe("/digest", () => {
+  const VIEW_CHANNEL = String(1 << 10);
+
+  beforeEach(() => {
+    discord.addGuild({ id: GUILD_ID, name: "Test Guild" });
+    discord.addRole(GUILD_ID, { id: GUILD_ID, name: "@everyone", permissions: VIEW_CHANNEL });
+    discord.addChannel({ id: "900000000000000003", name: "dev", guild_id: GUILD_ID });
+  });
+
+  test("defers and links a digest of the listed channels for payment", async () => {
+    const command = digestCommand([
+      { name: "channels", type: 3, value: `<#${CHANNEL_ID}> <#900000000000000003>` },
+      { name: "minutes", type: 4, value: 120 },
+    ]);
+    const response = await sendInteraction(command);
+    expect(await response.json()).toEqual({ type: 5 });
+
+    const followup = await discord.waitForWebhook(
+      (call) => call.method === "POST" && call.interactionToken === command.token
+    );
+    const content = String(followup.body.content);
+    expect(content).toContain("Payment Required");
+    expect(content).toContain(`/pay?source=digest&serverId=${GUILD_ID}`);
+    expect(content).toContain(`channelIds=${CHANNEL_ID},900000000000000003`);
+    expect(content).toContain("lookbackMinutes=120");
+  });
+
+  test("leaves out channels the member can't view", async () => {
+    const HIDDEN_ID = "900000000000000004";
+    discord.addChannel({
+      id: HIDDEN_ID,
+      name: "staff",
+      guild_id: GUILD_ID,
+      permission_overwrites: [{ id: GUILD_ID, type: 0, allow: "0", deny: VIEW_CHANNEL }],
+    });
+    const command = digestCommand([
+      { name: "channels", type: 3, value: `<#${CHANNEL_ID}> <#${HIDDEN_ID}>` },
+    ]);
+    await sendInteraction(command);
+
+    const followup = await discord.waitForWebhook(
+      (call) => call.method === "POST" && call.interactionToken === command.token
+    );
+    const content = String(followup.body.content);
+    expect(content).toContain(`channelIds=${CHANNEL_ID}&`);
+    expect(content).not.toContain(HIDDEN_ID);
+  });
+
+  test("needs exactly one of a channel list or a category", async () => {
+    for (const options of [
+      [],
+      [
+        { name: "channels", type: 3, value: `<#${CHANNEL_ID}>` },
+        { name: "category", type: 7, value: "900000000000000020" },
+      ],
+    ]) {
+      const body = (await (await sendInteraction(digestCommand(options))).json()) as {
+        type: number;
+        data: { content: string };
+      };
+      expect(body.type).toBe(4);
+      expect(body.data.content).toContain("Pick a category or list channels");
+    }
+  });
+});
@@ -0,0 +1,110 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { createFakeDiscord } from "../src/fakeDiscord";
+import { resolveDiscordMentions } from "../src/discordMentions";
+
+// Mention rewriting against the fake Discord API. Lookups are cached per guild for the life of the
+// module, so each test uses its own guild ID.
+
+const BOT_TOKEN = "test-bot-token";
+const USER_ID = "910000000000000001";
+const OTHER_USER_ID = "910000000000000002";
+const ROLE_ID = "920000000000000001";
+const CHANNEL_ID = "930000000000000001";
+const EMOJI_ID = "950000000000000001";
+const UNKNOWN_ID = "990000000000000001";
+
+const discord = createFakeDiscord({ botToken: BOT_TOKEN });
+let guildSequence = 0;
+let guildId = "";
+
+function resolve(messages: { content: string; mentions?: any[]; mention_roles?: string[] }[]) {
+  return resolveDiscordMentions(messages, { token: BOT_TOKEN, baseUrl: discord.url, guildId });
+}
+
+function guildRequests(suffix: string) {
+  return discord.requests.filter((request) => request.path === `/guilds/${guildId}/${suffix}`);
+}
+
+afterAll(() => discord.stop());
+
+beforeEach(() => {
+  discord.reset();
+  guildId = `94000000000000000${++guildSequence}`;
+  discord.addGuild({ id: guildId, name: "Test Guild" });
+  discord.addChannel({ id: CHANNEL_ID, name: "deploys", guild_id: guildId });
+  discord.addRole(guildId, { id: ROLE_ID, name: "oncall" });
+  discord.addMember(guildId, {
+    user: { id: OTHER_USER_ID, username: "grace", global_name: "Grace" },
+    nick: "Admiral Grace",
+  });
+});
+
+describe("resolveDiscordMentions", () => {
+  test("names users from the message's mentions and turns custom emoji into :name:", async () => {
+    const [message] = await resolve([
+      {
+        content: `<@!${USER_ID}> to fix the deploy <:shipit:${EMOJI_ID}> <a:party:${EMOJI_ID}>`,
+        mentions: [{ id: USER_ID, username: "ada", global_name: "Ada", member: { nick: "Ada L" } }],
+      },
+    ]);
+
+    expect(message.content).toBe("@Ada L to fix the deploy :shipit: :party:");
+    expect(discord.requests).toHaveLength(0);
+  });
+
+  test("looks up roles, channels and members missing from mentions", async () => {
+    const thread = discord.addThread(CHANNEL_ID, { name: "rollback plan" });
+
+    const [first, second] = await resolve([
+      {
+        content: `<@&${ROLE_ID}> please check <#${CHANNEL_ID}>`,
+        mention_roles: [ROLE_ID],
+      },
+      {
+        content: `<@${OTHER_USER_ID}> see <#${thread.id}>, cc <@${UNKNOWN_ID}> <@&${UNKNOWN_ID}>`,
+      },
+    ]);
+
+    expect(first.content).toBe("@oncall please check #deploys");
+    expect(second.content).toBe(
+      "@Admiral Grace see #rollback plan, cc @unknown-user @unknown-role"
+    );
+  });
+
+  test("caches guild lookups between summaries", async () => {
+    const message = { content: `<@&${ROLE_ID}> in <#${CHANNEL_ID}>`, mention_roles: [ROLE_ID] };
+
+    await resolve([message]);
+    const [again] = await resolve([message]);
+
+    expect(again.content).toBe("@oncall in #deploys");
+    expect(guildRequests("roles")).toHaveLength(1);
+    expect(guildRequests("channels")).toHaveLength(1);
+  });
+
+  test("leaves channels from other servers unnamed and remembers misses", async () => {
+    const FOREIGN_CHANNEL_ID = "930000000000000002";
+    discord.addChannel({ id: FOREIGN_CHANNEL_ID, name: "secret-plans", guild_id: "1" });
+    const message = { content: `see <#${FOREIGN_CHANNEL_ID}> and <#${UNKNOWN_ID}>` };
+
+    await resolve([message]);
+    const [again] = await resolve([message]);
+
+    expect(again.content).toBe("see #unknown-channel and #unknown-channel");
+    for (const channelId of [FOREIGN_CHANNEL_ID, UNKNOWN_ID]) {
+      const lookups = discord.requests.filter(
+        (request) => request.path === `/channels/${channelId}`
+      );
+      expect(lookups).toHaveLength(1);
+    }
+  });
+
+  test("leaves messages without tokens untouched", async () => {
+    const message = { content: "nothing to see here" };
+
+    const [resolved] = await resolve([message]);
+
+    expect(resolved).toBe(message);
+    expect(discord.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { createFakeDiscord } from "../src/fakeDiscord";
+
+// discordFetch against the fake Discord API: scripted 429s and 5xx responses, and a per-route
+// limit advertised through X-RateLimit-* headers.
+
+const CHANNEL_ID = "900000000000000002";
+
+process.env.DISCORD_REST_BACKOFF_MS = "20";
+const { discordFetch } = await import("../src/discordRest");
+
+const discord = createFakeDiscord();
+const limitedDiscord = createFakeDiscord({ rateLimit: { limit: 2, windowMs: 300 } });
+
+function channelRequests(fake: typeof discord) {
+  return fake.requests.filter((request) => request.path === `/channels/${CHANNEL_ID}`);
+}
+
+afterAll(() => {
+  discord.stop();
+  limitedDiscord.stop();
+});
+
+beforeEach(() => {
+  for (const fake of [discord, limitedDiscord]) {
+    fake.reset();
+    fake.addChannel({ id: CHANNEL_ID, name: "general" });
+  }
+});
+
+describe("discordFetch", () => {
+  test("retries transient server errors", async () => {
+    discord.failNext(`/channels/${CHANNEL_ID}`, { status: 502 }, { status: 503 });
+
+    const response = await discordFetch(`${discord.url}/channels/${CHANNEL_ID}`);
+
+    expect(response.status).toBe(200);
+    expect(channelRequests(discord).map((request) => request.status)).toEqual([502, 503, 200]);
+  });
+
+  test("returns the last error once retries run out", async () => {
+    discord.failNext(`/channels/${CHANNEL_ID}`, ...Array(5).fill({ status: 500 }));
+
+    const response = await discordFetch(`${discord.url}/channels/${CHANNEL_ID}`);
+
+    expect(response.status).toBe(500);
+    expect(channelRequests(discord)).toHaveLength(4);
+  });
+
+  test("doesn't resend a POST after a server error, and keeps the token out of logs", async () => {
+    const webhookPath = "/webhooks/900000000000000010/secret-interaction-token";
+    discord.failNext(webhookPath, { status: 502 }, { status: 429, retryAfter: 0.05 });
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+
+    try {
+      const first = await discordFetch(`${discord.url}${webhookPath}`, {
+        method: "POST",
+        body: JSON.stringify({ content: "hi" }),
+      });
+      expect(first.status).toBe(502);
+      expect(discord.webhookCalls).toHaveLength(0);
+
+      // 429s mean Discord didn't act on the request, so those are still retried
+      const second = await discordFetch(`${discord.url}${webhookPath}`, {
+        method: "POST",
+        body: JSON.stringify({ content: "hi" }),
+      });
+      expect(second.status).toBe(200);
+      expect(discord.webhookCalls).toHaveLength(1);
+
+      const logged = warn.mock.calls.flat().join("\n");
+      expect(logged).toContain("/webhooks/900000000000000010/:token");
+      expect(logged).not.toContain("secret-interaction-token");
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test("waits out a 429 before retrying", async () => {
+    discord.failNext(`/channels/${CHANNEL_ID}`, { status: 429, retryAfter: 0.2 });
+
+    const startedAt = Date.now();
+    const response = await discordFetch(`${discord.url}/channels/${CHANNEL_ID}`);
+
+    expect(response.status).toBe(200);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+    expect(channelRequests(discord).map((request) => request.status)).toEqual([429, 200]);
+  });
+
+  test("hands back a 429 that asks for too long a wait", async () => {
+    discord.failNext(`/channels/${CHANNEL_ID}`, { status: 429, retryAfter: 120 });
+
+    const response = await discordFetch(`${discord.url}/channels/${CHANNEL_ID}`);
+
+    expect(response.status).toBe(429);
+    expect(channelRequests(discord)).toHaveLength(1);
+  });
+
+  test("queues requests until the bucket resets instead of hitting the limit", async () => {
+    const startedAt = Date.now();
+    const responses = await Promise.all(
+      Array.from({ length: 5 }, () => discordFetch(`${limitedDiscord.url}/channels/${CHANNEL_ID}`))
+    );
+
+    expect(responses.every((response) => response.status === 200)).toBe(true);
+    expect(channelRequests(limitedDiscord).every((request) => request.status === 200)).toBe(true);
+    // Two per 300ms window: the fifth request goes out in the third window
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(550);
+  });
+});
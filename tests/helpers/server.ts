@@ -0,0 +1,55 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+export type TestServer = {
+  baseUrl: string;
+  stop(): void;
+};
+
+// Runs src/index.ts as a subprocess on a random port with throwaway storage. Bot tokens are
+// blanked so nothing reaches real Discord or Telegram unless a test points them at a fake.
+export async function startServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const dataDir = mkdtempSync(join(tmpdir(), "summariser-test-"));
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  const baseUrl = `http://localhost:${port}`;
+
+  const server = Bun.spawn(["bun", "run", "src/index.ts"], {
+    env: {
+      ...process.env,
+      PORT: String(port),
+      AGENT_URL: baseUrl,
+      DATABASE_PATH: join(dataDir, "test.sqlite"),
+      TELEGRAM_STORE: "memory",
+      CALLBACK_STORE: "memory",
+      TELEGRAM_BOT_TOKEN: "",
+      DISCORD_BOT_TOKEN: "",
+      DISCORD_PUBLIC_KEY: "",
+      ...env,
+    },
+    stdout: "ignore",
+    stderr: "ignore",
+  });
+
+  const stop = () => {
+    server.kill();
+    rmSync(dataDir, { recursive: true, force: true });
+  };
+
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (server.exitCode !== null) {
+      stop();
+      throw new Error(`server exited with code ${server.exitCode}`);
+    }
+    try {
+      const response = await fetch(`${baseUrl}/health`);
+      if (response.ok) return { baseUrl, stop };
+    } catch {
+      // not listening yet
+    }
+    await Bun.sleep(100);
+  }
+
+  stop();
+  throw new Error("server did not start");
+}
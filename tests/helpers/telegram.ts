@@ -0,0 +1,21 @@
+import type { InlineKeyboardButton, InlineKeyboardMarkup } from "grammy/types";
+import type { FakeTelegramMessage } from "../../src/fakeTelegram";
+
+// The fake Bot API keeps reply_markup as the bot sent it, untyped; these narrow it for assertions.
+
+export function inlineKeyboard(message: FakeTelegramMessage): InlineKeyboardButton[][] {
+  const markup = message.reply_markup as Partial<InlineKeyboardMarkup> | undefined;
+  if (!Array.isArray(markup?.inline_keyboard)) {
+    throw new Error(`Message ${message.message_id} has no inline keyboard`);
+  }
+  return markup.inline_keyboard;
+}
+
+// The URL of the message's first button, e.g. the pay link under a payment prompt
+export function inlineButtonUrl(message: FakeTelegramMessage): string {
+  const button = inlineKeyboard(message)[0]?.[0];
+  if (!button || !("url" in button)) {
+    throw new Error(`Message ${message.message_id} has no URL button`);
+  }
+  return button.url;
+}
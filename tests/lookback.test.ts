@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { MAX_LOOKBACK_MINUTES, parseLookback } from "../src/lookback";
+
+// 15:00 in LOOKBACK_TIMEZONE, so "today" reaches back 15 hours
+const NOW = new Date("2026-03-02T15:00:00Z");
+
+beforeEach(() => {
+  process.env.LOOKBACK_TIMEZONE = "UTC";
+});
+
+afterEach(() => {
+  delete process.env.LOOKBACK_TIMEZONE;
+});
+
+describe("parseLookback", () => {
+  test("reads durations and clock times", () => {
+    expect(parseLookback("1h30m", NOW)).toEqual({ minutes: 90 });
+    expect(parseLookback("since 9am", NOW)).toEqual({ minutes: 360 });
+    expect(parseLookback("since 14:30", NOW)).toEqual({ minutes: 30 });
+  });
+
+  test("clamps today and since past the limit instead of refusing them", () => {
+    expect(parseLookback("today", NOW)).toEqual({ minutes: MAX_LOOKBACK_MINUTES, clamped: true });
+    expect(parseLookback("since 5am", NOW)).toEqual({
+      minutes: MAX_LOOKBACK_MINUTES,
+      clamped: true,
+    });
+  });
+
+  test("still refuses a duration past the limit", () => {
+    expect(parseLookback("9h", NOW)).toHaveProperty("error");
+  });
+});
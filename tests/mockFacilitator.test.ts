@@ -0,0 +1,100 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { generatePrivateKey } from "viem/accounts";
+import { createPaymentHeader } from "x402/client";
+import { exact } from "x402/schemes";
+import { createSigner, type PaymentRequirements } from "x402/types";
+import { useFacilitator } from "x402/verify";
+import { createMockFacilitator } from "../src/mockFacilitator";
+
+const requirements: PaymentRequirements = {
+  scheme: "exact",
+  resource: "http://localhost/entrypoints/summarise%20chat/invoke",
+  description: "test",
+  mimeType: "application/json",
+  payTo: "0x1b0006dbfbf4d8ec99cd7c40c43566eaa7d95fed",
+  maxAmountRequired: "50000",
+  maxTimeoutSeconds: 300,
+  network: "base-sepolia",
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  extra: { name: "USDC", version: "2" },
+};
+
+async function signPayment(privateKey = generatePrivateKey()) {
+  const signer = await createSigner("base-sepolia", privateKey);
+  const header = await createPaymentHeader(signer, 1, requirements);
+  return exact.evm.decodePayment(header);
+}
+
+const facilitator = createMockFacilitator();
+const client = useFacilitator({ url: facilitator.url as `${string}://${string}` });
+
+afterAll(() => facilitator.stop());
+
+beforeEach(() => {
+  facilitator.setOutcome("valid");
+  facilitator.requests.length = 0;
+});
+
+describe("mock facilitator", () => {
+  test("verifies and settles a correctly signed payment", async () => {
+    const payment = await signPayment();
+
+    const verification = await client.verify(payment, requirements);
+    expect(verification.isValid).toBe(true);
+
+    const settlement = await client.settle(payment, requirements);
+    expect(settlement.success).toBe(true);
+    expect(settlement.transaction).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(facilitator.requests.map((request) => request.path)).toEqual(["/verify", "/settle"]);
+  });
+
+  test("rejects a payment whose authorization was tampered with after signing", async () => {
+    const payment = await signPayment();
+    if (!("authorization" in payment.payload)) throw new Error("expected an EVM payment");
+    payment.payload.authorization.value = "999999";
+
+    const verification = await client.verify(payment, requirements);
+    expect(verification).toMatchObject({
+      isValid: false,
+      invalidReason: "invalid_exact_evm_payload_signature",
+    });
+  });
+
+  test("rejects payments below the required amount", async () => {
+    const payment = await signPayment();
+    const verification = await client.verify(payment, { ...requirements, maxAmountRequired: "60000" });
+    expect(verification.invalidReason).toBe("invalid_exact_evm_payload_authorization_value");
+  });
+
+  test.each([
+    ["invalid_signature", "invalid_exact_evm_payload_signature"],
+    ["insufficient_funds", "insufficient_funds"],
+  ] as const)("scripted %s outcome fails verification", async (outcome, reason) => {
+    facilitator.setOutcome(outcome);
+    const payment = await signPayment();
+
+    const verification = await client.verify(payment, requirements);
+    expect(verification).toMatchObject({ isValid: false, invalidReason: reason });
+  });
+
+  test("scripted settlement_failure verifies but refuses to settle", async () => {
+    facilitator.setOutcome("settlement_failure");
+    const payment = await signPayment();
+
+    expect((await client.verify(payment, requirements)).isValid).toBe(true);
+    const settlement = await client.settle(payment, requirements);
+    expect(settlement).toMatchObject({ success: false, errorReason: "unexpected_settle_error" });
+  });
+
+  test("outcome can be scripted over HTTP", async () => {
+    const response = await fetch(`${facilitator.url}/__mock/outcome`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ outcome: "insufficient_funds" }),
+    });
+    expect(response.status).toBe(200);
+
+    const payment = await signPayment();
+    expect((await client.verify(payment, requirements)).invalidReason).toBe("insufficient_funds");
+  });
+});
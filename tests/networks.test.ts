@@ -0,0 +1,88 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { generatePrivateKey } from "viem/accounts";
+import { createPaymentHeader } from "x402/client";
+import { createSigner, settleResponseFromHeader, type PaymentRequirements } from "x402/types";
+import { createMockFacilitator } from "../src/mockFacilitator";
+import { getPaymentOptions } from "../src/networks";
+import { startServer, type TestServer } from "./helpers/server";
+
+afterEach(() => {
+  delete process.env.PAYMENT_ACCEPTS;
+});
+
+describe("getPaymentOptions", () => {
+  test("accepts a testnet on its own", () => {
+    process.env.PAYMENT_ACCEPTS = "base-sepolia:USDC";
+    expect(getPaymentOptions().map((option) => option.network)).toEqual(["base-sepolia"]);
+  });
+
+  test("drops testnets listed alongside a mainnet", () => {
+    process.env.PAYMENT_ACCEPTS = "base:USDC,base-sepolia:USDC";
+    expect(getPaymentOptions().map((option) => option.network)).toEqual(["base"]);
+  });
+
+  test("offers several mainnets in the order they're listed", () => {
+    process.env.PAYMENT_ACCEPTS = "polygon, base:USDC";
+    expect(getPaymentOptions().map((option) => option.network)).toEqual(["polygon", "base"]);
+  });
+});
+
+describe("a deployment accepting two networks", () => {
+  const facilitator = createMockFacilitator();
+  let server: TestServer;
+
+  const invoke = (paymentHeader?: string) =>
+    fetch(`${server.baseUrl}/entrypoints/summarise%20telegram%20chat/invoke`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(paymentHeader ? { "X-PAYMENT": paymentHeader } : {}),
+      },
+      body: JSON.stringify({ input: { chatId: "-1001234567890", lookbackMinutes: 60 } }),
+    });
+
+  beforeAll(async () => {
+    server = await startServer({
+      FACILITATOR_URL: facilitator.url,
+      PAYMENT_ACCEPTS: "base:USDC,polygon:USDC",
+      PAY_TO: "0x1b0006dbfbf4d8ec99cd7c40c43566eaa7d95fed",
+      DEGRADED_OUTPUT_POLICY: "settle",
+    });
+  }, 20_000);
+
+  afterAll(() => {
+    server?.stop();
+    facilitator.stop();
+  });
+
+  test("advertises both in the 402 and lets the /pay page choose", async () => {
+    const response = await invoke();
+    expect(response.status).toBe(402);
+    const { accepts } = (await response.json()) as { accepts: PaymentRequirements[] };
+    expect(accepts.map((requirement) => [requirement.network, requirement.asset])).toEqual([
+      ["base", "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913"],
+      ["polygon", "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359"],
+    ]);
+
+    const page = await fetch(
+      `${server.baseUrl}/pay?source=telegram&chatId=-1001234567890&lookbackMinutes=60`
+    );
+    const html = await page.text();
+    expect(html).toContain(`<select id="network"`);
+    expect(html).toContain(`<option value="base">Base · USDC</option>`);
+    expect(html).toContain(`<option value="polygon">Polygon · USDC</option>`);
+  });
+
+  test("settles a payment on the second network", async () => {
+    const { accepts } = (await (await invoke()).json()) as { accepts: PaymentRequirements[] };
+    const requirements = accepts.find((requirement) => requirement.network === "polygon")!;
+    const signer = await createSigner("polygon", generatePrivateKey());
+
+    const response = await invoke(await createPaymentHeader(signer, 1, requirements));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-STATUS")).toBe("settled");
+    const settlement = settleResponseFromHeader(response.headers.get("X-PAYMENT-RESPONSE") ?? "");
+    expect(settlement.network).toBe("polygon");
+  });
+});
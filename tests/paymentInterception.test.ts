@@ -0,0 +1,279 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createPaymentHeader } from "x402/client";
+import { createSigner, settleResponseFromHeader, type PaymentRequirements } from "x402/types";
+import { createFakeDiscord } from "../src/fakeDiscord";
+import { createMockFacilitator } from "../src/mockFacilitator";
+import { startServer, type TestServer } from "./helpers/server";
+
+// Drives the 402 → verify → settle interception in index.ts end to end: the server runs as a
+// subprocess pointed at the mock facilitator, and payments are signed with a throwaway key.
+
+const ADMIN_TOKEN = "test-admin-token";
+const PAY_TO = "0x1b0006dbfbf4d8ec99cd7c40c43566eaa7d95fed";
+
+const facilitator = createMockFacilitator();
+let server: TestServer;
+
+// An entrypoint to pay for and the input it's invoked with
+type Entrypoint = { url: string; input: Record<string, unknown> };
+let telegramChat: Entrypoint;
+
+function invoke(paymentHeader?: string, entrypoint = telegramChat) {
+  return fetch(entrypoint.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(paymentHeader ? { "X-PAYMENT": paymentHeader } : {}),
+    },
+    body: JSON.stringify({ input: entrypoint.input }),
+  });
+}
+
+async function fetchRequirements(entrypoint = telegramChat): Promise<PaymentRequirements> {
+  const response = await invoke(undefined, entrypoint);
+  expect(response.status).toBe(402);
+  const body = (await response.json()) as { accepts: PaymentRequirements[] };
+  return body.accepts[0];
+}
+
+async function signPayment(entrypoint = telegramChat, privateKey = generatePrivateKey()) {
+  const requirements = await fetchRequirements(entrypoint);
+  const signer = await createSigner(requirements.network, privateKey);
+  return createPaymentHeader(signer, 1, requirements);
+}
+
+function adminFetch(path: string, init: RequestInit = {}, target = server) {
+  return fetch(`${target.baseUrl}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${ADMIN_TOKEN}` },
+  });
+}
+
+beforeAll(async () => {
+  server = await startServer({
+    FACILITATOR_URL: facilitator.url,
+    PAYMENT_ACCEPTS: "base-sepolia:USDC",
+    PAY_TO,
+    // Whatever model produced the summary, charge for it so outcomes depend only on the facilitator
+    DEGRADED_OUTPUT_POLICY: "settle",
+    ADMIN_API_TOKEN: ADMIN_TOKEN,
+  });
+  telegramChat = {
+    url: `${server.baseUrl}/entrypoints/summarise%20telegram%20chat/invoke`,
+    input: { chatId: "-1001234567890", lookbackMinutes: 60 },
+  };
+}, 20_000);
+
+afterAll(() => {
+  server?.stop();
+  facilitator.stop();
+});
+
+beforeEach(() => {
+  facilitator.setOutcome("valid");
+  facilitator.requests.length = 0;
+});
+
+describe("payment interception", () => {
+  test("advertises the configured network and quoted price", async () => {
+    const requirements = await fetchRequirements();
+    expect(requirements).toMatchObject({
+      scheme: "exact",
+      network: "base-sepolia",
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      payTo: PAY_TO,
+      maxAmountRequired: "50000",
+    });
+  });
+
+  test("settles a valid payment and returns the transaction", async () => {
+    const response = await invoke(await signPayment());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-STATUS")).toBe("settled");
+    const settlement = settleResponseFromHeader(response.headers.get("X-PAYMENT-RESPONSE") ?? "");
+    expect(settlement.success).toBe(true);
+    expect(settlement.network).toBe("base-sepolia");
+    expect(facilitator.requests.some((request) => request.path === "/settle")).toBe(true);
+  });
+
+  test("rejects a replayed payment header", async () => {
+    const paymentHeader = await signPayment();
+    expect((await invoke(paymentHeader)).status).toBe(200);
+
+    const replay = await invoke(paymentHeader);
+    expect(replay.status).toBe(402);
+    expect(((await replay.json()) as { error: string }).error).toBe("Payment has already been used");
+  });
+
+  test("rejects an invalid signature without settling", async () => {
+    facilitator.setOutcome("invalid_signature");
+    const response = await invoke(await signPayment());
+
+    expect(response.status).toBe(402);
+    expect(((await response.json()) as { error: string }).error).toBe(
+      "invalid_exact_evm_payload_signature"
+    );
+    expect(facilitator.requests.some((request) => request.path === "/settle")).toBe(false);
+  });
+
+  test("lets a payment rejected for insufficient funds be presented again", async () => {
+    const paymentHeader = await signPayment();
+
+    facilitator.setOutcome("insufficient_funds");
+    const rejected = await invoke(paymentHeader);
+    expect(rejected.status).toBe(402);
+    expect(((await rejected.json()) as { error: string }).error).toBe("insufficient_funds");
+
+    facilitator.setOutcome("valid");
+    const retried = await invoke(paymentHeader);
+    expect(retried.status).toBe(200);
+    expect(retried.headers.get("X-PAYMENT-STATUS")).toBe("settled");
+  });
+
+  test("records a failed settlement and settles it on retry", async () => {
+    facilitator.setOutcome("settlement_failure");
+    const response = await invoke(await signPayment());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-STATUS")).toBe("settlement_failed");
+
+    const listed = await adminFetch("/admin/payments?status=settlement_failed");
+    const { payments } = (await listed.json()) as { payments: { nonce: string }[] };
+    expect(payments).toHaveLength(1);
+
+    facilitator.setOutcome("valid");
+    const retry = await adminFetch(`/admin/payments/${payments[0].nonce}/settle`, { method: "POST" });
+    expect(retry.status).toBe(200);
+    const { payment } = (await retry.json()) as { payment: { status: string; settlementAttempts: number } };
+    expect(payment.status).toBe("settled");
+    expect(payment.settlementAttempts).toBe(2);
+  });
+
+  test("refuses admin requests without the exact token", async () => {
+    for (const authorization of [`Bearer ${ADMIN_TOKEN}x`, `Bearer ${ADMIN_TOKEN.slice(1)}`, ""]) {
+      const response = await fetch(`${server.baseUrl}/admin/payments`, {
+        headers: { Authorization: authorization },
+      });
+      expect(response.status).toBe(401);
+    }
+  });
+
+  test("rejects an admin listing limit that isn't a positive integer", async () => {
+    for (const limit of ["abc", "-1", "0", "1.5"]) {
+      const response = await adminFetch(`/admin/payments?limit=${limit}`);
+      expect(response.status).toBe(400);
+    }
+    expect((await adminFetch("/admin/payments?limit=5")).status).toBe(200);
+  });
+});
+
+// Without an LLM configured, a Discord summary comes back from the "axllm-fallback" path, which
+// DEGRADED_OUTPUT_POLICY decides how to charge for. Each policy gets its own server.
+describe("degraded output", () => {
+  const BOT_TOKEN = "test-bot-token";
+  const GUILD_ID = "900000000000000001";
+  const CHANNEL_ID = "900000000000000002";
+
+  const discord = createFakeDiscord({ botToken: BOT_TOKEN });
+  const servers: TestServer[] = [];
+
+  beforeAll(() => {
+    discord.addGuild({ id: GUILD_ID, name: "Test Guild", owner_id: "1000" });
+    discord.addChannel({ id: CHANNEL_ID, name: "general", guild_id: GUILD_ID });
+    discord.seedMessages(CHANNEL_ID, 5);
+  });
+
+  afterAll(() => {
+    for (const degraded of servers) degraded.stop();
+    discord.stop();
+  });
+
+  async function startWithPolicy(policy: string) {
+    const degraded = await startServer({
+      FACILITATOR_URL: facilitator.url,
+      PAYMENT_ACCEPTS: "base-sepolia:USDC",
+      PAY_TO,
+      DEGRADED_OUTPUT_POLICY: policy,
+      ADMIN_API_TOKEN: ADMIN_TOKEN,
+      DISCORD_BOT_TOKEN: BOT_TOKEN,
+      DISCORD_API_BASE_URL: discord.url,
+      AX_API_KEY: "",
+      AXLLM_API_KEY: "",
+      OPENAI_API_KEY: "",
+    });
+    servers.push(degraded);
+    const summariseChat: Entrypoint = {
+      url: `${degraded.baseUrl}/entrypoints/summarise%20chat/invoke`,
+      input: { channelId: CHANNEL_ID, serverId: GUILD_ID, lookbackMinutes: 60 },
+    };
+    return { degraded, summariseChat };
+  }
+
+  async function latestPayment(target: TestServer) {
+    const listed = await adminFetch("/admin/payments?limit=1", {}, target);
+    const { payments } = (await listed.json()) as {
+      payments: { status: string; outputModel: string | null; policyDecision: string | null }[];
+    };
+    return payments[0];
+  }
+
+  const settleCalls = () => facilitator.requests.filter((request) => request.path === "/settle");
+
+  test("settle charges for it in full", async () => {
+    const { degraded, summariseChat } = await startWithPolicy("settle");
+
+    const response = await invoke(await signPayment(summariseChat), summariseChat);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-STATUS")).toBe("settled");
+    expect(settleCalls()).toHaveLength(1);
+    expect(await latestPayment(degraded)).toMatchObject({
+      status: "settled",
+      outputModel: "axllm-fallback",
+      policyDecision: "settle",
+    });
+  }, 20_000);
+
+  test("skip waives the payment without settling it", async () => {
+    const { degraded, summariseChat } = await startWithPolicy("skip");
+
+    const response = await invoke(await signPayment(summariseChat), summariseChat);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-PAYMENT-STATUS")).toBe("waived");
+    expect(settleCalls()).toHaveLength(0);
+    expect(await latestPayment(degraded)).toMatchObject({
+      status: "waived",
+      outputModel: "axllm-fallback",
+    });
+  }, 20_000);
+
+  test("credit refunds it, then waives the next while credit covers it", async () => {
+    const { degraded, summariseChat } = await startWithPolicy("credit");
+    const privateKey = generatePrivateKey();
+    const account = `wallet:${privateKeyToAccount(privateKey).address.toLowerCase()}`;
+    const balance = async () => {
+      const response = await adminFetch(`/admin/credits?account=${account}`, {}, degraded);
+      return ((await response.json()) as { balance: string }).balance;
+    };
+
+    const first = await invoke(await signPayment(summariseChat, privateKey), summariseChat);
+
+    expect(first.headers.get("X-PAYMENT-STATUS")).toBe("credited");
+    expect(settleCalls()).toHaveLength(1);
+    expect(await latestPayment(degraded)).toMatchObject({
+      status: "settled",
+      policyDecision: "credit: degraded output (axllm-fallback)",
+    });
+    expect(await balance()).toBe("50000");
+
+    const second = await invoke(await signPayment(summariseChat, privateKey), summariseChat);
+
+    expect(second.headers.get("X-PAYMENT-STATUS")).toBe("waived");
+    expect(settleCalls()).toHaveLength(1);
+    expect(await latestPayment(degraded)).toMatchObject({ status: "waived" });
+    expect(await balance()).toBe("50000");
+  }, 20_000);
+});
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { openDatabase } from "../src/db";
+
+// The module-level registries would otherwise open the default database file on import
+process.env.CALLBACK_STORE = "memory";
+const { createSqliteCallbackRegistry } = await import("../src/pending");
+
+type Entry = { chatId: string; expiresAt: number };
+
+const dataDirs: string[] = [];
+
+function databasePath() {
+  const dataDir = mkdtempSync(join(tmpdir(), "summariser-pending-"));
+  dataDirs.push(dataDir);
+  return join(dataDir, "test.sqlite");
+}
+
+afterEach(() => {
+  for (const dataDir of dataDirs.splice(0)) {
+    rmSync(dataDir, { recursive: true, force: true });
+  }
+});
+
+describe("SQLite callback registry", () => {
+  test("keeps entries across a reopened database", () => {
+    const path = databasePath();
+    const db = openDatabase(path);
+    const entry = { chatId: "-100123", expiresAt: Date.now() + 60_000 };
+    createSqliteCallbackRegistry<Entry>(db, "telegram").set("token-1", entry);
+    db.close();
+
+    const reopened = openDatabase(path);
+    expect(createSqliteCallbackRegistry<Entry>(reopened, "telegram").get("token-1")).toEqual(entry);
+    expect(createSqliteCallbackRegistry<Entry>(reopened, "discord").get("token-1")).toBeUndefined();
+    reopened.close();
+  });
+
+  test("treats an expired entry as missing", () => {
+    const registry = createSqliteCallbackRegistry<Entry>(openDatabase(":memory:"), "telegram");
+    registry.set("token-1", { chatId: "-100123", expiresAt: Date.now() - 1 });
+
+    expect(registry.get("token-1")).toBeUndefined();
+    expect(registry.take("token-1")).toBeUndefined();
+  });
+
+  test("hands an entry to only the first take", () => {
+    const registry = createSqliteCallbackRegistry<Entry>(openDatabase(":memory:"), "telegram");
+    const entry = { chatId: "-100123", expiresAt: Date.now() + 60_000 };
+    registry.set("token-1", entry);
+
+    expect(registry.take("token-1")).toEqual(entry);
+    expect(registry.take("token-1")).toBeUndefined();
+  });
+});
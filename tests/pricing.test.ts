@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { getHeldQuote, getPricingConfig, priceSummary, quoteSummary } from "../src/pricing";
+
+// Pricing is read from the environment on every call, so each test sets only what it needs.
+
+const PRICE_VARIABLES = [
+  "ENTRYPOINT_PRICE",
+  "SUMMARY_PRICE_BASE",
+  "SUMMARY_PRICE_PER_SECTION",
+  "SUMMARY_PRICE_MAX",
+];
+
+afterEach(() => {
+  for (const name of PRICE_VARIABLES) delete process.env[name];
+});
+
+describe("getPricingConfig", () => {
+  test("reads the base price from ENTRYPOINT_PRICE in dollars", () => {
+    process.env.ENTRYPOINT_PRICE = "0.25";
+    expect(getPricingConfig().base).toBe(250_000n);
+  });
+
+  test("falls back to the default base price when ENTRYPOINT_PRICE is malformed", () => {
+    process.env.ENTRYPOINT_PRICE = "$0.25";
+    expect(getPricingConfig().base).toBe(50_000n);
+  });
+
+  test("prefers SUMMARY_PRICE_BASE in base units", () => {
+    process.env.ENTRYPOINT_PRICE = "0.25";
+    process.env.SUMMARY_PRICE_BASE = "10000";
+    expect(getPricingConfig().base).toBe(10_000n);
+  });
+});
+
+describe("priceSummary", () => {
+  test("charges each digest section after the first at the base price by default", () => {
+    process.env.SUMMARY_PRICE_BASE = "10000";
+    expect(priceSummary({ sections: 1 }).amount).toBe(10_000n);
+    expect(priceSummary({ sections: 4 }).amount).toBe(40_000n);
+  });
+
+  test("uses SUMMARY_PRICE_PER_SECTION and still applies the maximum", () => {
+    process.env.SUMMARY_PRICE_BASE = "10000";
+    process.env.SUMMARY_PRICE_PER_SECTION = "2500";
+    expect(priceSummary({ sections: 3 }).amount).toBe(15_000n);
+
+    process.env.SUMMARY_PRICE_MAX = "12000";
+    expect(priceSummary({ sections: 3 }).amount).toBe(12_000n);
+  });
+});
+
+describe("quoteSummary", () => {
+  test("holds a bounded number of quotes, dropping the oldest", async () => {
+    for (let index = 0; index <= 1000; index += 1) {
+      await quoteSummary(`bounded:${index}`, 60);
+    }
+    expect(getHeldQuote("bounded:0")).toBeNull();
+    expect(getHeldQuote("bounded:1")).not.toBeNull();
+    expect(getHeldQuote("bounded:1000")).not.toBeNull();
+  });
+});
@@ -0,0 +1,699 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createFakeTelegram, type FakeTelegramMessage } from "../src/fakeTelegram";
+import { inlineButtonUrl, inlineKeyboard } from "./helpers/telegram";
+
+// The grammy bot long-polls the fake Bot API; tests push synthetic updates and assert on the
+// message store and on what the bot posts back.
+
+const CHAT_ID = -1001234567890;
+
+const dataDir = mkdtempSync(join(tmpdir(), "summariser-test-"));
+process.env.DATABASE_PATH = join(dataDir, "test.sqlite");
+process.env.TELEGRAM_STORE = "memory";
+process.env.CALLBACK_STORE = "memory";
+
+const { createTelegramBot, TELEGRAM_ALLOWED_UPDATES } = await import("../src/telegram");
+const {
+  clearTelegramMessages,
+  getTelegramMessages,
+  getTelegramMessagesWithin,
+  getTelegramTopicNames,
+  selectTelegramMessages,
+} = await import("../src/telegramStore");
+const { pendingTelegramCallbacks } = await import("../src/pending");
+const { clearChatAdminCache } = await import("../src/telegramAdmins");
+
+const telegram = createFakeTelegram();
+const bot = createTelegramBot({
+  token: telegram.token,
+  baseUrl: "https://summariser.test",
+  apiRoot: telegram.url,
+});
+let polling: Promise<void>;
+
+async function waitFor<T>(read: () => T | undefined, timeoutMs = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = read();
+    if (value !== undefined) return value;
+    await Bun.sleep(25);
+  }
+  throw new Error("Timed out waiting for the bot");
+}
+
+function waitForStored(messageId: number) {
+  return waitFor(() => getTelegramMessages(CHAT_ID).find((msg) => msg.messageId === messageId));
+}
+
+function waitForReply(predicate: (message: FakeTelegramMessage) => boolean = () => true) {
+  return waitFor(() => telegram.sentMessages.find(predicate));
+}
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => {
+    polling = bot.start({ allowed_updates: [...TELEGRAM_ALLOWED_UPDATES], onStart: () => resolve() });
+  });
+});
+
+afterAll(async () => {
+  await bot.stop();
+  await polling;
+  telegram.stop();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  telegram.reset();
+  clearTelegramMessages(CHAT_ID);
+  clearChatAdminCache();
+});
+
+describe("Telegram bot", () => {
+  test("stores chat messages with author and reply details", async () => {
+    const first = telegram.sendUserMessage({ chatId: CHAT_ID, text: "deploy is done" });
+    const reply = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "nice, thanks",
+      from: { id: 2000, first_name: "Ada", username: "ada" },
+      replyToMessageId: first.message_id,
+    });
+
+    const stored = await waitForStored(reply.message_id);
+    expect(stored).toMatchObject({
+      text: "nice, thanks",
+      authorId: 2000,
+      authorUsername: "ada",
+      authorDisplay: "Ada",
+      replyToMessageId: first.message_id,
+    });
+    expect(getTelegramMessages(CHAT_ID)[0]).toMatchObject({
+      messageId: first.message_id,
+      authorDisplay: "Test User",
+    });
+  });
+
+  test("does not store commands", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/start" });
+    await waitForReply();
+    expect(getTelegramMessages(CHAT_ID)).toHaveLength(0);
+  });
+
+  test("tracks reactions as users add and remove them", async () => {
+    const message = telegram.sendUserMessage({ chatId: CHAT_ID, text: "ship it?" });
+    await waitForStored(message.message_id);
+
+    telegram.reactToMessage({ chatId: CHAT_ID, messageId: message.message_id, newEmoji: ["👍"] });
+    telegram.reactToMessage({
+      chatId: CHAT_ID,
+      messageId: message.message_id,
+      user: { id: 2000, first_name: "Ada" },
+      newEmoji: ["👍", "🔥"],
+    });
+    await waitFor(() => (getTelegramMessages(CHAT_ID)[0].reactionCount === 3 ? true : undefined));
+
+    telegram.reactToMessage({
+      chatId: CHAT_ID,
+      messageId: message.message_id,
+      oldEmoji: ["👍"],
+      newEmoji: [],
+    });
+    const stored = await waitFor(() => {
+      const [latest] = getTelegramMessages(CHAT_ID);
+      return latest.reactionCount === 2 ? latest : undefined;
+    });
+    expect(stored.reactions).toEqual([
+      { emoji: "👍", count: 1 },
+      { emoji: "🔥", count: 1 },
+    ]);
+  });
+
+  test("keeps custom emoji apart and takes anonymous totals as they come", async () => {
+    const message = telegram.sendUserMessage({ chatId: CHAT_ID, text: "launch day" });
+    await waitForStored(message.message_id);
+
+    telegram.reactToMessage({
+      chatId: CHAT_ID,
+      messageId: message.message_id,
+      newEmoji: ["custom:5368324170671202286"],
+    });
+    await waitFor(() => getTelegramMessages(CHAT_ID)[0].reactions);
+    expect(getTelegramMessages(CHAT_ID)[0].reactions).toEqual([
+      { emoji: "custom:5368324170671202286", count: 1 },
+    ]);
+
+    telegram.setReactionCounts({
+      chatId: CHAT_ID,
+      messageId: message.message_id,
+      counts: { "🔥": 4, "👎": 1 },
+    });
+    await waitFor(() => (getTelegramMessages(CHAT_ID)[0].reactionCount === 5 ? true : undefined));
+    expect(getTelegramMessages(CHAT_ID)[0].reactions).toEqual([
+      { emoji: "🔥", count: 4 },
+      { emoji: "👎", count: 1 },
+    ]);
+  });
+
+  test("/summarise posts a pay button and registers the callback", async () => {
+    const command = telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise 30" });
+
+    const prompt = await waitForReply();
+    expect(prompt.chat.id).toBe(CHAT_ID);
+    expect(prompt.text).toContain("Payment Required");
+    expect(prompt.text).toContain("last 30 minutes");
+
+    expect(inlineKeyboard(prompt)[0][0].text).toBe("Pay $0.05 via x402");
+    const payUrl = new URL(inlineButtonUrl(prompt));
+    expect(payUrl.searchParams.get("chatId")).toBe(String(CHAT_ID));
+    expect(payUrl.searchParams.get("lookbackMinutes")).toBe("30");
+
+    const token = decodeURIComponent(payUrl.searchParams.get("telegram_callback") ?? "");
+    expect(pendingTelegramCallbacks.get(token)).toMatchObject({
+      chatId: CHAT_ID,
+      messageId: command.message_id,
+      lookbackMinutes: 30,
+      paymentMessageId: prompt.message_id,
+    });
+  });
+
+  test("/summarise rejects an invalid lookback", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise soon" });
+
+    const reply = await waitForReply();
+    expect(reply.text).toStartWith("❌");
+    expect(reply.reply_markup).toBeUndefined();
+  });
+
+  test("/summarise accepts natural-language durations", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise 1h30m" });
+
+    const prompt = await waitForReply();
+    expect(prompt.text).toContain("last 90 minutes");
+    const payUrl = new URL(inlineButtonUrl(prompt));
+    expect(payUrl.searchParams.get("lookbackMinutes")).toBe("90");
+  });
+
+  test("/summarise since caps a window past the limit and says so", async () => {
+    // Two minutes ahead on the server's clock, so "since" means almost a full day ago
+    const start = new Date(Date.now() + 2 * 60 * 1000);
+    const clock = `${start.getHours()}:${String(start.getMinutes()).padStart(2, "0")}`;
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: `/summarise since ${clock}` });
+
+    const prompt = await waitForReply();
+    expect(prompt.text).toContain("last 480 minutes");
+    expect(prompt.text).toContain("capped at 8h");
+  });
+
+  test("bare /summarise offers lookback presets", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise" });
+
+    const picker = await waitForReply();
+    const buttons = inlineKeyboard(picker).flat();
+    expect(buttons.map((button) => button.text)).toEqual(["15m", "1h", "4h", "8h"]);
+    expect(buttons[1]).toMatchObject({ callback_data: "summarise:60" });
+  });
+
+  test("pressing a preset replaces the picker with the pay prompt", async () => {
+    const command = telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise" });
+    const picker = await waitForReply();
+
+    telegram.pressButton({ chatId: CHAT_ID, messageId: picker.message_id, data: "summarise:240" });
+
+    const prompt = await waitForReply((message) => message.text!.includes("Payment Required"));
+    expect(prompt.text).toContain("last 240 minutes");
+    await telegram.waitForCall("answerCallbackQuery");
+    expect(telegram.deletedMessages).toEqual([{ chatId: CHAT_ID, messageId: picker.message_id }]);
+
+    const payUrl = new URL(inlineButtonUrl(prompt));
+    const token = decodeURIComponent(payUrl.searchParams.get("telegram_callback") ?? "");
+    expect(pendingTelegramCallbacks.get(token)).toMatchObject({
+      chatId: CHAT_ID,
+      messageId: command.message_id,
+      lookbackMinutes: 240,
+    });
+  });
+});
+
+describe("message content", () => {
+  test("stores a photo caption as the text with the media kind", async () => {
+    const photo = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      extra: {
+        caption: "new office!",
+        photo: [{ file_id: "p1", file_unique_id: "u1", width: 800, height: 600 }],
+      },
+    });
+
+    expect(await waitForStored(photo.message_id)).toMatchObject({
+      text: "new office!",
+      eventType: "photo",
+      attachments: [{ kind: "photo" }],
+    });
+  });
+
+  test("stores documents, voice notes and locations without text", async () => {
+    const doc = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      extra: {
+        document: {
+          file_id: "d1",
+          file_unique_id: "u2",
+          file_name: "roadmap.pdf",
+          mime_type: "application/pdf",
+        },
+      },
+    });
+    const voice = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      extra: {
+        voice: { file_id: "v1", file_unique_id: "u3", duration: 42, mime_type: "audio/ogg" },
+      },
+    });
+    const location = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      extra: { location: { latitude: 51.5, longitude: -0.12 } },
+    });
+
+    await waitForStored(location.message_id);
+    const byId = new Map(getTelegramMessages(CHAT_ID).map((msg) => [msg.messageId, msg]));
+    expect(byId.get(doc.message_id)).toMatchObject({
+      text: "",
+      eventType: "document",
+      attachments: [{ kind: "document", fileName: "roadmap.pdf", mimeType: "application/pdf" }],
+    });
+    expect(byId.get(voice.message_id)?.attachments).toEqual([
+      { kind: "voice", mimeType: "audio/ogg", description: "42s voice note" },
+    ]);
+    expect(byId.get(location.message_id)?.attachments).toEqual([
+      { kind: "location", description: "51.5, -0.12" },
+    ]);
+  });
+
+  test("stores polls with their question and options", async () => {
+    const poll = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      extra: {
+        poll: {
+          id: "poll-1",
+          question: "Lunch?",
+          options: [
+            { text: "Pizza", voter_count: 0 },
+            { text: "Sushi", voter_count: 0 },
+          ],
+          total_voter_count: 0,
+          is_closed: false,
+          is_anonymous: true,
+          type: "regular",
+          allows_multiple_answers: false,
+        },
+      },
+    });
+
+    expect(await waitForStored(poll.message_id)).toMatchObject({
+      text: "Lunch?",
+      eventType: "poll",
+      poll: { question: "Lunch?", options: ["Pizza", "Sushi"] },
+    });
+  });
+
+  test("records where a forwarded post came from", async () => {
+    const forwarded = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "v3 is out",
+      extra: {
+        forward_origin: {
+          type: "channel",
+          date: Math.floor(Date.now() / 1000),
+          chat: { id: -1009999, type: "channel", title: "Product News" },
+          message_id: 12,
+        },
+      },
+    });
+
+    expect(await waitForStored(forwarded.message_id)).toMatchObject({
+      text: "v3 is out",
+      forwardOrigin: 'channel "Product News"',
+    });
+  });
+});
+
+describe("author flags", () => {
+  const ADMIN = { id: 3000, first_name: "Grace", username: "grace" };
+  const RELEASE_BOT = { id: 4000, is_bot: true, first_name: "CI", username: "ci_bot" };
+
+  test("marks admins and bots on stored messages", async () => {
+    telegram.setMemberStatus(CHAT_ID, ADMIN.id, "administrator");
+    const fromAdmin = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "+1, ship it",
+      from: ADMIN,
+    });
+    const fromBot = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "build #812 passed",
+      from: RELEASE_BOT,
+    });
+    const fromMember = telegram.sendUserMessage({ chatId: CHAT_ID, text: "nice" });
+
+    await waitForStored(fromMember.message_id);
+    const byId = new Map(getTelegramMessages(CHAT_ID).map((msg) => [msg.messageId, msg]));
+    expect(byId.get(fromAdmin.message_id)).toMatchObject({
+      authorIsAdmin: true,
+      authorIsBot: false,
+    });
+    expect(byId.get(fromBot.message_id)).toMatchObject({ authorIsAdmin: false, authorIsBot: true });
+    expect(byId.get(fromMember.message_id)).toMatchObject({
+      authorIsAdmin: false,
+      authorIsBot: false,
+    });
+  });
+
+  test("doesn't mark private chat messages as from an admin", async () => {
+    const USER_CHAT_ID = 5000;
+    const direct = telegram.sendUserMessage({
+      chatId: USER_CHAT_ID,
+      text: "hello bot",
+      from: { id: USER_CHAT_ID, first_name: "Ada", username: "ada" },
+    });
+
+    const stored = await waitFor(() =>
+      getTelegramMessages(USER_CHAT_ID).find((msg) => msg.messageId === direct.message_id)
+    );
+    expect(stored).toMatchObject({ authorIsAdmin: false, authorIsBot: false });
+  });
+
+  test("treats anonymous admins posting as the group as admins, not bots", async () => {
+    const anonymous = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "maintenance tonight",
+      from: { id: 1087968824, is_bot: true, first_name: "Group", username: "GroupAnonymousBot" },
+      extra: { sender_chat: { id: CHAT_ID, type: "supergroup", title: "Dev Team" } },
+    });
+
+    expect(await waitForStored(anonymous.message_id)).toMatchObject({
+      authorDisplay: "Dev Team",
+      authorIsAdmin: true,
+      authorIsBot: false,
+    });
+  });
+
+  test("looks administrators up once per chat", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "one" });
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "two" });
+    const last = telegram.sendUserMessage({ chatId: CHAT_ID, text: "three" });
+    await waitForStored(last.message_id);
+
+    const lookups = telegram.calls.filter((call) => call.method === "getChatAdministrators");
+    expect(lookups).toHaveLength(1);
+  });
+
+  test("chat_member updates promote and demote without another lookup", async () => {
+    const first = telegram.sendUserMessage({ chatId: CHAT_ID, text: "before", from: ADMIN });
+    await waitForStored(first.message_id);
+    expect(getTelegramMessages(CHAT_ID)[0].authorIsAdmin).toBe(false);
+
+    telegram.changeMemberStatus(CHAT_ID, ADMIN, "administrator");
+    const promoted = telegram.sendUserMessage({ chatId: CHAT_ID, text: "after", from: ADMIN });
+    expect((await waitForStored(promoted.message_id)).authorIsAdmin).toBe(true);
+
+    telegram.changeMemberStatus(CHAT_ID, ADMIN, "member");
+    const demoted = telegram.sendUserMessage({ chatId: CHAT_ID, text: "later", from: ADMIN });
+    expect((await waitForStored(demoted.message_id)).authorIsAdmin).toBe(false);
+
+    const lookups = telegram.calls.filter((call) => call.method === "getChatAdministrators");
+    expect(lookups).toHaveLength(1);
+  });
+});
+
+describe("edits and deletions", () => {
+  test("an edit replaces the stored text and keeps the earlier version", async () => {
+    const message = telegram.sendUserMessage({ chatId: CHAT_ID, text: "standup at 10:30" });
+    await waitForStored(message.message_id);
+
+    telegram.editUserMessage({
+      chatId: CHAT_ID,
+      messageId: message.message_id,
+      text: "standup at 11:00",
+    });
+    const edited = await waitFor(() =>
+      getTelegramMessages(CHAT_ID).find((msg) => msg.text === "standup at 11:00")
+    );
+
+    expect(edited.messageId).toBe(message.message_id);
+    expect(edited.editHistory).toEqual([
+      { text: "standup at 10:30", replacedAtMs: expect.any(Number) },
+    ]);
+    expect(getTelegramMessages(CHAT_ID)).toHaveLength(1);
+  });
+
+  test("an admin can /forget a message by replying to it", async () => {
+    telegram.setMemberStatus(CHAT_ID, 1000, "administrator");
+    const message = telegram.sendUserMessage({ chatId: CHAT_ID, text: "oops, wrong chat" });
+    await waitForStored(message.message_id);
+
+    telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "/forget",
+      replyToMessageId: message.message_id,
+    });
+
+    const reply = await waitForReply();
+    expect(reply.text).toContain("Forgotten");
+    expect(getTelegramMessages(CHAT_ID)).toHaveLength(0);
+  });
+
+  test("an anonymous admin can /forget a message", async () => {
+    const message = telegram.sendUserMessage({ chatId: CHAT_ID, text: "posted by mistake" });
+    await waitForStored(message.message_id);
+
+    telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "/forget",
+      replyToMessageId: message.message_id,
+      from: { id: 1087968824, is_bot: true, first_name: "Group", username: "GroupAnonymousBot" },
+      extra: { sender_chat: { id: CHAT_ID, type: "supergroup", title: "Dev Team" } },
+    });
+
+    const reply = await waitForReply();
+    expect(reply.text).toContain("Forgotten");
+    expect(getTelegramMessages(CHAT_ID)).toHaveLength(0);
+  });
+
+  test("/forget is refused for non-admins", async () => {
+    const message = telegram.sendUserMessage({ chatId: CHAT_ID, text: "keep me" });
+    await waitForStored(message.message_id);
+
+    telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "/forget",
+      replyToMessageId: message.message_id,
+    });
+
+    const reply = await waitForReply();
+    expect(reply.text).toContain("Only chat admins");
+    expect(getTelegramMessages(CHAT_ID)).toHaveLength(1);
+  });
+
+  test("/forget without a reply explains how to use it", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/forget" });
+
+    const reply = await waitForReply();
+    expect(reply.text).toContain("Reply /forget to the message");
+  });
+});
+
+describe("forum topics", () => {
+  function payUrlOf(message: FakeTelegramMessage) {
+    return new URL(inlineButtonUrl(message));
+  }
+
+  test("stores messages with their topic and learns topic names", async () => {
+    const releases = telegram.createTopic({ chatId: CHAT_ID, name: "Releases" });
+    const support = telegram.createTopic({ chatId: CHAT_ID, name: "Support" });
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "v2.1 is tagged", threadId: releases });
+    const last = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "login is broken",
+      threadId: support,
+    });
+
+    const stored = await waitForStored(last.message_id);
+    expect(stored.threadId).toBe(support);
+    // The implicit reply to the topic's creation message is not a real reply
+    expect(stored.replyToMessageId).toBeUndefined();
+
+    expect(getTelegramMessagesWithin(CHAT_ID, 60, releases).map((msg) => msg.text)).toEqual([
+      "v2.1 is tagged",
+    ]);
+    expect(getTelegramTopicNames(CHAT_ID)).toEqual(
+      new Map([
+        [releases, "Releases"],
+        [support, "Support"],
+      ])
+    );
+  });
+
+  test("/summarise inside a topic is scoped to it and answers in it", async () => {
+    const topic = telegram.createTopic({ chatId: CHAT_ID, name: "Releases" });
+    const command = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "/summarise 30",
+      threadId: topic,
+    });
+
+    const prompt = await waitForReply();
+    expect(prompt.message_thread_id).toBe(topic);
+    expect(prompt.text).toContain("of this topic");
+    const payUrl = payUrlOf(prompt);
+    expect(payUrl.searchParams.get("threadId")).toBe(String(topic));
+
+    const token = decodeURIComponent(payUrl.searchParams.get("telegram_callback") ?? "");
+    expect(pendingTelegramCallbacks.get(token)).toMatchObject({
+      threadId: topic,
+      perTopic: false,
+      messageId: command.message_id,
+    });
+  });
+
+  test("/summarise <minutes> topics requests a per-topic digest", async () => {
+    const topic = telegram.createTopic({ chatId: CHAT_ID, name: "Releases" });
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise 90 topics", threadId: topic });
+
+    const prompt = await waitForReply();
+    expect(prompt.text).toContain("last 90 minutes of each topic of this group");
+    const payUrl = payUrlOf(prompt);
+    expect(payUrl.searchParams.get("perTopic")).toBe("1");
+    expect(payUrl.searchParams.get("threadId")).toBeNull();
+    expect(payUrl.searchParams.get("lookbackMinutes")).toBe("90");
+  });
+});
+
+describe("reply chains", () => {
+  // root ← answer ← follow-up, with unrelated chatter and a reply to the chatter in between
+  async function seedConversation() {
+    const root = telegram.sendUserMessage({ chatId: CHAT_ID, text: "Should we ship Friday?" });
+    const chatter = telegram.sendUserMessage({ chatId: CHAT_ID, text: "lunch anyone?" });
+    const answer = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "Only if QA signs off",
+      replyToMessageId: root.message_id,
+    });
+    telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "pizza",
+      replyToMessageId: chatter.message_id,
+    });
+    const followUp = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "QA is done",
+      replyToMessageId: answer.message_id,
+    });
+    await waitForStored(followUp.message_id);
+    return { root, chatter, answer, followUp };
+  }
+
+  test("selects a message range or the reply tree under a message", async () => {
+    const { root, chatter, answer } = await seedConversation();
+
+    const texts = (selection: Parameters<typeof selectTelegramMessages>[1]) =>
+      selectTelegramMessages(CHAT_ID, selection).map((msg) => msg.text);
+    expect(texts({ fromMessageId: chatter.message_id, toMessageId: answer.message_id })).toEqual([
+      "lunch anyone?",
+      "Only if QA signs off",
+    ]);
+    expect(texts({ fromMessageId: root.message_id, replyTree: true })).toEqual([
+      "Should we ship Friday?",
+      "Only if QA signs off",
+      "QA is done",
+    ]);
+  });
+
+  test("/summarise as a reply covers the replied message to now", async () => {
+    const { chatter } = await seedConversation();
+    const command = telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "/summarise",
+      replyToMessageId: chatter.message_id,
+    });
+
+    const prompt = await waitForReply();
+    expect(prompt.text).toContain("from the replied message to now");
+    const payUrl = new URL(inlineButtonUrl(prompt));
+    expect(payUrl.searchParams.get("fromMessageId")).toBe(String(chatter.message_id));
+    expect(payUrl.searchParams.has("lookbackMinutes")).toBe(false);
+
+    const token = decodeURIComponent(payUrl.searchParams.get("telegram_callback") ?? "");
+    expect(pendingTelegramCallbacks.get(token)).toMatchObject({
+      messageId: command.message_id,
+      fromMessageId: chatter.message_id,
+      replyTree: false,
+    });
+  });
+
+  test("/summarise thread covers only the reply tree", async () => {
+    const { root } = await seedConversation();
+    telegram.sendUserMessage({
+      chatId: CHAT_ID,
+      text: "/summarise thread",
+      replyToMessageId: root.message_id,
+    });
+
+    const prompt = await waitForReply();
+    expect(prompt.text).toContain("the replies under it");
+    const payUrl = new URL(inlineButtonUrl(prompt));
+    expect(payUrl.searchParams.get("fromMessageId")).toBe(String(root.message_id));
+    expect(payUrl.searchParams.get("replyTree")).toBe("1");
+  });
+
+  test("/summarise thread needs a replied message", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise thread" });
+
+    const reply = await waitForReply();
+    expect(reply.text).toContain("Reply /summarise thread");
+    expect(reply.reply_markup).toBeUndefined();
+  });
+});
+
+describe("private delivery", () => {
+  const USER_ID = 1000; // the fake's default sender
+
+  test("/summarise_dm asks users to start a private chat first", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise_dm 30" });
+
+    const reply = await waitForReply();
+    expect(reply.chat.id).toBe(CHAT_ID);
+    expect(reply.text).toContain("can't message you privately");
+    expect(inlineButtonUrl(reply)).toBe("https://t.me/summariser_test_bot?start=summarise_dm");
+    expect(telegram.sentMessages).toHaveLength(1);
+  });
+
+  test("/summarise_dm confirms by DM and marks the payment for private delivery", async () => {
+    telegram.sendUserMessage({ chatId: USER_ID, text: "/start" });
+    await waitForReply();
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise_dm 30" });
+
+    const prompt = await waitForReply((message) => message.text!.includes("Payment Required"));
+    expect(prompt.chat.id).toBe(CHAT_ID);
+    expect(prompt.text).toContain("sent to you privately");
+    const dms = telegram.sentMessages.filter((message) => message.chat.id === USER_ID);
+    expect(dms.at(-1)?.text).toStartWith("🔒 Your summary");
+
+    const payUrl = new URL(inlineButtonUrl(prompt));
+    const token = decodeURIComponent(payUrl.searchParams.get("telegram_callback") ?? "");
+    expect(pendingTelegramCallbacks.get(token)).toMatchObject({
+      chatId: CHAT_ID,
+      userId: USER_ID,
+      deliverPrivately: true,
+    });
+  });
+
+  test("bare /summarise_dm keeps private delivery through the preset picker", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise_dm" });
+
+    const picker = await waitForReply();
+    const buttons = inlineKeyboard(picker).flat();
+    expect(buttons[0]).toMatchObject({ callback_data: "summarise:15:dm" });
+  });
+});
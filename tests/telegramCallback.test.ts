@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { createFakeTelegram } from "../src/fakeTelegram";
+import { startServer, type TestServer } from "./helpers/server";
+import { inlineButtonUrl } from "./helpers/telegram";
+
+// The server's bot and its /telegram-callback delivery both talk to the fake Bot API.
+
+const CHAT_ID = -1001234567890;
+const USER_ID = 1000; // the fake's default sender
+
+const telegram = createFakeTelegram();
+let server: TestServer;
+
+async function requestPayment(text = "/summarise 30", threadId?: number) {
+  telegram.sendUserMessage({ chatId: CHAT_ID, text, threadId });
+  await telegram.waitForCall("sendMessage", (call) => Boolean(call.params.reply_markup));
+  const prompt = telegram.sentMessages.find((message) => message.reply_markup)!;
+  const payUrl = new URL(inlineButtonUrl(prompt));
+  return {
+    paymentMessageId: prompt.message_id,
+    token: payUrl.searchParams.get("telegram_callback") ?? "",
+  };
+}
+
+function postCallback(body: unknown) {
+  return fetch(`${server.baseUrl}/telegram-callback`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  server = await startServer({
+    TELEGRAM_BOT_TOKEN: telegram.token,
+    TELEGRAM_API_ROOT: telegram.url,
+  });
+}, 20_000);
+
+afterAll(() => {
+  server?.stop();
+  telegram.stop();
+});
+
+beforeEach(() => telegram.reset());
+
+describe("Telegram payment callback", () => {
+  test("posts the summary and removes the payment message", async () => {
+    const { paymentMessageId, token } = await requestPayment();
+
+    const response = await postCallback({
+      telegram_token: token,
+      result: { output: { summary: "• Deploy finished\n• Release notes due Friday" } },
+    });
+    expect(response.status).toBe(200);
+
+    const delivered = await telegram.waitForCall("sendMessage", (call) =>
+      String(call.params.text).includes("Deploy finished")
+    );
+    expect(Number(delivered.params.chat_id)).toBe(CHAT_ID);
+    await telegram.waitForCall("deleteMessage");
+    expect(telegram.deletedMessages).toEqual([{ chatId: CHAT_ID, messageId: paymentMessageId }]);
+  });
+
+  test("renders Markdown as Telegram HTML and splits long summaries", async () => {
+    const { token } = await requestPayment();
+    const bullets = Array.from({ length: 300 }, (_, index) => `- Item ${index} <needs review>`);
+    const summary = ["**Highlights:**", ...bullets, "_Busy day._"].join("\n");
+
+    await postCallback({ telegram_token: token, result: { output: { summary } } });
+
+    const last = await telegram.waitForCall("sendMessage", (call) =>
+      String(call.params.text).includes("<i>Busy day.</i>")
+    );
+    const parts = telegram.calls.filter(
+      (call) => call.method === "sendMessage" && call.params.parse_mode === "HTML"
+    );
+    expect(parts.length).toBeGreaterThan(1);
+    expect(String(parts[0].params.text)).toStartWith(
+      "<b>Highlights:</b>\n• Item 0 &lt;needs review&gt;"
+    );
+    expect(parts.at(-1)).toBe(last);
+  });
+
+  test("posts a topic summary back into that topic", async () => {
+    const topic = telegram.createTopic({ chatId: CHAT_ID, name: "Releases" });
+    const { token } = await requestPayment("/summarise 30", topic);
+
+    await postCallback({ telegram_token: token, result: { output: { summary: "v2.1 shipped." } } });
+
+    const delivered = await telegram.waitForCall("sendMessage", (call) =>
+      String(call.params.text).includes("v2.1 shipped")
+    );
+    expect(Number(delivered.params.message_thread_id)).toBe(topic);
+  });
+
+  test("/summarise_dm delivers privately and still clears the group prompt", async () => {
+    telegram.sendUserMessage({ chatId: USER_ID, text: "/start" });
+    const { paymentMessageId, token } = await requestPayment("/summarise_dm 30");
+
+    await postCallback({ telegram_token: token, result: { output: { summary: "Roadmap agreed." } } });
+
+    const delivered = await telegram.waitForCall("sendMessage", (call) =>
+      String(call.params.text).includes("Roadmap agreed")
+    );
+    expect(Number(delivered.params.chat_id)).toBe(USER_ID);
+    await telegram.waitForCall("deleteMessage");
+    expect(telegram.deletedMessages).toEqual([{ chatId: CHAT_ID, messageId: paymentMessageId }]);
+  });
+
+  test("holds a summary it can't DM until the requester starts the bot", async () => {
+    telegram.sendUserMessage({ chatId: USER_ID, text: "/start" });
+    const { token } = await requestPayment("/summarise_dm 30");
+    telegram.blockBot(USER_ID);
+
+    await postCallback({ telegram_token: token, result: { output: { summary: "Roadmap agreed." } } });
+
+    const notice = await telegram.waitForCall(
+      "sendMessage",
+      (call) =>
+        Number(call.params.chat_id) === CHAT_ID && String(call.params.text).includes("press Start")
+    );
+    expect(String(notice.params.text)).toContain("can't message them");
+    const sentTo = (chatId: number) =>
+      telegram.sentMessages.filter(
+        (message) => message.chat.id === chatId && String(message.text).includes("Roadmap agreed")
+      );
+    expect(sentTo(CHAT_ID)).toHaveLength(0);
+    expect(sentTo(USER_ID)).toHaveLength(0);
+
+    const callsBefore = telegram.calls.length;
+    telegram.sendUserMessage({ chatId: USER_ID, text: "/start" });
+    await telegram.waitForCall(
+      "sendMessage",
+      (call) =>
+        telegram.calls.indexOf(call) >= callsBefore &&
+        String(call.params.text).includes("Roadmap agreed")
+    );
+    expect(sentTo(USER_ID)).toHaveLength(1);
+    expect(sentTo(CHAT_ID)).toHaveLength(0);
+  });
+
+  test("a callback token can only be redeemed once", async () => {
+    const { token } = await requestPayment();
+    const body = { telegram_token: token, result: { output: { summary: "All quiet." } } };
+
+    expect((await postCallback(body)).status).toBe(200);
+    expect((await postCallback(body)).status).toBe(404);
+  });
+
+  test("rejects unknown callback tokens", async () => {
+    const response = await postCallback({ telegram_token: "not-a-token", result: {} });
+    expect(response.status).toBe(404);
+    expect(telegram.calls.some((call) => call.method === "deleteMessage")).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import {
+  renderTelegramHtml,
+  splitTelegramHtml,
+  TELEGRAM_MESSAGE_LIMIT,
+  telegramHtmlToText,
+} from "../src/telegramFormat";
+
+function tagsBalance(html: string) {
+  const open: string[] = [];
+  for (const [, closing, name] of html.matchAll(/<(\/?)([a-z]+)(?:\s[^>]*)?>/g)) {
+    if (!closing) open.push(name);
+    else if (open.pop() !== name) return false;
+  }
+  return open.length === 0;
+}
+
+describe("renderTelegramHtml", () => {
+  test("renders a typical summary", () => {
+    const summary = [
+      "Good morning!",
+      "",
+      "**Highlights:**",
+      "- Ada shipped *v2* of the API",
+      "• Release notes are in [the docs](https://example.com/docs?a=1&b=2)",
+      "",
+      "_Plenty of alpha, minimal chaos._",
+    ].join("\n");
+
+    expect(renderTelegramHtml(summary)).toBe(
+      [
+        "Good morning!",
+        "",
+        "<b>Highlights:</b>",
+        "• Ada shipped <i>v2</i> of the API",
+        '• Release notes are in <a href="https://example.com/docs?a=1&amp;b=2">the docs</a>',
+        "",
+        "<i>Plenty of alpha, minimal chaos.</i>",
+      ].join("\n")
+    );
+  });
+
+  test("escapes HTML and leaves identifiers and code alone", () => {
+    const rendered = renderTelegramHtml("if a < b && c > d, call `fetch_all(*args)` on snake_case");
+    expect(rendered).toBe(
+      "if a &lt; b &amp;&amp; c &gt; d, call <code>fetch_all(*args)</code> on snake_case"
+    );
+  });
+
+  test("leaves crossed emphasis markers literal instead of misnesting tags", () => {
+    for (const [markdown, html] of [
+      ["**a _b** c_", "<b>a _b</b> c_"],
+      ["_a **b_ c**", "_a <b>b_ c</b>"],
+      ["~~a *b~~ c*", "<s>a *b</s> c*"],
+    ]) {
+      const rendered = renderTelegramHtml(markdown);
+      expect(rendered).toBe(html);
+      expect(tagsBalance(rendered)).toBe(true);
+    }
+  });
+
+  test("escapes quotes inside a link target", () => {
+    const rendered = renderTelegramHtml('[search](https://example.com/?q="x"onclick=1)');
+    expect(rendered).toBe(
+      '<a href="https://example.com/?q=&quot;x&quot;onclick=1">search</a>'
+    );
+    expect(telegramHtmlToText(rendered)).toBe('search (https://example.com/?q="x"onclick=1)');
+  });
+
+  test("turns headings into bold lines and fences into pre blocks", () => {
+    expect(renderTelegramHtml("## Action Items\n```\nx = 1 < 2\n```")).toBe(
+      "<b>Action Items</b>\n<pre>x = 1 &lt; 2</pre>"
+    );
+  });
+});
+
+describe("telegramHtmlToText", () => {
+  test("drops markup, keeps link targets and unescapes text", () => {
+    const html = renderTelegramHtml("**Note:** a < b, see [the docs](https://example.com/?a=1&b=2)");
+    expect(telegramHtmlToText(html)).toBe(
+      "Note: a < b, see the docs (https://example.com/?a=1&b=2)"
+    );
+  });
+});
+
+describe("splitTelegramHtml", () => {
+  test("keeps short messages whole", () => {
+    const html = "<b>Highlights:</b>\n• one";
+    expect(splitTelegramHtml(html)).toEqual([html]);
+  });
+
+  test("splits at line breaks within the limit", () => {
+    const lines = Array.from({ length: 400 }, (_, index) => `• item number ${index}`);
+    const parts = splitTelegramHtml(lines.join("\n"));
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(part.length).toBeLessThanOrEqual(TELEGRAM_MESSAGE_LIMIT);
+    }
+    expect(parts.join("\n")).toBe(lines.join("\n"));
+  });
+
+  test("closes and reopens formatting cut by a split", () => {
+    const html = `<b>${"word ".repeat(30).trim()}</b>`;
+    const parts = splitTelegramHtml(html, 60);
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(part.length).toBeLessThanOrEqual(60);
+      expect(part).toStartWith("<b>");
+      expect(part).toEndWith("</b>");
+    }
+  });
+
+  test("never cuts through an escaped character or a link", () => {
+    const link = `<a href="https://example.com">${"link ".repeat(20).trim()}</a>`;
+    const html = `${"a&amp;b".repeat(20)}\n${link}`;
+    const parts = splitTelegramHtml(html, 50);
+
+    for (const part of parts) {
+      expect(part.length).toBeLessThanOrEqual(50);
+      expect(part.replace(/&amp;/g, "")).not.toContain("&");
+      expect(tagsBalance(part)).toBe(true);
+    }
+  });
+});
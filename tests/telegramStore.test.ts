@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import { openDatabase } from "../src/db";
+import {
+  createInMemoryTelegramStore,
+  createSqliteTelegramStore,
+  type TelegramMessageStore,
+  type TelegramStoredMessage,
+} from "../src/telegramStore";
+
+// Both stores sit behind the same interface, so each behaviour is checked against both; the
+// SQLite one runs on a fresh in-memory database per test.
+
+const CHAT_ID = -1001234567890;
+const HOUR_MS = 60 * 60 * 1000;
+
+function message(messageId: number, overrides: Partial<TelegramStoredMessage> = {}) {
+  return { messageId, text: `message ${messageId}`, timestampMs: Date.now(), ...overrides };
+}
+
+const stores: [string, () => TelegramMessageStore][] = [
+  ["in-memory", () => createInMemoryTelegramStore()],
+  ["SQLite", () => createSqliteTelegramStore(openDatabase(":memory:"))],
+];
+
+for (const [name, createStore] of stores) {
+  describe(`${name} Telegram store`, () => {
+    test("replaces a message added twice, keeping its reactions", () => {
+      const store = createStore();
+      store.add(CHAT_ID, message(1));
+      store.updateReactions(CHAT_ID, 1, [{ emoji: "👍", count: 2 }]);
+
+      store.add(CHAT_ID, message(1, { text: "seen again" }));
+
+      const stored = store.list(CHAT_ID);
+      expect(stored).toHaveLength(1);
+      expect(stored[0]).toMatchObject({ text: "seen again", reactionCount: 2 });
+    });
+
+    test("drops messages past the retention window", () => {
+      const store = createStore();
+      store.add(CHAT_ID, message(1, { timestampMs: Date.now() - 25 * HOUR_MS }));
+      store.add(CHAT_ID, message(2, { timestampMs: Date.now() - 2 * HOUR_MS }));
+      store.add(CHAT_ID, message(3));
+      expect(store.list(CHAT_ID).map((msg) => msg.messageId)).toEqual([2, 3]);
+
+      store.prune(Date.now() - HOUR_MS);
+      expect(store.list(CHAT_ID).map((msg) => msg.messageId)).toEqual([3]);
+    });
+
+    test("keeps only the newest 1000 messages of a chat", () => {
+      const store = createStore();
+      const start = Date.now() - HOUR_MS;
+      for (let messageId = 1; messageId <= 1005; messageId += 1) {
+        store.add(CHAT_ID, message(messageId, { timestampMs: start + messageId }));
+      }
+      store.add(CHAT_ID + 1, message(1));
+
+      const stored = store.list(CHAT_ID);
+      expect(stored).toHaveLength(1000);
+      expect(stored[0].messageId).toBe(6);
+      expect(store.list(CHAT_ID + 1)).toHaveLength(1);
+    });
+
+    test("selects windows and ID ranges, optionally within one topic", () => {
+      const store = createStore();
+      const now = Date.now();
+      store.add(CHAT_ID, message(10, { timestampMs: now - 3 * HOUR_MS }));
+      store.add(CHAT_ID, message(12, { timestampMs: now - 30 * 60 * 1000, threadId: 7 }));
+      store.add(CHAT_ID, message(11, { timestampMs: now - 20 * 60 * 1000 }));
+      store.add(CHAT_ID, message(13, { timestampMs: now - 10 * 60 * 1000, threadId: 7 }));
+
+      const ids = (messages: TelegramStoredMessage[]) => messages.map((msg) => msg.messageId);
+      expect(ids(store.listSince(CHAT_ID, now - HOUR_MS))).toEqual([12, 11, 13]);
+      expect(ids(store.listSince(CHAT_ID, now - HOUR_MS, 7))).toEqual([12, 13]);
+      expect(ids(store.listRange(CHAT_ID, 11))).toEqual([11, 12, 13]);
+      expect(ids(store.listRange(CHAT_ID, 10, 12))).toEqual([10, 11, 12]);
+      expect(ids(store.listRange(CHAT_ID, 10, undefined, 7))).toEqual([12, 13]);
+    });
+  });
+}
+
+describe("SQLite Telegram store migrations", () => {
+  test("apply once and leave stored messages alone when run again", () => {
+    const db = openDatabase(":memory:");
+    createSqliteTelegramStore(db).add(CHAT_ID, message(1, { threadId: 3, authorIsAdmin: true }));
+
+    const reopened = createSqliteTelegramStore(db);
+
+    const { version } = db
+      .query("SELECT version FROM schema_migrations WHERE scope = 'telegram_messages'")
+      .get() as { version: number };
+    expect(version).toBe(6);
+    expect(reopened.get(CHAT_ID, 1)).toMatchObject({ threadId: 3, authorIsAdmin: true });
+  });
+});
@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { createFakeTelegram } from "../src/fakeTelegram";
+import { startServer, type TestServer } from "./helpers/server";
+
+// With TELEGRAM_WEBHOOK_SECRET set the server registers /telegram-webhook instead of polling,
+// and the fake Bot API POSTs updates to it.
+
+const CHAT_ID = -1001234567890;
+const SECRET = "webhook-test-secret";
+
+const telegram = createFakeTelegram();
+let server: TestServer;
+let registration: { params: Record<string, any> };
+let polledAtStartup: boolean;
+
+function postUpdate(update: unknown, secret?: string) {
+  return fetch(`${server.baseUrl}/telegram-webhook`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(secret ? { "X-Telegram-Bot-Api-Secret-Token": secret } : {}),
+    },
+    body: JSON.stringify(update),
+  });
+}
+
+beforeAll(async () => {
+  server = await startServer({
+    TELEGRAM_BOT_TOKEN: telegram.token,
+    TELEGRAM_API_ROOT: telegram.url,
+    TELEGRAM_WEBHOOK_SECRET: SECRET,
+  });
+  registration = await telegram.waitForCall("setWebhook", undefined, 10_000);
+  polledAtStartup = telegram.calls.some((call) => call.method === "getUpdates");
+}, 20_000);
+
+afterAll(() => {
+  server?.stop();
+  telegram.stop();
+});
+
+beforeEach(() => telegram.reset());
+
+describe("Telegram webhook mode", () => {
+  test("registers the webhook with its secret instead of polling", () => {
+    expect(registration.params.url).toBe(`${server.baseUrl}/telegram-webhook`);
+    expect(registration.params.secret_token).toBe(SECRET);
+    expect(polledAtStartup).toBe(false);
+  });
+
+  test("handles updates delivered to the webhook", async () => {
+    telegram.sendUserMessage({ chatId: CHAT_ID, text: "/summarise 30" });
+
+    const prompt = await telegram.waitForCall("sendMessage", (call) =>
+      Boolean(call.params.reply_markup)
+    );
+    expect(Number(prompt.params.chat_id)).toBe(CHAT_ID);
+    expect(String(prompt.params.text)).toContain("Payment Required");
+  });
+
+  test("rejects updates without the secret token", async () => {
+    const update = {
+      update_id: 999,
+      message: {
+        message_id: 1,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: CHAT_ID, type: "supergroup" },
+        text: "/start",
+        entities: [{ type: "bot_command", offset: 0, length: 6 }],
+      },
+    };
+
+    expect((await postUpdate(update)).status).toBe(401);
+    expect((await postUpdate(update, "wrong-secret")).status).toBe(401);
+    await Bun.sleep(200);
+    expect(telegram.calls.some((call) => call.method === "sendMessage")).toBe(false);
+  });
+});